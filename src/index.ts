@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+
+import { parseArgs } from "util";
+import { AUDIT_TOOL_NAME } from "./shared/base-server.js";
+import { CompositeMCPServer, HostedServer, namespacedToolName } from "./shared/composite-server.js";
+import { CONFIG_USAGE, configArgOptions, loadConfig, ResolvedConfig, toTransportOptions } from "./shared/config.js";
+import { isServerKey, serverFactories, ServerKey, serverKeys } from "./servers/registry.js";
+
+const USAGE = `Usage: ais-mcpserver [options]
+
+Hosts any subset of the AIS MCP servers behind a single MCP connection.
+
+Options:
+  --servers <list>   Comma-separated servers to host (${serverKeys.join(", ")})
+  --<server>         Host a single server, e.g. --memory --rules (repeatable)
+  --list             Print the tools, prompts and resources of the selected servers and exit
+  -h, --help         Show this help
+
+Without a selection, the "servers" config value (or AIS_MCP_SERVERS) is used,
+and otherwise all servers are hosted.
+
+${CONFIG_USAGE}`;
+
+function parseServerList(keys: string[]): ServerKey[] {
+  for (const key of keys) {
+    if (!isServerKey(key)) {
+      throw new Error(`Unknown server: ${key} (expected one of ${serverKeys.join(", ")})`);
+    }
+  }
+  return keys as ServerKey[];
+}
+
+interface LauncherOptions {
+  keys: ServerKey[];
+  config: ResolvedConfig;
+  list: boolean;
+  help: boolean;
+}
+
+function parseLauncherArgs(argv: string[]): LauncherOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      servers: { type: "string", multiple: true },
+      list: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+      ...configArgOptions,
+      ...Object.fromEntries(serverKeys.map(key => [key, { type: "boolean" as const }])),
+    },
+    strict: true,
+  }) as { values: Record<string, unknown> };
+
+  const selected = new Set<ServerKey>();
+  for (const list of (values.servers as string[] | undefined) ?? []) {
+    parseServerList(list.split(",").map(key => key.trim()).filter(Boolean)).forEach(key => selected.add(key));
+  }
+  for (const key of serverKeys) {
+    if (values[key]) {
+      selected.add(key);
+    }
+  }
+
+  const config = loadConfig({ flags: values });
+  if (selected.size === 0) {
+    parseServerList(config.servers).forEach(key => selected.add(key));
+  }
+
+  return {
+    keys: selected.size > 0 ? serverKeys.filter(key => selected.has(key)) : serverKeys,
+    config,
+    list: Boolean(values.list),
+    help: Boolean(values.help),
+  };
+}
+
+function printListing(hosted: HostedServer[]): void {
+  const shared = hosted[0]?.server.getTools().find(tool => tool.name === AUDIT_TOOL_NAME);
+  if (shared) {
+    console.log("Shared tools:");
+    console.log(`  - ${shared.name}: ${shared.description}`);
+    console.log("");
+  }
+
+  for (const { namespace, server } of hosted) {
+    console.log(`${server.serverInfo.displayName} (${namespace})`);
+    console.log("  Tools:");
+    for (const tool of server.getTools().filter(tool => tool.name !== AUDIT_TOOL_NAME)) {
+      console.log(`    - ${namespacedToolName(namespace, tool.name)}: ${tool.description}`);
+    }
+    const prompts = server.getPrompts();
+    if (prompts.length > 0) {
+      console.log("  Prompts:");
+      for (const prompt of prompts) {
+        console.log(`    - ${namespacedToolName(namespace, prompt.name)}: ${prompt.description}`);
+      }
+    }
+    const resources = server.getResources();
+    if (resources.length > 0) {
+      console.log("  Resources:");
+      for (const resource of resources) {
+        console.log(`    - ${resource.uri}: ${resource.description}`);
+      }
+    }
+    console.log("");
+  }
+}
+
+async function main(): Promise<void> {
+  const { keys, config, list, help } = parseLauncherArgs(process.argv.slice(2));
+
+  if (help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const hosted: HostedServer[] = keys.map(key => ({
+    namespace: key,
+    server: serverFactories[key](config),
+  }));
+
+  if (list) {
+    printListing(hosted);
+    return;
+  }
+
+  await new CompositeMCPServer(hosted, config).run(toTransportOptions(config));
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,640 @@
+import { basename, dirname } from "path";
+
+export type CommitType = "feat" | "fix" | "docs" | "test" | "build" | "ci" | "style" | "refactor" | "perf" | "chore";
+
+export type FileCategory = "source" | "docs" | "test" | "build" | "ci" | "other";
+
+export interface DiffHunk {
+  /** Text after the second @@, usually the enclosing function or class. */
+  context: string;
+  added: string[];
+  removed: string[];
+  /** Every line of the hunk in order, context included, with its " ", "+" or "-" marker. */
+  lines: string[];
+}
+
+export interface FileDiff {
+  path: string;
+  /** Path before a rename or copy. */
+  oldPath: string | null;
+  status: "added" | "deleted" | "modified" | "renamed";
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+export interface CodeSymbol {
+  name: string;
+  kind: string;
+  /** Part of the file's public surface, so removing it breaks callers. */
+  exported: boolean;
+}
+
+export interface FileChange {
+  file: FileDiff;
+  category: FileCategory;
+  addedSymbols: CodeSymbol[];
+  removedSymbols: CodeSymbol[];
+  renamedSymbols: { from: CodeSymbol; to: CodeSymbol }[];
+  /** Symbols whose bodies hold changed lines. */
+  touchedSymbols: string[];
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+export interface CommitClassification {
+  type: CommitType;
+  scope: string | null;
+  breaking: boolean;
+  subject: string;
+  /** Bulleted list of what changed per file, without a trailing newline. */
+  body: string;
+  /** BREAKING CHANGE footer, when exports were removed. */
+  footer: string | null;
+  /** Subject, body and footer as the complete commit message. */
+  message: string;
+  files: FileChange[];
+}
+
+/** Conventional commit subjects stay within this length, as the prompt asks of models. */
+const MAX_SUBJECT_LENGTH = 72;
+const MAX_BODY_FILES = 20;
+const MAX_LISTED_SYMBOLS = 6;
+
+/** Directory names that say nothing about what a change is about. */
+const GENERIC_DIRECTORIES = new Set([
+  "src", "lib", "source", "app", "pkg", "internal", "cmd",
+  "test", "tests", "__tests__", "spec", "specs", "docs", "doc", "scripts", "workflows",
+]);
+/** Parents of one directory per package in a monorepo. */
+const PACKAGE_DIRECTORIES = new Set(["packages", "apps", "libs", "crates", "modules", "services", "plugins"]);
+
+const CATEGORY_PATTERNS: [Exclude<FileCategory, "source" | "other">, RegExp][] = [
+  ["ci", /^\.github\/workflows\/|^\.gitlab-ci\.yml$|^\.circleci\/|^\.travis\.yml$|(^|\/)azure-pipelines\.ya?ml$|(^|\/)Jenkinsfile$|^\.buildkite\//],
+  ["test", /(^|\/)(tests?|__tests__|specs?|__mocks__|fixtures)\/|\.(test|spec)\.\w+$|_test\.(go|py)$|(^|\/)test_\w+\.py$|(^|\/)conftest\.py$/],
+  ["docs", /\.(md|mdx|rst|adoc)$|(^|\/)docs?\/|(^|\/)(LICENSE|COPYING|AUTHORS|CHANGELOG)(\.\w+)?$/i],
+  [
+    "build",
+    /(^|\/)(package\.json|package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb|\.npmrc|\.nvmrc|tsconfig(\.\w+)?\.json|Dockerfile|docker-compose\.ya?ml|Makefile|CMakeLists\.txt|Cargo\.(toml|lock)|go\.(mod|sum)|pyproject\.toml|setup\.(py|cfg)|requirements[\w-]*\.txt|Pipfile(\.lock)?|poetry\.lock|Gemfile(\.lock)?|pom\.xml|build\.gradle(\.kts)?|settings\.gradle(\.kts)?)$|(^|\/)(vite|webpack|rollup|esbuild|babel|vitest|jest)\.config\.\w+$/,
+  ],
+];
+
+/** Manifests and lockfiles: a build change touching only these updates dependencies. */
+const DEPENDENCY_FILES = /(^|\/)(package(-lock)?\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.(toml|lock)|go\.(mod|sum)|requirements[\w-]*\.txt|Pipfile(\.lock)?|poetry\.lock|Gemfile(\.lock)?)$/;
+
+interface SymbolPattern {
+  regex: RegExp;
+  kind: string | ((match: RegExpExecArray) => string);
+  exported: (match: RegExpExecArray, line: string) => boolean;
+}
+
+const JS_KEYWORDS = new Set(["if", "for", "while", "switch", "catch", "return", "function", "constructor", "super", "with"]);
+
+const LANGUAGE_PATTERNS: [RegExp, SymbolPattern[]][] = [
+  [
+    /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/,
+    [
+      { regex: /^(export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?function\*?\s+([\w$]+)/, kind: "function", exported: m => Boolean(m[1]) },
+      { regex: /^(export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([\w$]+)/, kind: "class", exported: m => Boolean(m[1]) },
+      { regex: /^(export\s+)?(?:declare\s+)?(interface|type|enum)\s+([\w$]+)/, kind: m => m[2], exported: m => Boolean(m[1]) },
+      { regex: /^(export\s+)?(?:declare\s+)?(?:const|let|var)\s+([\w$]+)\s*[:=]/, kind: "constant", exported: m => Boolean(m[1]) },
+      {
+        regex: /^\s+(?:(?:public|private|protected|static|async|readonly|override|get|set)\s+)*([\w$]+)\s*(?:<[^>]*>)?\([^)]*\)\s*(?::\s*[^={;]+)?\{\s*$/,
+        kind: "method",
+        exported: () => false,
+      },
+    ],
+  ],
+  [
+    /\.py$/,
+    [
+      { regex: /^(\s*)(?:async\s+)?def\s+(\w+)/, kind: "function", exported: m => !m[1] && !m[2].startsWith("_") },
+      { regex: /^(\s*)class\s+(\w+)/, kind: "class", exported: m => !m[1] && !m[2].startsWith("_") },
+    ],
+  ],
+  [
+    /\.go$/,
+    [
+      { regex: /^func\s+(\([^)]*\)\s*)?(\w+)/, kind: m => (m[1] ? "method" : "function"), exported: m => /^[A-Z]/.test(m[2]) },
+      { regex: /^type\s+()(\w+)/, kind: "type", exported: m => /^[A-Z]/.test(m[2]) },
+    ],
+  ],
+  [
+    /\.rs$/,
+    [
+      {
+        regex: /^\s*(pub(?:\([\w:]+\))?\s+)?(?:async\s+)?(?:unsafe\s+)?(fn|struct|enum|trait|mod|type)\s+(\w+)/,
+        kind: m => m[2],
+        exported: m => m[1]?.trim() === "pub",
+      },
+    ],
+  ],
+  [
+    /\.(java|kt|kts|cs|scala|swift)$/,
+    [
+      {
+        regex: /^\s*((?:public|open)\s+)?(?:(?:private|protected|internal|static|final|abstract|sealed|data|partial)\s+)*(class|interface|enum|record|struct|object)\s+(\w+)/,
+        kind: m => m[2],
+        exported: m => Boolean(m[1]),
+      },
+    ],
+  ],
+];
+
+const PERF_HINT = /\b(cache[ds]?|caching|memoi[sz]\w*|debounce\w*|throttle\w*|lazy|lazily|batch(?:ed|es|ing)?|pool(?:ed|ing)?|perf(?:ormance)?|faster|O\(\w+\))\b/i;
+const FIX_COMMENT = /(\/\/|#|\/\*|\*)\s*.*\b(fix(?:es|ed)?|bug|workaround|regression|issue)\b/i;
+const GUARD = /\?\?|\?\.|\b(catch|finally|except)\b|[!=]==?\s*(null|undefined|nil)\b|\bis(?: not)? None\b|\bif\s*\(\s*!|\bif not\b|\bif err != nil\b|\bthrow\b|\braise\b/;
+
+/** Reads a path as git prints it, C-quoted when it holds special characters. */
+function unquotePath(path: string): string {
+  if (!path.startsWith('"')) return path;
+  const escapes: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, "\\": 92 };
+  const bytes: number[] = [];
+  for (let i = 1; i < path.length - 1; i++) {
+    if (path[i] !== "\\") {
+      bytes.push(...Buffer.from(path[i]));
+      continue;
+    }
+    const octal = /^[0-7]{3}/.exec(path.slice(i + 1));
+    if (octal) {
+      bytes.push(parseInt(octal[0], 8));
+      i += 3;
+    } else {
+      bytes.push(escapes[path[i + 1]] ?? path.charCodeAt(i + 1));
+      i++;
+    }
+  }
+  return Buffer.from(bytes).toString("utf-8");
+}
+
+/** Strips the a/ or b/ prefix from a path on a ---, +++ or diff --git line; null for /dev/null. */
+function diffPath(text: string): string | null {
+  const path = unquotePath(text.replace(/\t$/, ""));
+  return path === "/dev/null" ? null : path.replace(/^[ab]\//, "");
+}
+
+/**
+ * Parses `git diff` output into files and hunks. Paths come from the
+ * ---/+++ lines, the rename lines or, for diffs without either such as
+ * binary or mode changes, the diff --git line.
+ */
+export function parseDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let file: FileDiff | null = null;
+  let hunk: DiffHunk | null = null;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      const rest = line.slice("diff --git ".length);
+      const half = (rest.length - 1) / 2;
+      const path = Number.isInteger(half) && rest[half] === " " ? diffPath(rest.slice(half + 1)) : null;
+      file = { path: path ?? "", oldPath: null, status: "modified", binary: false, hunks: [] };
+      files.push(file);
+      hunk = null;
+    } else if (!file) {
+      continue;
+    } else if (line.startsWith("@@")) {
+      hunk = { context: /^@@ [^@]* @@ ?(.*)$/.exec(line)?.[1] ?? "", added: [], removed: [], lines: [] };
+      file.hunks.push(hunk);
+    } else if (hunk) {
+      if (line.startsWith("+")) hunk.added.push(line.slice(1));
+      else if (line.startsWith("-")) hunk.removed.push(line.slice(1));
+      if (/^[ +-]/.test(line)) hunk.lines.push(line);
+    } else if (line.startsWith("new file mode")) {
+      file.status = "added";
+    } else if (line.startsWith("deleted file mode")) {
+      file.status = "deleted";
+    } else if (line.startsWith("rename from ") || line.startsWith("copy from ")) {
+      file.oldPath = unquotePath(line.replace(/^(rename|copy) from /, ""));
+      if (line.startsWith("rename")) file.status = "renamed";
+    } else if (line.startsWith("rename to ") || line.startsWith("copy to ")) {
+      file.path = unquotePath(line.replace(/^(rename|copy) to /, ""));
+      if (line.startsWith("copy")) file.status = "added";
+    } else if (line.startsWith("--- ")) {
+      const path = diffPath(line.slice(4));
+      if (path && file.status === "deleted") file.path = path;
+    } else if (line.startsWith("+++ ")) {
+      const path = diffPath(line.slice(4));
+      if (path) file.path = path;
+    } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+      file.binary = true;
+    }
+  }
+  return files;
+}
+
+function categorize(path: string): FileCategory {
+  const category = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(path))?.[0];
+  if (category) return category;
+  return LANGUAGE_PATTERNS.some(([extensions]) => extensions.test(path)) ? "source" : "other";
+}
+
+/** Declarations a line introduces, going by the file's language. */
+export function declaredSymbols(path: string, line: string): CodeSymbol[] {
+  const patterns = LANGUAGE_PATTERNS.find(([extensions]) => extensions.test(path))?.[1] ?? [];
+  const exportList = /^export\s*(?:type\s*)?\{([^}]*)\}/.exec(line);
+  if (exportList && /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/.test(path)) {
+    return exportList[1]
+      .split(",")
+      .map(item => item.trim().split(/\s+as\s+/).pop()!.trim())
+      .filter(name => /^[\w$]+$/.test(name))
+      .map(name => ({ name, kind: "export", exported: true }));
+  }
+  for (const { regex, kind, exported } of patterns) {
+    const match = regex.exec(line);
+    const name = match?.[match.length - 1];
+    if (match && name && !JS_KEYWORDS.has(name)) {
+      return [{ name, kind: typeof kind === "string" ? kind : kind(match), exported: exported(match, line) }];
+    }
+  }
+  return [];
+}
+
+interface Declaration {
+  symbol: CodeSymbol;
+  /** The declaring line followed by the lines up to the next declaration. */
+  lines: string[];
+}
+
+function declarations(path: string, lines: string[]): Declaration[] {
+  const found: Declaration[] = [];
+  for (const line of lines) {
+    const symbols = declaredSymbols(path, line);
+    if (symbols.length > 0) found.push(...symbols.map(symbol => ({ symbol, lines: [line] })));
+    else found[found.length - 1]?.lines.push(line);
+  }
+  return found;
+}
+
+/** Levenshtein distance between two names. */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * A removed and an added declaration of the same kind are one renamed
+ * symbol when the names are close or, with the names taken out, at least
+ * half of their meaningful lines are the same.
+ */
+function isRename(from: Declaration, to: Declaration): boolean {
+  if (from.symbol.kind !== to.symbol.kind) return false;
+  const [a, b] = [from.symbol.name.toLowerCase(), to.symbol.name.toLowerCase()];
+  if (editDistance(a, b) <= Math.max(a.length, b.length) / 3) return true;
+
+  const content = ({ symbol, lines }: Declaration) => {
+    const name = new RegExp(`(?<![\\w$])${symbol.name.replace(/\$/g, "\\$")}(?![\\w$])`, "g");
+    return lines.map(line => line.replace(name, "\0").replace(/\s+/g, "")).filter(line => /[\w$]/.test(line));
+  };
+  const before = content(from);
+  const after = new Set(content(to));
+  const shared = before.filter(line => after.has(line)).length;
+  return shared > 0 && shared >= Math.max(before.length, after.size) / 2;
+}
+
+/**
+ * Names of the declarations whose bodies hold the hunk's changed lines,
+ * starting from the enclosing declaration git names in the hunk header. A
+ * body ends at its closing brace or at the next line indented no deeper than
+ * the declaration, except for a line continuing its signature.
+ */
+function touchedBy(path: string, hunk: DiffHunk): string[] {
+  const touched = new Set<string>();
+  const open: { names: string[]; indent: number }[] = [];
+  const indentOf = (line: string) => /^\s*/.exec(line)![0].length;
+  const enter = (line: string) => {
+    const symbols = declaredSymbols(path, line);
+    if (symbols.length > 0) open.push({ names: symbols.map(symbol => symbol.name), indent: indentOf(line) });
+  };
+  enter(hunk.context);
+
+  for (const line of hunk.lines) {
+    const text = line.slice(1);
+    const changed = line[0] !== " ";
+    if (text.trim() !== "") {
+      const indent = indentOf(text);
+      const closes = /^\s*\}/.test(text);
+      const continues = /^\s*[)\]]/.test(text);
+      while (open.length > 0) {
+        const top = open[open.length - 1];
+        if (indent > top.indent || (indent === top.indent && (closes || continues))) break;
+        open.pop();
+      }
+      enter(text);
+      if (changed) open[open.length - 1]?.names.forEach(name => touched.add(name));
+      if (closes && open[open.length - 1]?.indent === indent) open.pop();
+    } else if (changed) {
+      open[open.length - 1]?.names.forEach(name => touched.add(name));
+    }
+  }
+  return [...touched];
+}
+
+function analyzeFile(file: FileDiff): FileChange {
+  const hunks = file.hunks.map(hunk => ({
+    added: declarations(file.path, hunk.added),
+    removed: declarations(file.path, hunk.removed),
+  }));
+  const allAdded = new Set(hunks.flatMap(hunk => hunk.added.map(({ symbol }) => symbol.name)));
+  const allRemoved = new Set(hunks.flatMap(hunk => hunk.removed.map(({ symbol }) => symbol.name)));
+
+  // A declaration that disappears where a similar one of the same kind appears was renamed
+  const renamedSymbols: FileChange["renamedSymbols"] = [];
+  const addedSymbols: CodeSymbol[] = [];
+  const removedSymbols: CodeSymbol[] = [];
+  for (const hunk of hunks) {
+    const added = hunk.added.filter(({ symbol }) => !allRemoved.has(symbol.name));
+    const removed = hunk.removed.filter(({ symbol }) => !allAdded.has(symbol.name));
+    for (const from of removed) {
+      const index = added.findIndex(to => isRename(from, to));
+      if (index === -1) {
+        removedSymbols.push(from.symbol);
+      } else {
+        renamedSymbols.push({ from: from.symbol, to: added[index].symbol });
+        added.splice(index, 1);
+      }
+    }
+    addedSymbols.push(...added.map(({ symbol }) => symbol));
+  }
+
+  // Declarations that came or went are reported as such rather than as touched
+  const declaredHere = new Set([...allAdded, ...allRemoved].filter(name => !(allAdded.has(name) && allRemoved.has(name))));
+  return {
+    file,
+    category: categorize(file.path),
+    addedSymbols: unique(addedSymbols),
+    removedSymbols: unique(removedSymbols),
+    renamedSymbols,
+    touchedSymbols: [...new Set(file.hunks.flatMap(hunk => touchedBy(file.path, hunk)))].filter(name => !declaredHere.has(name)),
+    linesAdded: file.hunks.reduce((sum, hunk) => sum + hunk.added.length, 0),
+    linesRemoved: file.hunks.reduce((sum, hunk) => sum + hunk.removed.length, 0),
+  };
+}
+
+function unique(symbols: CodeSymbol[]): CodeSymbol[] {
+  return symbols.filter((symbol, i) => symbols.findIndex(other => other.name === symbol.name) === i);
+}
+
+/** Only whitespace changed: the same text remains once it is removed. */
+function isWhitespaceOnly(change: FileChange): boolean {
+  const squash = (lines: string[]) => lines.join("").replace(/\s+/g, "");
+  return (
+    change.file.status === "modified" &&
+    change.file.hunks.length > 0 &&
+    change.file.hunks.every(hunk => squash(hunk.added) === squash(hunk.removed))
+  );
+}
+
+/** Whether the added lines match more often than the removed ones. */
+function gains(changes: FileChange[], pattern: RegExp): boolean {
+  const count = (lines: string[]) => lines.filter(line => pattern.test(line)).length;
+  const hunks = changes.flatMap(change => change.file.hunks);
+  return hunks.reduce((sum, hunk) => sum + count(hunk.added) - count(hunk.removed), 0) > 0;
+}
+
+function classifySource(changes: FileChange[]): CommitType {
+  if (changes.some(change => change.file.status === "added" || change.addedSymbols.some(symbol => symbol.exported))) {
+    return "feat";
+  }
+  if (changes.every(isWhitespaceOnly)) {
+    return "style";
+  }
+  const restructured = changes.some(change => change.renamedSymbols.length > 0 || change.removedSymbols.length > 0)
+    || changes.some(change => change.file.status === "renamed" || change.file.status === "deleted");
+  if (restructured && changes.every(change => change.addedSymbols.length === 0)) {
+    return "refactor";
+  }
+  if (gains(changes, PERF_HINT)) {
+    return "perf";
+  }
+  if (gains(changes, FIX_COMMENT) || gains(changes, GUARD)) {
+    return "fix";
+  }
+  return "refactor";
+}
+
+const CATEGORY_TYPES: Record<Exclude<FileCategory, "source">, CommitType> = {
+  ci: "ci",
+  build: "build",
+  docs: "docs",
+  test: "test",
+  other: "chore",
+};
+
+/**
+ * The type follows the source files when there are any; documentation or
+ * tests next to them belong to the same change. Otherwise the category with
+ * the most changed lines decides. Returns the files the type came from.
+ */
+function classifyType(changes: FileChange[]): [CommitType, FileChange[]] {
+  const source = changes.filter(change => change.category === "source");
+  if (source.length > 0) {
+    return [classifySource(source), source];
+  }
+  const order = Object.keys(CATEGORY_TYPES) as Exclude<FileCategory, "source">[];
+  const size = (category: FileCategory) =>
+    changes.filter(change => change.category === category).reduce((sum, change) => sum + change.linesAdded + change.linesRemoved + 1, 0);
+  const category = order.reduce((best, next) => (size(next) > size(best) ? next : best));
+  const primary = changes.filter(change => change.category === category);
+  if (category !== "other" && primary.every(isWhitespaceOnly)) {
+    return ["style", primary];
+  }
+  return [CATEGORY_TYPES[category], primary];
+}
+
+/** What a file is about, without test markers, extension or an index name. */
+function topicOf(path: string): string {
+  const name = basename(path);
+  const stem = name
+    .replace(/\.[^.]+$/, "")
+    .replace(/\.(test|spec)$/, "")
+    .replace(/^test_|_test$/, "");
+  if (!stem || /^(index|main|mod|__init__|lib)$/.test(stem)) {
+    const parent = basename(dirname(path));
+    return parent === "." ? name : parent;
+  }
+  return stem;
+}
+
+/** A name as a conventional commit scope: lowercase words joined by hyphens, or null when nothing is left. */
+function slug(name: string): string | null {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase().match(/[a-z0-9]+/g);
+  return words ? words.join("-") : null;
+}
+
+/**
+ * The package the files share in a monorepo, or else the most specific
+ * directory they share that says something; a single file in a generic
+ * directory gives its own name. Either way as a slug, e.g. `my-file`.
+ */
+export function inferScope(paths: string[]): string | null {
+  if (paths.length === 0) return null;
+  const segments = paths.map(path => path.split("/").slice(0, -1));
+
+  const packages = new Set(
+    segments.map(parts => {
+      const index = parts.findIndex(part => PACKAGE_DIRECTORIES.has(part));
+      return index !== -1 && index + 1 < parts.length ? parts[index + 1] : null;
+    })
+  );
+  if (packages.size === 1 && !packages.has(null)) {
+    return slug([...packages][0]!);
+  }
+
+  const common: string[] = [];
+  for (let i = 0; segments.every(parts => i < parts.length && parts[i] === segments[0][i]); i++) {
+    common.push(segments[0][i]);
+  }
+  const specific = common.filter(part => !GENERIC_DIRECTORIES.has(part) && !part.startsWith("."));
+  if (specific.length > 0) {
+    return slug(specific[specific.length - 1]);
+  }
+  if (paths.length === 1 && !/^(readme|license|changelog|package|package-lock)$/i.test(topicOf(paths[0]))) {
+    return slug(topicOf(paths[0]));
+  }
+  return null;
+}
+
+/** "a", "a and b", "a, b and c" or "a, b and 3 more", as long as it fits in `room`. */
+function listNames(names: string[], room: number): string {
+  for (let shown = Math.min(names.length, 3); shown > 0; shown--) {
+    const rest = names.length - shown;
+    const head = names.slice(0, shown);
+    const text = rest > 0
+      ? `${head.join(", ")} and ${rest} more`
+      : head.length > 1
+        ? `${head.slice(0, -1).join(", ")} and ${head[head.length - 1]}`
+        : head[0];
+    if (text.length <= room || shown === 1) return text;
+  }
+  return "";
+}
+
+function describeChange(type: CommitType, primary: FileChange[], room: number): string {
+  const symbols = (pick: (change: FileChange) => string[]) => [...new Set(primary.flatMap(pick))];
+  const topics = (changes = primary) => [...new Set(changes.map(change => topicOf(change.file.path)))];
+  const list = (verb: string, names: string[], suffix = "") => `${verb} ${listNames(names, room - verb.length - suffix.length - 1)}${suffix}`;
+
+  const added = symbols(change => change.addedSymbols.filter(symbol => symbol.exported).map(symbol => symbol.name));
+  const renamed = primary.flatMap(change => change.renamedSymbols);
+  const removed = symbols(change => change.removedSymbols.map(symbol => symbol.name));
+  const touched = symbols(change => change.touchedSymbols);
+  const created = primary.filter(change => change.file.status === "added");
+
+  switch (type) {
+    case "feat":
+      return added.length > 0 ? list("add", added) : list("add", topics(created));
+    case "fix":
+      return list("fix", touched.length > 0 ? touched : topics());
+    case "perf":
+      return list("speed up", touched.length > 0 ? touched : topics());
+    case "style":
+      return list("format", topics());
+    case "refactor": {
+      const rename = renamed.length === 1 ? `rename ${renamed[0].from.name} to ${renamed[0].to.name}` : null;
+      if (rename && removed.length > 0) {
+        const both = `${rename} and ${list("remove", removed)}`;
+        return both.length <= room ? both : rename;
+      }
+      if (rename) return rename;
+      if (renamed.length > 0) return list("rename", renamed.map(({ from }) => from.name));
+      if (removed.length > 0) return list("remove", removed);
+      const moved = primary.filter(change => change.file.status === "renamed");
+      if (moved.length === 1 && primary.length === 1) {
+        const { oldPath, path } = moved[0].file;
+        return dirname(oldPath!) === dirname(path)
+          ? `rename ${basename(oldPath!)} to ${basename(path)}`
+          : `move ${basename(oldPath!)} to ${dirname(path)}`;
+      }
+      if (moved.length === primary.length) return list("move", topics());
+      return list("restructure", touched.length > 0 ? touched : topics());
+    }
+    case "test":
+      return created.length === primary.length ? list("add tests for", topics()) : list("update tests for", topics());
+    case "docs":
+      return created.length === primary.length ? list("add", topics(), " docs") : list("update", topics(), " docs");
+    case "build":
+      return primary.every(change => DEPENDENCY_FILES.test(change.file.path))
+        ? "update dependencies"
+        : list("update", topics(), " build configuration");
+    case "ci":
+      return list("update", topics(), primary.length === 1 ? " workflow" : " workflows");
+    default:
+      return created.length === primary.length ? list("add", topics()) : list("update", topics());
+  }
+}
+
+function names(symbols: CodeSymbol[]): string {
+  const shown = symbols.slice(0, MAX_LISTED_SYMBOLS).map(symbol => symbol.name);
+  return symbols.length > MAX_LISTED_SYMBOLS ? `${shown.join(", ")} and ${symbols.length - MAX_LISTED_SYMBOLS} more` : shown.join(", ");
+}
+
+function bodyLine(change: FileChange): string {
+  const { file } = change;
+  const details: string[] = [];
+  if (file.status === "added") details.push("new file");
+  if (file.status === "deleted") details.push("deleted");
+  if (file.status === "renamed") details.push(`renamed from ${file.oldPath}`);
+  if (file.binary) details.push("binary");
+  if (change.addedSymbols.length > 0) details.push(`added ${names(change.addedSymbols)}`);
+  if (change.removedSymbols.length > 0 && file.status !== "deleted") details.push(`removed ${names(change.removedSymbols)}`);
+  if (change.renamedSymbols.length > 0) {
+    details.push(`renamed ${change.renamedSymbols.map(({ from, to }) => `${from.name} → ${to.name}`).join(", ")}`);
+  }
+  if (details.length === 0 || (file.status === "modified" && change.addedSymbols.length + change.removedSymbols.length + change.renamedSymbols.length === 0)) {
+    details.push(file.binary ? "modified" : `+${change.linesAdded} -${change.linesRemoved}`);
+  }
+  return `- ${file.path}: ${details.join("; ")}`;
+}
+
+/**
+ * Classifies a staged diff as a conventional commit without a model. The
+ * type comes from the kinds of files changed and, for source files, from
+ * the declarations and lines the hunks add and remove; the scope from the
+ * package or directory the files share; the body lists each file with the
+ * symbols it added, removed and renamed. Removed exports outside tests mark
+ * the commit as breaking.
+ */
+export function classifyCommit(diff: string): CommitClassification {
+  const files = parseDiff(diff).map(analyzeFile);
+  if (files.length === 0) {
+    throw new Error("The diff changes no files");
+  }
+  const [type, primary] = classifyType(files);
+  const scope = inferScope(primary.map(change => change.file.path));
+
+  const removedExports = files
+    .filter(change => change.category === "source")
+    .flatMap(change => [
+      ...change.removedSymbols.filter(symbol => symbol.exported),
+      ...change.renamedSymbols.filter(({ from }) => from.exported).map(({ from }) => from),
+    ])
+    .filter(symbol => !files.some(change => change.addedSymbols.some(added => added.exported && added.name === symbol.name)));
+  const breaking = removedExports.length > 0;
+  const footer = breaking ? `BREAKING CHANGE: removes the export${removedExports.length > 1 ? "s" : ""} ${names(removedExports)}` : null;
+
+  const prefix = `${type}${scope ? `(${scope})` : ""}${breaking ? "!" : ""}: `;
+  const subject = `${prefix}${describeChange(type, primary, MAX_SUBJECT_LENGTH - prefix.length)}`;
+  const lines = files.slice(0, MAX_BODY_FILES).map(bodyLine);
+  if (files.length > MAX_BODY_FILES) {
+    lines.push(`- and ${files.length - MAX_BODY_FILES} more files`);
+  }
+  const body = lines.join("\n");
+
+  return {
+    type,
+    scope,
+    breaking,
+    subject,
+    body,
+    footer,
+    message: [subject, body, footer].filter(Boolean).join("\n\n"),
+    files,
+  };
+}
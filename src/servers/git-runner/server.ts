@@ -0,0 +1,588 @@
+import { BaseMCPServer, defineTool, OutputSchema, toolResult, ToolRuntime } from "../../shared/base-server.js";
+import { CommandResult, runCommand, RunCommandOptions } from "../../shared/command-runner.js";
+import { ResolvedConfig } from "../../shared/config.js";
+import { repoPathProperty, resolveWorkspace } from "../../shared/roots.js";
+import { classifyCommit } from "./commit-classifier.js";
+
+function git(args: string[], options?: RunCommandOptions): Promise<CommandResult> {
+  return runCommand("git", args, options);
+}
+
+/** Longer staged diffs are cut short in the commit message prompt. */
+const MAX_PROMPT_DIFF_LENGTH = 20_000;
+/** Room for a subject line and a body of a few paragraphs. */
+const COMMIT_MESSAGE_MAX_TOKENS = 500;
+const COMMIT_MESSAGE_SYSTEM_PROMPT =
+  "You write git commit messages. Reply with the commit message only, without quotes, code fences or commentary.";
+
+interface GitRunnerState {
+  isRunning: boolean;
+  autoCommit: boolean;
+  commitInterval: number; // in minutes
+  lastCommit: Date | null;
+}
+
+interface GitFileStatus {
+  path: string;
+  /** Porcelain status columns: X is the index, Y the working tree. */
+  index: string;
+  worktree: string;
+}
+
+const runnerStatusSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    isRunning: { type: "boolean" },
+    autoCommit: { type: "boolean" },
+    commitInterval: { type: "number", description: "Auto-commit interval in minutes" },
+    lastCommit: { type: ["string", "null"], description: "ISO timestamp of the last commit made by the runner" },
+  },
+  required: ["isRunning", "autoCommit", "commitInterval", "lastCommit"],
+};
+
+/**
+ * Parses `git status --porcelain -z` output. Paths are NUL-terminated and
+ * unquoted; a rename or copy entry is followed by its original path, which
+ * is skipped.
+ */
+function parsePorcelain(output: string): GitFileStatus[] {
+  const entries = output.split("\0");
+  const files: GitFileStatus[] = [];
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.length < 4) continue;
+
+    const [index, worktree] = entry;
+    files.push({ path: entry.slice(3), index, worktree });
+    if (index === "R" || index === "C") i++;
+  }
+  return files;
+}
+
+/**
+ * Fits a staged diff into `limit` characters, file by file: files that fit
+ * in an equal share keep their whole diff and leave the rest of their share
+ * to the others, and larger ones are cut at a line boundary with a note of
+ * how much was left out. One huge file cannot crowd the others out.
+ */
+function truncateDiff(diff: string, limit = MAX_PROMPT_DIFF_LENGTH): string {
+  if (diff.length <= limit) return diff;
+
+  const files = diff.split(/^(?=diff --git )/m);
+  const budgets: number[] = [];
+  let remaining = limit;
+  const bySize = files.map((_, i) => i).sort((a, b) => files[a].length - files[b].length);
+  bySize.forEach((i, done) => {
+    budgets[i] = Math.min(files[i].length, Math.floor(remaining / (files.length - done)));
+    remaining -= budgets[i];
+  });
+
+  return files
+    .map((file, i) => {
+      if (file.length <= budgets[i]) return file;
+      const kept = file.slice(0, file.lastIndexOf("\n", budgets[i]) + 1);
+      const omitted = file.slice(kept.length).split("\n").filter(Boolean).length;
+      return `${kept}... (${omitted} more lines of this file's diff omitted)\n`;
+    })
+    .join("");
+}
+
+/** Strips the code fence or quotes a model may wrap its commit message in. */
+function cleanSampledMessage(text: string): string {
+  let message = text.trim();
+  const fenced = /^```[\w-]*\n([\s\S]*?)\n?```$/.exec(message);
+  if (fenced) message = fenced[1].trim();
+  if (/^(["'`]).*\1$/s.test(message)) message = message.slice(1, -1).trim();
+  return message;
+}
+
+interface StartGitRunnerArgs {
+  autoCommit?: boolean;
+  interval?: number;
+  repoPath?: string;
+}
+
+interface GitCommitArgs {
+  files?: string[];
+  repoPath?: string;
+}
+
+interface GitPushArgs {
+  force?: boolean;
+  repoPath?: string;
+}
+
+export class GitRunnerMCPServer extends BaseMCPServer {
+  private state: GitRunnerState = {
+    isRunning: false,
+    autoCommit: this.config.gitRunner.autoCommit,
+    commitInterval: this.config.gitRunner.commitInterval,
+    lastCommit: null,
+  };
+  private intervalId: NodeJS.Timeout | null = null;
+  /** Repository the running auto-commit timer commits in. */
+  private autoCommitPath: string | null = null;
+
+  constructor(config: ResolvedConfig) {
+    super(
+      {
+        name: "git-runner-mcp",
+        version: "1.0.0",
+        displayName: "Git Runner MCP Server",
+      },
+      config
+    );
+
+    this.registerTools([
+      defineTool({
+        name: "start_git_runner",
+        description: "Start the Git automation service",
+        inputSchema: {
+          type: "object",
+          properties: {
+            autoCommit: {
+              type: "boolean",
+              description: "Enable automatic commits",
+              default: config.gitRunner.autoCommit,
+            },
+            interval: {
+              type: "number",
+              exclusiveMinimum: 0,
+              description: "Auto-commit interval in minutes",
+              default: config.gitRunner.commitInterval,
+            },
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            started: { type: "boolean", description: "False when the runner was already running" },
+            status: runnerStatusSchema,
+          },
+          required: ["started", "status"],
+        },
+        handler: (args, { roots }) => this.startGitRunner(args, resolveWorkspace(roots, args.repoPath)),
+      }),
+      defineTool({
+        name: "stop_git_runner",
+        description: "Stop the Git automation service",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            stopped: { type: "boolean", description: "False when the runner was not running" },
+            status: runnerStatusSchema,
+          },
+          required: ["stopped", "status"],
+        },
+        handler: () => this.stopGitRunner(),
+      }),
+      defineTool({
+        name: "git_commit_with_ai",
+        description:
+          "Commit changes with a message written by the client's model through MCP sampling, or by a heuristic when the client does not support sampling",
+        inputSchema: {
+          type: "object",
+          properties: {
+            files: {
+              type: "array",
+              items: { type: "string" },
+              description: "Specific files to commit (optional, commits all changes if not provided)",
+            },
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            committed: { type: "boolean" },
+            sha: { type: "string" },
+            message: { type: "string" },
+            messageSource: {
+              type: "string",
+              enum: ["sampling", "heuristic"],
+              description: "Whether the client's model wrote the message, or the offline heuristic did",
+            },
+            files: { type: "array", items: { type: "string" } },
+            timestamp: { type: "string" },
+          },
+          required: ["committed", "files"],
+        },
+        handler: (args, runtime) => this.gitCommitWithAI(args, resolveWorkspace(runtime.roots, args.repoPath), runtime),
+        affects: (_args, result) => (result.committed && result.sha ? [{ type: "commit", id: result.sha }] : []),
+      }),
+      defineTool({
+        name: "git_push",
+        description: "Push committed changes to remote repository",
+        inputSchema: {
+          type: "object",
+          properties: {
+            force: {
+              type: "boolean",
+              description: "Force push (use with caution)",
+              default: false,
+            },
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            pushed: { type: "boolean" },
+            force: { type: "boolean" },
+            branch: { type: "string" },
+            head: { type: "string", description: "Commit SHA that was pushed" },
+            output: { type: "string" },
+          },
+          required: ["pushed", "force", "branch", "head", "output"],
+        },
+        handler: (args, runtime) => this.gitPush(args, resolveWorkspace(runtime.roots, args.repoPath), runtime),
+        affects: (_args, result) => [
+          { type: "branch", id: result.branch },
+          { type: "commit", id: result.head },
+        ],
+        dangerous: (args) => (args.force ? "a force push can discard commits on the remote" : undefined),
+        policyValues: async (args, { roots }) => {
+          const { stdout } = await git(["branch", "--show-current"], { cwd: resolveWorkspace(roots, args.repoPath) });
+          return { branch: stdout.trim() };
+        },
+      }),
+      defineTool({
+        name: "get_git_status",
+        description: "Get current git repository status",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            branch: { type: "string" },
+            remote: { type: ["string", "null"] },
+            modified: { type: "integer" },
+            added: { type: "integer" },
+            deleted: { type: "integer" },
+            renamed: { type: "integer" },
+            untracked: { type: "integer" },
+            total: { type: "integer" },
+            files: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  path: { type: "string" },
+                  index: { type: "string" },
+                  worktree: { type: "string" },
+                },
+                required: ["path", "index", "worktree"],
+              },
+            },
+          },
+          required: ["branch", "remote", "modified", "added", "deleted", "renamed", "untracked", "total", "files"],
+        },
+        handler: (args, { roots }) => this.getGitStatus(resolveWorkspace(roots, args.repoPath)),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "get_runner_status",
+        description: "Get current Git Runner service status",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+        outputSchema: runnerStatusSchema,
+        handler: () => this.getRunnerStatus(),
+        readOnly: true,
+      }),
+    ]);
+
+    this.registerPrompts([
+      {
+        name: "write_commit_message",
+        description: "Write a commit message for the staged changes",
+        arguments: [
+          { name: "guidance", description: "Anything the message should mention, e.g. the issue it fixes" },
+          { name: "repoPath", description: "Repository to read the staged changes from, when the client has several roots" },
+        ],
+        get: (args, roots) => this.commitMessagePrompt(args, resolveWorkspace(roots, args.repoPath)),
+      },
+    ]);
+  }
+
+  protected async onShutdown(): Promise<void> {
+    await this.stopGitRunner();
+  }
+
+  private runnerStatus() {
+    return {
+      isRunning: this.state.isRunning,
+      autoCommit: this.state.autoCommit,
+      commitInterval: this.state.commitInterval,
+      lastCommit: this.state.lastCommit ? this.state.lastCommit.toISOString() : null,
+    };
+  }
+
+  private async startGitRunner(args: StartGitRunnerArgs, cwd: string) {
+    if (this.state.isRunning) {
+      return toolResult("Git Runner is already running", { started: false, status: this.runnerStatus() });
+    }
+
+    this.state.isRunning = true;
+    this.state.autoCommit = args.autoCommit ?? this.config.gitRunner.autoCommit;
+    this.state.commitInterval = args.interval || this.config.gitRunner.commitInterval;
+    this.autoCommitPath = cwd;
+
+    if (this.state.autoCommit) {
+      this.intervalId = setInterval(async () => {
+        try {
+          await this.autoCommitIfChanges();
+        } catch (error) {
+          this.logger.error("Auto-commit failed", { error });
+        }
+      }, this.state.commitInterval * 60 * 1000);
+    }
+
+    return toolResult(`Git Runner started successfully!
+Running: ${this.state.isRunning}
+Auto-commit: ${this.state.autoCommit}
+Interval: ${this.state.commitInterval} minutes`, { started: true, status: this.runnerStatus() });
+  }
+
+  private async stopGitRunner() {
+    if (!this.state.isRunning) {
+      return toolResult("Git Runner is not currently running", { stopped: false, status: this.runnerStatus() });
+    }
+
+    this.state.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    return toolResult("Git Runner stopped successfully", { stopped: true, status: this.runnerStatus() });
+  }
+
+  /** Classifies the staged diff offline; see classifyCommit. */
+  private async generateCommitMessage(cwd: string, signal?: AbortSignal): Promise<string> {
+    try {
+      const { stdout: diff } = await git(
+        ["diff", "--cached", "--find-renames", "--no-color", "--no-ext-diff", "--src-prefix=a/", "--dst-prefix=b/"],
+        { cwd, signal }
+      );
+      return classifyCommit(diff).message;
+    } catch (error) {
+      signal?.throwIfAborted();
+      return `chore: automated commit - ${new Date().toISOString()}`;
+    }
+  }
+
+  /**
+   * Asks the client's model for the message when it supports sampling, and
+   * falls back to the heuristic when it does not, the request fails or the
+   * reply is empty.
+   */
+  private async writeCommitMessage(
+    cwd: string,
+    { signal, sample }: Partial<ToolRuntime>
+  ): Promise<{ message: string; source: "sampling" | "heuristic" }> {
+    if (sample) {
+      try {
+        const prompt = await this.commitMessagePrompt({}, cwd, signal);
+        const message = cleanSampledMessage(
+          await sample({ prompt, systemPrompt: COMMIT_MESSAGE_SYSTEM_PROMPT, maxTokens: COMMIT_MESSAGE_MAX_TOKENS })
+        );
+        if (message) {
+          return { message, source: "sampling" };
+        }
+        this.logger.warning("The client's model returned an empty commit message; using the heuristic");
+      } catch (error) {
+        signal?.throwIfAborted();
+        this.logger.warning("Sampling a commit message failed; using the heuristic", { error });
+      }
+    }
+    return { message: await this.generateCommitMessage(cwd, signal), source: "heuristic" };
+  }
+
+  private async commitMessagePrompt(args: Record<string, string>, cwd: string, signal?: AbortSignal): Promise<string> {
+    const { stdout: stat } = await git(["diff", "--cached", "--stat", "--no-color"], { cwd, signal });
+    if (!stat.trim()) {
+      throw new Error("No staged changes. Stage files with git add first.");
+    }
+    const { stdout: diff } = await git(["diff", "--cached", "--no-color", "--no-ext-diff"], { cwd, signal });
+    const recent = await git(["log", "-5", "--format=%s"], { cwd, signal })
+      .then(({ stdout }) => stdout.trim())
+      .catch(() => "");
+    const shownDiff = truncateDiff(diff);
+
+    return `Write a commit message for the staged changes below.
+
+Use a short imperative subject line in conventional commit form (feat:, fix:, chore:, refactor:, docs:, test:), at most 72 characters, followed by a blank line and a body that explains what changed and why.${args.guidance ? `\n\nAlso consider: ${args.guidance}` : ""}
+${recent ? `\nRecent commit subjects, for style:\n${recent}\n` : ""}
+Changed files:
+${stat.trimEnd()}
+
+\`\`\`diff
+${shownDiff.trimEnd()}
+\`\`\``;
+  }
+
+  /**
+   * A cancelled call stops before `git commit`; the commit itself is never
+   * interrupted, so a retry cannot find half of it done.
+   */
+  private async gitCommitWithAI(args: GitCommitArgs, cwd: string, runtime: Partial<ToolRuntime> = {}) {
+    const { signal } = runtime;
+    try {
+      // Check if there are changes to commit
+      const { stdout: statusOutput } = await git(["status", "--porcelain"], { cwd, signal });
+      if (!statusOutput.trim()) {
+        return toolResult("No changes to commit", { committed: false, files: [] });
+      }
+
+      // Add files to staging
+      if (args.files && args.files.length > 0) {
+        await git(["add", "--", ...args.files], { cwd, signal });
+      } else {
+        await git(["add", "."], { cwd, signal });
+      }
+
+      // Get list of staged files
+      // -z keeps names with quotes or non-ASCII characters unescaped
+      const { stdout: stagedFiles } = await git(["diff", "--cached", "--name-only", "-z"], { cwd, signal });
+      const changedFiles = stagedFiles.split('\0').filter(f => f);
+
+      const { message: commitMessage, source } = await this.writeCommitMessage(cwd, runtime);
+      signal?.throwIfAborted();
+
+      // Commit with the generated message
+      await git(["commit", "--file", "-"], { cwd, input: commitMessage });
+      const { stdout: sha } = await git(["rev-parse", "HEAD"], { cwd });
+
+      this.state.lastCommit = new Date();
+
+      return toolResult(`Commit successful!
+Message: ${commitMessage}
+Written by: ${source === "sampling" ? "the client's model" : "heuristic"}
+Files: ${changedFiles.join(", ")}
+Time: ${this.state.lastCommit.toISOString()}`, {
+        committed: true,
+        sha: sha.trim(),
+        message: commitMessage,
+        messageSource: source,
+        files: changedFiles,
+        timestamp: this.state.lastCommit.toISOString(),
+      });
+    } catch (error) {
+      throw new Error(`Failed to commit: ${error}`);
+    }
+  }
+
+  private async gitPush(args: GitPushArgs, cwd: string, runtime: ToolRuntime) {
+    try {
+      const { stdout, stderr } = await git(args.force ? ["push", "--progress", "--force"] : ["push", "--progress"], {
+        cwd,
+        signal: runtime.signal,
+        // git reports push progress on stderr, e.g. "Writing objects:  40% (2/5)"
+        onOutput: (line) => {
+          runtime.output(line);
+          const percent = /^Writing objects:\s+(\d+)%/.exec(line);
+          if (percent) {
+            void runtime.progress(Number(percent[1]), 100, line);
+          }
+        },
+      });
+      // Keep only the final state of lines that progress rewrote with carriage returns
+      const pushOutput = [stdout, stderr]
+        .map(text => text.split("\n").map(line => line.split("\r").pop()!.trimEnd()).join("\n").trim())
+        .filter(Boolean)
+        .join("\n");
+      const { stdout: branch } = await git(["branch", "--show-current"], { cwd });
+      const { stdout: head } = await git(["rev-parse", "HEAD"], { cwd });
+
+      return toolResult(`Push successful!
+Output: ${pushOutput}`, {
+        pushed: true,
+        force: Boolean(args.force),
+        branch: branch.trim(),
+        head: head.trim(),
+        output: pushOutput,
+      });
+    } catch (error) {
+      throw new Error(`Failed to push: ${error}`);
+    }
+  }
+
+  private async getGitStatus(cwd: string) {
+    try {
+      const { stdout: statusOutput } = await git(["status", "--porcelain", "-z"], { cwd });
+      const { stdout: branchOutput } = await git(["branch", "--show-current"], { cwd });
+      const remote = await git(["remote", "get-url", "origin"], { cwd })
+        .then(({ stdout }) => stdout.trim())
+        .catch(() => null);
+
+      const files = parsePorcelain(statusOutput);
+      const count = (code: string) =>
+        files.filter(f => f.index !== "?" && (f.index === code || f.worktree === code)).length;
+      const summary = {
+        branch: branchOutput.trim(),
+        remote,
+        modified: count("M"),
+        added: count("A"),
+        deleted: count("D"),
+        renamed: count("R"),
+        untracked: files.filter(f => f.index === "?").length,
+        total: files.length,
+        files,
+      };
+
+      return toolResult(`Git Repository Status:
+Branch: ${summary.branch}
+Remote: ${remote ?? "None"}
+
+Changes:
+- Modified: ${summary.modified} files
+- Added: ${summary.added} files
+- Deleted: ${summary.deleted} files
+- Renamed: ${summary.renamed} files
+- Untracked: ${summary.untracked} files
+
+Total files with changes: ${summary.total}`, summary);
+    } catch (error) {
+      throw new Error(`Failed to get git status: ${error}`);
+    }
+  }
+
+  private async getRunnerStatus() {
+    return toolResult(`Git Runner Status:
+Running: ${this.state.isRunning}
+Auto-commit: ${this.state.autoCommit}
+Interval: ${this.state.commitInterval} minutes
+Last commit: ${this.state.lastCommit ? this.state.lastCommit.toISOString() : "Never"}
+
+Available commands:
+- start_git_runner: Start the automation service
+- stop_git_runner: Stop the service
+- git_commit_with_ai: Manual commit with AI message
+- git_push: Push changes to remote`, this.runnerStatus());
+  }
+
+  private async autoCommitIfChanges() {
+    const cwd = this.autoCommitPath ?? process.cwd();
+    try {
+      const { stdout: statusOutput } = await git(["status", "--porcelain"], { cwd });
+      if (statusOutput.trim()) {
+        const { structuredContent } = await this.gitCommitWithAI({}, cwd);
+        this.logger.info("Auto-commit performed", { repoPath: cwd, sha: structuredContent?.sha, files: structuredContent?.files });
+      }
+    } catch (error) {
+      this.logger.error("Auto-commit failed", { error });
+    }
+  }
+}
@@ -0,0 +1,808 @@
+import { BaseMCPServer, defineTool, OutputSchema, toolResult, ToolRuntime } from "../../shared/base-server.js";
+import { assertNotOption, CommandResult, runCommand, RunCommandOptions } from "../../shared/command-runner.js";
+import { ResolvedConfig } from "../../shared/config.js";
+import { repoPathProperty, resolveWorkspace } from "../../shared/roots.js";
+
+function gh(args: string[], options?: RunCommandOptions): Promise<CommandResult> {
+  return runCommand("gh", args, options);
+}
+
+function git(args: string[], options?: RunCommandOptions): Promise<CommandResult> {
+  return runCommand("git", args, options);
+}
+
+/**
+ * Runs gh and git in the repository the call asks for; gh finds the GitHub
+ * repository from its remote. Cancelling the call stops the command.
+ */
+function commandOptions(args: { repoPath?: string }, { signal, roots }: ToolRuntime): RunCommandOptions {
+  return { cwd: resolveWorkspace(roots, args.repoPath), signal };
+}
+
+/** Issue and pull request JSON as printed by `gh ... --json`. */
+interface GhUser {
+  login: string;
+}
+
+interface GhLabel {
+  name: string;
+}
+
+interface GhIssue {
+  number: number;
+  title: string;
+  body: string;
+  state: string;
+  author: GhUser | null;
+  labels: GhLabel[];
+  assignees: GhUser[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface GhPullRequest {
+  number: number;
+  title: string;
+  body: string;
+  state: string;
+  author: GhUser | null;
+  baseRefName: string;
+  headRefName: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Release and repository JSON as printed by `gh release list` and `gh repo view`. */
+interface GhRelease {
+  tagName: string;
+  name: string;
+  isDraft: boolean;
+  isPrerelease: boolean;
+  isLatest: boolean;
+  createdAt: string;
+  publishedAt: string | null;
+}
+
+interface GhRepository {
+  name: string;
+  description: string;
+  owner: GhUser;
+  url: string;
+  defaultBranchRef: { name: string } | null;
+  visibility: string;
+  createdAt: string;
+  pushedAt: string;
+  issues: { totalCount: number };
+  pullRequests: { totalCount: number };
+  stargazerCount: number;
+  forkCount: number;
+}
+
+interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string;
+  state: string;
+  author: string | null;
+  labels: string[];
+  assignees: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface GitHubPR {
+  number: number;
+  title: string;
+  body: string;
+  state: string;
+  author: string | null;
+  baseRefName: string;
+  headRefName: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function toIssue(issue: GhIssue): GitHubIssue {
+  return {
+    ...issue,
+    author: issue.author?.login ?? null,
+    labels: (issue.labels ?? []).map(label => label.name),
+    assignees: (issue.assignees ?? []).map(assignee => assignee.login),
+  };
+}
+
+function toPullRequest(pr: GhPullRequest): GitHubPR {
+  return { ...pr, author: pr.author?.login ?? null };
+}
+
+/** Extracts the issue or pull request number from the URL gh prints on create. */
+function numberFromUrl(url: string): number | undefined {
+  const match = url.match(/\/(\d+)\s*$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+const stringArray = { type: "array", items: { type: "string" } };
+
+const issueSchema = {
+  type: "object",
+  properties: {
+    number: { type: "integer" },
+    title: { type: "string" },
+    body: { type: "string" },
+    state: { type: "string" },
+    author: { type: ["string", "null"] },
+    labels: stringArray,
+    assignees: stringArray,
+    createdAt: { type: "string" },
+    updatedAt: { type: "string" },
+  },
+  required: ["number", "title", "state", "author", "labels", "assignees", "createdAt"],
+} as const;
+
+const pullRequestSchema = {
+  type: "object",
+  properties: {
+    number: { type: "integer" },
+    title: { type: "string" },
+    body: { type: "string" },
+    state: { type: "string" },
+    author: { type: ["string", "null"] },
+    baseRefName: { type: "string" },
+    headRefName: { type: "string" },
+    createdAt: { type: "string" },
+    updatedAt: { type: "string" },
+  },
+  required: ["number", "title", "state", "author", "baseRefName", "headRefName", "createdAt"],
+} as const;
+
+const releaseSchema = {
+  type: "object",
+  properties: {
+    tagName: { type: "string" },
+    name: { type: "string" },
+    isDraft: { type: "boolean" },
+    isPrerelease: { type: "boolean" },
+    isLatest: { type: "boolean" },
+    createdAt: { type: "string" },
+    publishedAt: { type: ["string", "null"] },
+  },
+  required: ["tagName", "name", "createdAt"],
+} as const;
+
+const listOf = (key: string, items: object): OutputSchema => ({
+  type: "object",
+  properties: { [key]: { type: "array", items } },
+  required: [key],
+});
+
+interface ListIssuesArgs {
+  state?: "open" | "closed" | "all";
+  limit?: number;
+  assignee?: string;
+  label?: string;
+}
+
+interface CreateIssueArgs {
+  title: string;
+  body?: string;
+  assignees?: string[];
+  labels?: string[];
+}
+
+interface UpdateIssueArgs {
+  number: number;
+  title?: string;
+  body?: string;
+  state?: "open" | "closed";
+  assignees?: string[];
+  labels?: string[];
+}
+
+interface ListPullRequestsArgs {
+  state?: "open" | "closed" | "merged" | "all";
+  limit?: number;
+  base?: string;
+  head?: string;
+}
+
+interface CreatePullRequestArgs {
+  title: string;
+  body?: string;
+  head: string;
+  base?: string;
+  draft?: boolean;
+}
+
+interface ListBranchesArgs {
+  remote?: boolean;
+}
+
+interface CreateBranchArgs {
+  name: string;
+  source?: string;
+}
+
+interface SearchCodeArgs {
+  query: string;
+  language?: string;
+  filename?: string;
+}
+
+interface GetReleaseInfoArgs {
+  limit?: number;
+}
+
+export class GitHubMCPServer extends BaseMCPServer {
+  constructor(config: ResolvedConfig) {
+    super(
+      {
+        name: "github-mcp",
+        version: "1.0.0",
+        displayName: "GitHub MCP Server",
+      },
+      config
+    );
+
+    this.registerTools([
+      defineTool({
+        name: "list_issues",
+        description: "List GitHub issues for the current repository",
+        inputSchema: {
+          type: "object",
+          properties: {
+            state: { type: "string", enum: ["open", "closed", "all"], default: "open" },
+            limit: { type: "integer", minimum: 1, default: config.github.listLimit },
+            assignee: { type: "string", description: "Filter by assignee" },
+            label: { type: "string", description: "Filter by label" },
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: listOf("issues", issueSchema),
+        handler: (args, runtime) => this.listIssues(args, commandOptions(args, runtime)),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "create_issue",
+        description: "Create a new GitHub issue",
+        inputSchema: {
+          type: "object",
+          properties: {
+            title: { type: "string", description: "Issue title" },
+            body: { type: "string", description: "Issue description" },
+            assignees: { type: "array", items: { type: "string" }, description: "Issue assignees" },
+            labels: { type: "array", items: { type: "string" }, description: "Issue labels" },
+            repoPath: repoPathProperty,
+          },
+          required: ["title"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            url: { type: "string" },
+            number: { type: "integer" },
+            title: { type: "string" },
+            assignees: stringArray,
+            labels: stringArray,
+          },
+          required: ["url", "title", "assignees", "labels"],
+        },
+        handler: (args, runtime) => this.createIssue(args, commandOptions(args, runtime)),
+        affects: (_args, result) => [{ type: "issue", id: String(result.number ?? result.url) }],
+      }),
+      defineTool({
+        name: "update_issue",
+        description: "Update an existing GitHub issue",
+        inputSchema: {
+          type: "object",
+          properties: {
+            number: { type: "integer", minimum: 1, description: "Issue number" },
+            title: { type: "string", description: "New title" },
+            body: { type: "string", description: "New body" },
+            state: { type: "string", enum: ["open", "closed"] },
+            assignees: { type: "array", items: { type: "string" } },
+            labels: { type: "array", items: { type: "string" } },
+            repoPath: repoPathProperty,
+          },
+          required: ["number"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            number: { type: "integer" },
+            updated: { type: "array", items: { type: "string" }, description: "Fields that were changed" },
+            state: { type: "string", enum: ["open", "closed"] },
+          },
+          required: ["number", "updated"],
+        },
+        handler: (args, runtime) => this.updateIssue(args, commandOptions(args, runtime)),
+        affects: (args) => [{ type: "issue", id: String(args.number) }],
+        dangerous: (args) => (args.state === "closed" ? `this closes issue #${args.number}` : undefined),
+      }),
+      defineTool({
+        name: "list_pull_requests",
+        description: "List GitHub pull requests for the current repository",
+        inputSchema: {
+          type: "object",
+          properties: {
+            state: { type: "string", enum: ["open", "closed", "merged", "all"], default: "open" },
+            limit: { type: "integer", minimum: 1, default: config.github.listLimit },
+            base: { type: "string", description: "Filter by base branch" },
+            head: { type: "string", description: "Filter by head branch" },
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: listOf("pullRequests", pullRequestSchema),
+        handler: (args, runtime) => this.listPullRequests(args, commandOptions(args, runtime)),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "create_pull_request",
+        description: "Create a new GitHub pull request",
+        inputSchema: {
+          type: "object",
+          properties: {
+            title: { type: "string", description: "PR title" },
+            body: { type: "string", description: "PR description" },
+            head: { type: "string", description: "Head branch" },
+            base: { type: "string", description: "Base branch", default: config.github.defaultBase },
+            draft: { type: "boolean", description: "Create as draft", default: false },
+            repoPath: repoPathProperty,
+          },
+          required: ["title", "head"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            url: { type: "string" },
+            number: { type: "integer" },
+            title: { type: "string" },
+            head: { type: "string" },
+            base: { type: "string" },
+            draft: { type: "boolean" },
+          },
+          required: ["url", "title", "head", "base", "draft"],
+        },
+        handler: (args, runtime) => this.createPullRequest(args, commandOptions(args, runtime)),
+        affects: (_args, result) => [{ type: "pullRequest", id: String(result.number ?? result.url) }],
+      }),
+      defineTool({
+        name: "get_repository_info",
+        description: "Get information about the current repository",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            owner: { type: "string" },
+            description: { type: ["string", "null"] },
+            url: { type: "string" },
+            defaultBranch: { type: ["string", "null"] },
+            visibility: { type: "string" },
+            createdAt: { type: "string" },
+            pushedAt: { type: "string" },
+            stars: { type: "integer" },
+            forks: { type: "integer" },
+            openIssues: { type: "integer" },
+            openPullRequests: { type: "integer" },
+          },
+          required: [
+            "name",
+            "owner",
+            "description",
+            "url",
+            "defaultBranch",
+            "visibility",
+            "stars",
+            "forks",
+            "openIssues",
+            "openPullRequests",
+          ],
+        },
+        handler: (args, runtime) => this.getRepositoryInfo(commandOptions(args, runtime)),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "list_branches",
+        description: "List repository branches",
+        inputSchema: {
+          type: "object",
+          properties: {
+            remote: { type: "boolean", description: "Include remote branches", default: false },
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            branches: stringArray,
+            current: { type: ["string", "null"] },
+            includesRemote: { type: "boolean" },
+          },
+          required: ["branches", "current", "includesRemote"],
+        },
+        handler: (args, runtime) => this.listBranches(args, commandOptions(args, runtime)),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "create_branch",
+        description: "Create a new branch",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Branch name" },
+            source: { type: "string", description: "Source branch", default: config.github.defaultBase },
+            repoPath: repoPathProperty,
+          },
+          required: ["name"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            source: { type: "string" },
+          },
+          required: ["name", "source"],
+        },
+        handler: (args, runtime) => this.createBranch(args, commandOptions(args, runtime)),
+        affects: (args) => [{ type: "branch", id: args.name }],
+        dangerous: () => "this switches the working tree to the new branch",
+      }),
+      defineTool({
+        name: "search_code",
+        description: "Search for code in the repository",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "Search query" },
+            language: { type: "string", description: "Programming language filter" },
+            filename: { type: "string", description: "Filename filter" },
+          },
+          required: ["query"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string" },
+            results: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  path: { type: "string" },
+                  repository: { type: "string" },
+                  url: { type: "string" },
+                },
+                required: ["path", "repository", "url"],
+              },
+            },
+          },
+          required: ["query", "results"],
+        },
+        handler: (args, { signal }) => this.searchCode(args, signal),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "get_release_info",
+        description: "Get information about repository releases",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: { type: "integer", minimum: 1, default: 5 },
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: listOf("releases", releaseSchema),
+        handler: (args, runtime) => this.getReleaseInfo(args, commandOptions(args, runtime)),
+        readOnly: true,
+      }),
+    ]);
+
+    this.registerPrompts([
+      {
+        name: "triage_issues",
+        description: "Triage the repository's open issues",
+        arguments: [
+          { name: "label", description: "Only triage issues with this label" },
+          { name: "limit", description: `Number of issues to include (default ${config.github.listLimit})` },
+          { name: "repoPath", description: "Repository whose issues to triage, when the client has several roots" },
+        ],
+        get: (args, roots) => this.triageIssuesPrompt(args, resolveWorkspace(roots, args.repoPath)),
+      },
+    ]);
+  }
+
+  private async listIssues(args: ListIssuesArgs, options: RunCommandOptions = {}) {
+    const { state = "open", limit = this.config.github.listLimit, assignee, label } = args;
+
+    const command = ["issue", "list", "--state", state, "--limit", String(limit), "--json", "number,title,body,state,author,labels,assignees,createdAt,updatedAt"];
+
+    if (assignee) {
+      command.push("--assignee", assignee);
+    }
+    if (label) {
+      command.push("--label", label);
+    }
+
+    const { stdout } = await gh(command, options);
+    const issues = (JSON.parse(stdout) as GhIssue[]).map(toIssue);
+
+    if (issues.length === 0) {
+      return toolResult(`No issues found with the specified criteria.`, { issues });
+    }
+
+    const issueList = issues.map(issue =>
+      `#${issue.number}: ${issue.title}
+  State: ${issue.state}
+  Author: ${issue.author ?? "Unknown"}
+  Labels: ${issue.labels.join(", ") || "None"}
+  Assignees: ${issue.assignees.join(", ") || "None"}
+  Created: ${new Date(issue.createdAt).toLocaleDateString()}
+  ${issue.body ? `\n  ${issue.body.substring(0, 200)}${issue.body.length > 200 ? "..." : ""}` : ""}
+`).join("\n---\n");
+
+    return toolResult(`Found ${issues.length} issues:
+
+${issueList}`, { issues });
+  }
+
+  private async triageIssuesPrompt(args: Record<string, string>, cwd: string): Promise<string> {
+    const limit = args.limit ? Number(args.limit) : this.config.github.listLimit;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Invalid limit: ${args.limit} (must be a positive integer)`);
+    }
+
+    const issues = await this.listIssues({ state: "open", label: args.label, limit }, { cwd });
+
+    return `Triage these open issues${args.label ? ` labeled "${args.label}"` : ""}.
+
+${issues.content[0].text}
+
+For each issue, suggest a priority (high, medium or low), labels to add, and the next step: needs more information, ready to work on, duplicate, or can be closed. Finish with the three issues to tackle first.`;
+  }
+
+  private async createIssue(args: CreateIssueArgs, options: RunCommandOptions = {}) {
+    const { title, body = "", assignees = [], labels = [] } = args;
+
+    const command = ["issue", "create", "--title", title, "--body-file", "-"];
+
+    if (assignees.length > 0) {
+      command.push("--assignee", assignees.join(","));
+    }
+    if (labels.length > 0) {
+      command.push("--label", labels.join(","));
+    }
+
+    const { stdout } = await gh(command, { ...options, input: body });
+    const url = stdout.trim();
+
+    return toolResult(`Issue created successfully!
+${url}
+
+Title: ${title}
+Assignees: ${assignees.join(", ") || "None"}
+Labels: ${labels.join(", ") || "None"}`, {
+      url,
+      number: numberFromUrl(url),
+      title,
+      assignees,
+      labels,
+    });
+  }
+
+  private async updateIssue(args: UpdateIssueArgs, options: RunCommandOptions = {}) {
+    const { number, title, body, state, assignees, labels } = args;
+
+    const command = ["issue", "edit", String(number)];
+    const updated: string[] = [];
+
+    if (title) {
+      command.push("--title", title);
+      updated.push("title");
+    }
+    if (body) {
+      command.push("--body-file", "-");
+      updated.push("body");
+    }
+    if (assignees) {
+      command.push("--add-assignee", assignees.join(","));
+      updated.push("assignees");
+    }
+    if (labels) {
+      command.push("--add-label", labels.join(","));
+      updated.push("labels");
+    }
+
+    if (updated.length > 0) {
+      await gh(command, { ...options, input: body });
+    }
+
+    if (state) {
+      await gh(["issue", state === "closed" ? "close" : "reopen", String(number)], options);
+      updated.push("state");
+    }
+
+    return toolResult(`Issue #${number} updated successfully!`, { number, updated, state });
+  }
+
+  private async listPullRequests(args: ListPullRequestsArgs, options: RunCommandOptions = {}) {
+    const { state = "open", limit = this.config.github.listLimit, base, head } = args;
+
+    const command = ["pr", "list", "--state", state, "--limit", String(limit), "--json", "number,title,body,state,author,baseRefName,headRefName,createdAt,updatedAt"];
+
+    if (base) {
+      command.push("--base", base);
+    }
+    if (head) {
+      command.push("--head", head);
+    }
+
+    const { stdout } = await gh(command, options);
+    const pullRequests = (JSON.parse(stdout) as GhPullRequest[]).map(toPullRequest);
+
+    if (pullRequests.length === 0) {
+      return toolResult(`No pull requests found with the specified criteria.`, { pullRequests });
+    }
+
+    const prList = pullRequests.map(pr =>
+      `#${pr.number}: ${pr.title}
+  State: ${pr.state}
+  Author: ${pr.author ?? "Unknown"}
+  Branch: ${pr.headRefName} → ${pr.baseRefName}
+  Created: ${new Date(pr.createdAt).toLocaleDateString()}
+  ${pr.body ? `\n  ${pr.body.substring(0, 200)}${pr.body.length > 200 ? "..." : ""}` : ""}
+`).join("\n---\n");
+
+    return toolResult(`Found ${pullRequests.length} pull requests:
+
+${prList}`, { pullRequests });
+  }
+
+  private async createPullRequest(args: CreatePullRequestArgs, options: RunCommandOptions = {}) {
+    const { title, body = "", head, base = this.config.github.defaultBase, draft = false } = args;
+
+    const command = ["pr", "create", "--title", title, "--body-file", "-", "--head", head, "--base", base];
+
+    if (draft) {
+      command.push("--draft");
+    }
+
+    const { stdout } = await gh(command, { ...options, input: body });
+    const url = stdout.trim();
+
+    return toolResult(`Pull request created successfully!
+${url}
+
+Title: ${title}
+Branch: ${head} → ${base}
+Draft: ${draft}`, {
+      url,
+      number: numberFromUrl(url),
+      title,
+      head,
+      base,
+      draft,
+    });
+  }
+
+  private async getRepositoryInfo(options: RunCommandOptions = {}) {
+    const { stdout } = await gh(["repo", "view", "--json", "name,description,owner,url,defaultBranchRef,visibility,createdAt,pushedAt,issues,pullRequests,stargazerCount,forkCount"], options);
+    const repoInfo = JSON.parse(stdout) as GhRepository;
+
+    const info = {
+      name: repoInfo.name,
+      owner: repoInfo.owner.login,
+      description: repoInfo.description || null,
+      url: repoInfo.url,
+      defaultBranch: repoInfo.defaultBranchRef?.name ?? null,
+      visibility: repoInfo.visibility,
+      createdAt: repoInfo.createdAt,
+      pushedAt: repoInfo.pushedAt,
+      stars: repoInfo.stargazerCount,
+      forks: repoInfo.forkCount,
+      openIssues: repoInfo.issues.totalCount,
+      openPullRequests: repoInfo.pullRequests.totalCount,
+    };
+
+    return toolResult(`Repository Information:
+
+Name: ${info.name}
+Owner: ${info.owner}
+Description: ${info.description || "No description"}
+URL: ${info.url}
+Default Branch: ${info.defaultBranch ?? "None"}
+Visibility: ${info.visibility}
+Created: ${new Date(info.createdAt).toLocaleDateString()}
+Last Push: ${new Date(info.pushedAt).toLocaleDateString()}
+
+Statistics:
+- Stars: ${info.stars}
+- Forks: ${info.forks}
+- Open Issues: ${info.openIssues}
+- Open Pull Requests: ${info.openPullRequests}`, info);
+  }
+
+  private async listBranches(args: ListBranchesArgs, options: RunCommandOptions = {}) {
+    const { remote = false } = args;
+
+    const { stdout } = await git(remote ? ["branch", "-a"] : ["branch"], options);
+
+    const lines = stdout.split('\n').filter(branch => branch.trim());
+    const current = lines.find(branch => branch.startsWith("*"))?.slice(1).trim() ?? null;
+    const branches = lines
+      .map(branch => branch.replace(/^\*?\s*/, '').trim())
+      .filter(branch => branch);
+
+    return toolResult(`Branches${remote ? " (including remote)" : ""}:
+
+${branches.join("\n")}
+
+Total: ${branches.length} branches`, { branches, current, includesRemote: remote });
+  }
+
+  private async createBranch(args: CreateBranchArgs, options: RunCommandOptions = {}) {
+    const { name, source = this.config.github.defaultBase } = args;
+
+    await git(["checkout", "-b", assertNotOption(name, "branch name"), assertNotOption(source, "source branch")], options);
+
+    return toolResult(`Branch '${name}' created successfully from '${source}' and checked out.`, { name, source });
+  }
+
+  private async searchCode(args: SearchCodeArgs, signal?: AbortSignal) {
+    const { query, language, filename } = args;
+
+    const command = ["search", "code", "--json", "repository,path,url", "--limit", "10"];
+
+    if (language) {
+      command.push("--language", language);
+    }
+    if (filename) {
+      command.push("--filename", filename);
+    }
+
+    command.push("--", query);
+
+    const { stdout } = await gh(command, { signal });
+    const results = (JSON.parse(stdout) as { path: string; url: string; repository: { nameWithOwner: string } }[])
+      .map(result => ({ path: result.path, repository: result.repository.nameWithOwner, url: result.url }));
+
+    if (results.length === 0) {
+      return toolResult(`No code found for query: "${query}"`, { query, results });
+    }
+
+    const resultList = results.map((result, index) =>
+      `${index + 1}. ${result.path}
+   Repository: ${result.repository}
+   URL: ${result.url}
+`).join("\n");
+
+    return toolResult(`Found ${results.length} code results for "${query}":
+
+${resultList}`, { query, results });
+  }
+
+  private async getReleaseInfo(args: GetReleaseInfoArgs, options: RunCommandOptions = {}) {
+    const { limit = 5 } = args;
+
+    const { stdout } = await gh(["release", "list", "--limit", String(limit), "--json", "tagName,name,isDraft,isPrerelease,isLatest,createdAt,publishedAt"], options);
+    const releases = JSON.parse(stdout) as GhRelease[];
+
+    if (releases.length === 0) {
+      return toolResult("No releases found for this repository.", { releases });
+    }
+
+    const releaseList = releases.map(release =>
+      `${release.tagName}: ${release.name || "No title"}${release.isLatest ? " (latest)" : ""}${release.isPrerelease ? " (pre-release)" : ""}${release.isDraft ? " (draft)" : ""}
+  Created: ${new Date(release.createdAt).toLocaleDateString()}
+  Published: ${release.publishedAt ? new Date(release.publishedAt).toLocaleDateString() : "Not published"}
+`).join("\n---\n");
+
+    return toolResult(`Latest ${releases.length} releases:
+
+${releaseList}`, { releases });
+  }
+}
@@ -0,0 +1,183 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { findExecutable, runCommand } from "../../shared/command-runner.js";
+import { configFilePath, findMcpClient, McpClientConfigFile, parseMcpConfig } from "./mcp-clients.js";
+import { parseVersion } from "./toolchains.js";
+
+interface AgentSpec {
+  name: string;
+  description: string;
+  command: string;
+  /** Variables that hold a credential the agent accepts. Only their presence is reported. */
+  apiKeys: string[];
+  /** Files a login leaves behind, relative to the home directory. */
+  credentialFiles: string[];
+  /** Id of the MCP client whose config files the agent reads, see MCP_CLIENTS. */
+  mcpClient?: string;
+  /** Matches the name the agent gives when it connects as an MCP client. */
+  clientName?: RegExp;
+}
+
+export type AgentStatus = "ready" | "installed" | "not-installed";
+
+export interface AgentConfigFile {
+  path: string;
+  scope: "user" | "project";
+  /** Names of the MCP servers it registers; empty when it could not be read. */
+  mcpServers: string[];
+  error?: string;
+}
+
+export interface DiscoveredAgent {
+  name: string;
+  description: string;
+  command: string;
+  installed: boolean;
+  path: string | null;
+  version: string | null;
+  /** Names of the credential variables that are set. */
+  apiKeys: string[];
+  credentialFiles: string[];
+  configFiles: AgentConfigFile[];
+  /** True when this agent is the client making the call. */
+  current: boolean;
+  /**
+   * "ready" when the CLI is installed and a credential was found, "installed"
+   * when none was found; the agent may still be logged in through the OS
+   * keychain.
+   */
+  status: AgentStatus;
+  usable: boolean;
+}
+
+export const KNOWN_AGENTS: AgentSpec[] = [
+  {
+    name: "Claude Code",
+    description: "Anthropic's coding agent CLI",
+    command: "claude",
+    apiKeys: ["ANTHROPIC_API_KEY", "ANTHROPIC_AUTH_TOKEN", "CLAUDE_CODE_OAUTH_TOKEN"],
+    credentialFiles: [join(".claude", ".credentials.json")],
+    mcpClient: "claude-code",
+    clientName: /^claude-code/i,
+  },
+  {
+    name: "Codex CLI",
+    description: "OpenAI's coding agent CLI",
+    command: "codex",
+    apiKeys: ["OPENAI_API_KEY", "CODEX_API_KEY"],
+    credentialFiles: [join(".codex", "auth.json")],
+    mcpClient: "codex",
+    clientName: /^codex/i,
+  },
+  {
+    name: "Gemini CLI",
+    description: "Google's coding agent CLI",
+    command: "gemini",
+    apiKeys: ["GEMINI_API_KEY", "GOOGLE_API_KEY"],
+    credentialFiles: [join(".gemini", "oauth_creds.json")],
+    mcpClient: "gemini-cli",
+    clientName: /^gemini-cli/i,
+  },
+  {
+    name: "Qwen Code",
+    description: "Alibaba's coding agent CLI for Qwen models",
+    command: "qwen",
+    apiKeys: ["DASHSCOPE_API_KEY", "OPENAI_API_KEY"],
+    credentialFiles: [join(".qwen", "oauth_creds.json")],
+    mcpClient: "qwen-code",
+    clientName: /^qwen/i,
+  },
+  {
+    name: "Cursor Agent",
+    description: "Cursor's coding agent CLI",
+    command: "cursor-agent",
+    apiKeys: ["CURSOR_API_KEY"],
+    credentialFiles: [],
+    mcpClient: "cursor",
+    clientName: /^cursor/i,
+  },
+  {
+    name: "Aider",
+    description: "Pair programming CLI that works with many model providers",
+    command: "aider",
+    apiKeys: ["ANTHROPIC_API_KEY", "OPENAI_API_KEY", "GEMINI_API_KEY", "DEEPSEEK_API_KEY", "OPENROUTER_API_KEY"],
+    credentialFiles: [],
+  },
+];
+
+const VERSION_TIMEOUT_MS = 10_000;
+
+async function readConfigFile(spec: McpClientConfigFile, path: string, workspace: string): Promise<AgentConfigFile> {
+  try {
+    const mcpServers = parseMcpConfig(await readFile(path, "utf-8"), spec, workspace).map(server => server.name);
+    return { path, scope: spec.scope, mcpServers: [...new Set(mcpServers)] };
+  } catch (error) {
+    return { path, scope: spec.scope, mcpServers: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function commandVersion(path: string, signal?: AbortSignal): Promise<string | null> {
+  try {
+    const { stdout, stderr } = await runCommand(path, ["--version"], { signal, timeoutMs: VERSION_TIMEOUT_MS });
+    return parseVersion(stdout) ?? parseVersion(stderr);
+  } catch {
+    signal?.throwIfAborted();
+    return null;
+  }
+}
+
+async function discoverAgent(
+  agent: AgentSpec,
+  options: { workspace: string; home: string; env: NodeJS.ProcessEnv; client?: string; signal?: AbortSignal }
+): Promise<DiscoveredAgent> {
+  const path = findExecutable(agent.command, options.env);
+  const version = path ? await commandVersion(path, options.signal) : null;
+  const apiKeys = agent.apiKeys.filter(name => options.env[name]?.trim());
+  const credentialFiles = agent.credentialFiles
+    .map(file => join(options.home, file))
+    .filter(file => existsSync(file));
+
+  const configFiles: AgentConfigFile[] = [];
+  for (const spec of agent.mcpClient ? findMcpClient(agent.mcpClient).configs : []) {
+    const file = configFilePath(spec, options);
+    // A project in the home directory shares its user config
+    if (existsSync(file) && !configFiles.some(config => config.path === file)) {
+      configFiles.push(await readConfigFile(spec, file, options.workspace));
+    }
+  }
+
+  const current = Boolean(options.client && agent.clientName?.test(options.client));
+  const status: AgentStatus = !path ? "not-installed" : apiKeys.length + credentialFiles.length > 0 ? "ready" : "installed";
+  return {
+    name: agent.name,
+    description: agent.description,
+    command: agent.command,
+    installed: path !== null,
+    path,
+    version,
+    apiKeys,
+    credentialFiles,
+    configFiles,
+    current,
+    status,
+    usable: current || status === "ready",
+  };
+}
+
+/**
+ * Looks for the agent CLIs this machine can run: whether each is on PATH and
+ * its version, which of its credential variables are set (never their
+ * values), whether a login left credentials behind, and which MCP servers
+ * its config files register. `client` is the name of the calling MCP client.
+ */
+export function discoverAgents(options: {
+  workspace: string;
+  home: string;
+  env?: NodeJS.ProcessEnv;
+  client?: string;
+  signal?: AbortSignal;
+}): Promise<DiscoveredAgent[]> {
+  const env = options.env ?? process.env;
+  return Promise.all(KNOWN_AGENTS.map(agent => discoverAgent(agent, { ...options, env })));
+}
@@ -0,0 +1,584 @@
+import { existsSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import YAML from "yaml";
+
+export type Ecosystem = "npm" | "pypi" | "cargo" | "go";
+
+export interface Dependency {
+  name: string;
+  version: string;
+  ecosystem: Ecosystem;
+  /** Declared by the project itself rather than pulled in by another dependency. */
+  direct: boolean;
+  /** SPDX identifier or expression; null when no installed or vendored metadata names it. */
+  license: string | null;
+  lockfile: string;
+}
+
+export interface DuplicateDependency {
+  ecosystem: Ecosystem;
+  name: string;
+  versions: string[];
+}
+
+export interface DependencyInventory {
+  root: string;
+  lockfiles: string[];
+  dependencies: Dependency[];
+  duplicates: DuplicateDependency[];
+  /** Dependencies whose license is known but not allowed. */
+  licenseViolations: Dependency[];
+  /** Dependencies whose license could not be resolved. */
+  unknownLicenses: number;
+}
+
+interface LockfileParser {
+  file: string;
+  ecosystem: Ecosystem;
+  parse: (text: string, root: string) => Promise<Omit<Dependency, "ecosystem" | "lockfile">[]>;
+}
+
+async function readText(path: string): Promise<string | null> {
+  return readFile(path, "utf-8").catch(() => null);
+}
+
+/** Fields of a package.json, package-lock.json or pnpm-lock.yaml entry the readers use, not yet checked. */
+interface PackageEntry {
+  name?: unknown;
+  version?: unknown;
+  license?: unknown;
+  licenses?: unknown;
+  link?: unknown;
+  dependencies?: unknown;
+}
+
+/** `value` when it is a JSON object, else null. */
+function objectOf(value: unknown): Record<string, unknown> | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+/** The entries of a JSON object keyed by name, leaving out those that are not objects themselves. */
+function packageEntries(value: unknown): [string, PackageEntry][] {
+  return Object.entries(objectOf(value) ?? {}).flatMap(([key, entry]) => {
+    const object = objectOf(entry);
+    return object ? [[key, object as PackageEntry]] : [];
+  });
+}
+
+async function readJson(path: string): Promise<unknown> {
+  const text = await readText(path);
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * An SPDX expression from the license fields npm packages have used over
+ * time: `"MIT"`, `{ type: "MIT" }` and `licenses: [{ type: "MIT" }, ...]`.
+ */
+export function normalizeLicense(value: unknown): string | null {
+  if (typeof value === "string") return value.trim() || null;
+  if (Array.isArray(value)) {
+    const licenses = value.map(normalizeLicense).filter((license): license is string => license !== null);
+    return licenses.length > 1 ? `(${licenses.join(" OR ")})` : licenses[0] ?? null;
+  }
+  if (value && typeof value === "object" && "type" in value) return normalizeLicense(value.type);
+  return null;
+}
+
+/** Recognizes the common license texts found in LICENSE files of Go and Rust sources. */
+export function licenseFromText(text: string): string | null {
+  if (/Apache License[\s\S]{0,40}Version 2\.0/i.test(text)) return "Apache-2.0";
+  if (/Mozilla Public License,? Version 2\.0/i.test(text)) return "MPL-2.0";
+  if (/GNU LESSER GENERAL PUBLIC LICENSE[\s\S]{0,40}Version 3/i.test(text)) return "LGPL-3.0";
+  if (/GNU GENERAL PUBLIC LICENSE[\s\S]{0,40}Version 3/i.test(text)) return "GPL-3.0";
+  if (/GNU GENERAL PUBLIC LICENSE[\s\S]{0,40}Version 2/i.test(text)) return "GPL-2.0";
+  if (/Permission is hereby granted, free of charge/i.test(text)) return "MIT";
+  if (/Permission to use, copy, modify, and\/?or distribute this software/i.test(text)) return "ISC";
+  if (/Redistribution and use in source and binary forms/i.test(text)) {
+    return /Neither the name/i.test(text) ? "BSD-3-Clause" : "BSD-2-Clause";
+  }
+  if (/This is free and unencumbered software released into the public domain/i.test(text)) return "Unlicense";
+  return null;
+}
+
+async function licenseInDirectory(dir: string): Promise<string | null> {
+  const files = await readdir(dir).catch(() => [] as string[]);
+  const licenseFile = files.find(file => /^(LICEN[CS]E|COPYING)([.-].*)?$/i.test(file));
+  const text = licenseFile ? await readText(join(dir, licenseFile)) : null;
+  return text ? licenseFromText(text) : null;
+}
+
+/** Names of the dependencies the given package.json manifests declare, dev and peer ones included. */
+function declaredNames(...manifests: unknown[]): Set<string> {
+  const names = new Set<string>();
+  for (const manifest of manifests) {
+    for (const field of ["dependencies", "devDependencies", "optionalDependencies", "peerDependencies"]) {
+      for (const name of Object.keys(objectOf(objectOf(manifest)?.[field]) ?? {})) names.add(name);
+    }
+  }
+  return names;
+}
+
+async function installedNpmLicense(root: string, packageDir: string, version: string): Promise<string | null> {
+  const manifest: PackageEntry | null = objectOf(await readJson(join(root, packageDir, "package.json")));
+  if (!manifest || (manifest.version && manifest.version !== version)) return null;
+  return normalizeLicense(manifest.license ?? manifest.licenses);
+}
+
+/**
+ * package-lock.json v2 and v3 list every installed package under `packages`,
+ * keyed by its path, usually with its license. v1 nests `dependencies`.
+ */
+async function parsePackageLock(text: string, root: string) {
+  const lock = objectOf(JSON.parse(text)) ?? {};
+  const dependencies: Omit<Dependency, "ecosystem" | "lockfile">[] = [];
+
+  if (lock.packages) {
+    const entries = packageEntries(lock.packages);
+    const projects = entries.filter(([path]) => !path.includes("node_modules/")).map(([, entry]) => entry);
+    const direct = declaredNames(...projects);
+    for (const [path, entry] of entries) {
+      const index = path.lastIndexOf("node_modules/");
+      if (index < 0 || entry.link || typeof entry.version !== "string" || !entry.version) continue;
+      const name = typeof entry.name === "string" ? entry.name : path.slice(index + "node_modules/".length);
+      dependencies.push({
+        name,
+        version: entry.version,
+        direct: path === `node_modules/${name}` && direct.has(name),
+        license: normalizeLicense(entry.license) ?? (await installedNpmLicense(root, path, entry.version)),
+      });
+    }
+    return dependencies;
+  }
+
+  const direct = declaredNames(await readJson(join(root, "package.json")));
+  const visit = async (tree: unknown, dir: string, topLevel: boolean) => {
+    for (const [name, entry] of packageEntries(tree)) {
+      const path = join(dir, "node_modules", name);
+      if (typeof entry.version !== "string") continue;
+      dependencies.push({
+        name,
+        version: entry.version,
+        direct: topLevel && direct.has(name),
+        license: await installedNpmLicense(root, path, entry.version),
+      });
+      await visit(entry.dependencies, path, false);
+    }
+  };
+  await visit(lock.dependencies, "", true);
+  return dependencies;
+}
+
+/** Splits "name@version" or a pnpm key like "/@scope/name@1.0.0(react@18.2.0)". */
+function splitAtVersion(key: string): { name: string; version: string } | null {
+  const plain = key.replace(/^\//, "").replace(/\(.*$/, "");
+  const at = plain.lastIndexOf("@");
+  if (at > 0) return { name: plain.slice(0, at), version: plain.slice(at + 1) };
+  // pnpm lockfile v5 keys are "/name/1.0.0"
+  const slash = plain.lastIndexOf("/");
+  return slash > 0 ? { name: plain.slice(0, slash), version: plain.slice(slash + 1) } : null;
+}
+
+async function parsePnpmLock(text: string, root: string) {
+  const lock = objectOf(YAML.parse(text)) ?? {};
+  const importers = lock.importers ? packageEntries(lock.importers).map(([, importer]) => importer) : [lock];
+  const direct = declaredNames(...importers);
+  const packages = new Map(packageEntries(lock.packages));
+  const seen = new Set<string>();
+  const dependencies: Omit<Dependency, "ecosystem" | "lockfile">[] = [];
+
+  for (const key of Object.keys(objectOf(lock.packages) ?? {})) {
+    const parsed = splitAtVersion(key);
+    if (!parsed || seen.has(`${parsed.name}@${parsed.version}`)) continue;
+    seen.add(`${parsed.name}@${parsed.version}`);
+    const entry = packages.get(key) ?? {};
+    const store = join("node_modules", ".pnpm", `${parsed.name.replace("/", "+")}@${parsed.version}`, "node_modules", parsed.name);
+    dependencies.push({
+      ...parsed,
+      direct: direct.has(parsed.name),
+      license:
+        normalizeLicense(entry.license) ??
+        (await installedNpmLicense(root, store, parsed.version)) ??
+        (await installedNpmLicense(root, join("node_modules", parsed.name), parsed.version)),
+    });
+  }
+  return dependencies;
+}
+
+/**
+ * yarn.lock in the classic format, with `version "1.0.0"` lines under each
+ * descriptor list, or the YAML format of Yarn 2 and later.
+ */
+async function parseYarnLock(text: string, root: string) {
+  const entries: { descriptors: string[]; version: string }[] = [];
+  if (/^__metadata:/m.test(text)) {
+    for (const [key, entry] of packageEntries(YAML.parse(text))) {
+      const version = typeof entry.version === "number" ? String(entry.version) : entry.version;
+      if (key === "__metadata" || typeof version !== "string" || !version || /@(workspace|link|portal):/.test(key)) continue;
+      entries.push({ descriptors: key.split(/,\s*/), version });
+    }
+  } else {
+    let descriptors: string[] = [];
+    for (const line of text.split(/\r?\n/)) {
+      if (/^[^\s#].*:$/.test(line)) {
+        descriptors = line.slice(0, -1).split(/,\s*/).map(descriptor => descriptor.replace(/^"|"$/g, ""));
+      } else {
+        const version = /^\s+version:?\s+"?([^"\s]+)"?/.exec(line);
+        if (version && descriptors.length > 0) {
+          entries.push({ descriptors, version: version[1] });
+          descriptors = [];
+        }
+      }
+    }
+  }
+
+  const direct = declaredNames(await readJson(join(root, "package.json")));
+  const dependencies: Omit<Dependency, "ecosystem" | "lockfile">[] = [];
+  for (const { descriptors, version } of entries) {
+    const name = splitAtVersion(descriptors[0])?.name;
+    if (!name) continue;
+    dependencies.push({
+      name,
+      version,
+      direct: direct.has(name),
+      license: await installedNpmLicense(root, join("node_modules", name), version),
+    });
+  }
+  return dependencies;
+}
+
+/** PEP 503 normalized name: pip treats "Foo_Bar" and "foo-bar" as the same project. */
+function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+/** SPDX identifiers of the trove classifiers for common licenses. */
+const CLASSIFIER_LICENSES: Record<string, string> = {
+  "MIT License": "MIT",
+  "Apache Software License": "Apache-2.0",
+  "ISC License (ISCL)": "ISC",
+  "Mozilla Public License 2.0 (MPL 2.0)": "MPL-2.0",
+  "The Unlicense (Unlicense)": "Unlicense",
+  "Python Software Foundation License": "Python-2.0",
+};
+
+/**
+ * Licenses of the packages installed in the project's virtualenv, read from
+ * the License-Expression, License or classifier headers of their METADATA.
+ */
+async function pythonLicenses(root: string): Promise<Map<string, string>> {
+  const licenses = new Map<string, string>();
+  for (const venv of [".venv", "venv", "env"]) {
+    const libs = [join(root, venv, "Lib", "site-packages")];
+    for (const python of await readdir(join(root, venv, "lib")).catch(() => [] as string[])) {
+      libs.push(join(root, venv, "lib", python, "site-packages"));
+    }
+    for (const sitePackages of libs) {
+      for (const dir of await readdir(sitePackages).catch(() => [] as string[])) {
+        const distInfo = /^(.+)-([^-]+)\.dist-info$/.exec(dir);
+        if (!distInfo) continue;
+        const metadata = (await readText(join(sitePackages, dir, "METADATA")))?.split(/\r?\n\r?\n/)[0] ?? "";
+        const header = (name: string) => new RegExp(`^${name}: *(.+)$`, "mi").exec(metadata)?.[1].trim();
+        const classifier = /^Classifier: License :: (?:OSI Approved :: )?(.+)$/m.exec(metadata)?.[1].trim();
+        // The License header often holds the whole license text instead of its name
+        const licenseHeader = header("License");
+        const license =
+          header("License-Expression") ??
+          (licenseHeader && licenseHeader.length < 40 ? licenseHeader : classifier && (CLASSIFIER_LICENSES[classifier] ?? classifier));
+        if (license && license !== "UNKNOWN") {
+          licenses.set(`${normalizePythonName(distInfo[1])}@${distInfo[2]}`, license);
+        }
+      }
+    }
+  }
+  return licenses;
+}
+
+/**
+ * requirements.txt, including pip-compile output where `# via` comments tell
+ * direct requirements (via -r) from transitive ones.
+ */
+async function parseRequirements(text: string, root: string) {
+  const licenses = await pythonLicenses(root);
+  const lines = text.replace(/\\\r?\n/g, " ").split(/\r?\n/);
+  const compiled = lines.some(line => /^\s+#\s+via\b/.test(line));
+  const dependencies: Omit<Dependency, "ecosystem" | "lockfile">[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const requirement = /^([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*([^;#\s@]*)/.exec(lines[index]);
+    if (!requirement) continue;
+    const name = normalizePythonName(requirement[1]);
+    const pinned = /^===?\s*(.+)$/.exec(requirement[2]);
+    const version = pinned ? pinned[1] : requirement[2] || "*";
+
+    let via = "";
+    for (let next = index + 1; next < lines.length && /^\s+#/.test(lines[next]); next++) {
+      via += lines[next];
+    }
+    dependencies.push({
+      name,
+      version,
+      direct: !compiled || /-r |\.in\b|pyproject\.toml/.test(via),
+      license: licenses.get(`${name}@${version}`) ?? null,
+    });
+  }
+  return dependencies;
+}
+
+/** `[[package]]` tables of poetry.lock, uv.lock and Cargo.lock, with their top-level keys. */
+function tomlPackages(text: string): Record<string, string>[] {
+  return text.split(/^\[\[package\]\]\s*$/m).slice(1).map(block => {
+    const fields: Record<string, string> = {};
+    const body = block.split(/^\[/m)[0];
+    for (const match of body.matchAll(/^([\w-]+)\s*=\s*("(?:[^"\\]|\\.)*"|\[[^\]]*\]|\{[^}]*\})/gm)) {
+      fields[match[1]] = match[2];
+    }
+    return fields;
+  });
+}
+
+function unquote(value: string | undefined): string {
+  return value?.replace(/^"|"$/g, "") ?? "";
+}
+
+/** Body of a TOML table, up to the next table header. */
+function tomlTable(text: string, header: string): string {
+  const start = text.split(/\r?\n/).findIndex(line => line.trim() === `[${header}]`);
+  if (start < 0) return "";
+  const lines = text.split(/\r?\n/).slice(start + 1);
+  const end = lines.findIndex(line => line.startsWith("["));
+  return lines.slice(0, end < 0 ? undefined : end).join("\n");
+}
+
+/** Dependencies pyproject.toml declares under [project] or Poetry's dependency tables. */
+function pyprojectDependencies(pyproject: string): Set<string> {
+  const names = new Set<string>();
+  // The array ends where the next key starts; extras like "uvicorn[standard]" rule out matching on "]"
+  const requirements = /^dependencies\s*=\s*\[([\s\S]*?)(?=^[\w-]+\s*=|$(?![\s\S]))/m.exec(tomlTable(pyproject, "project"));
+  for (const requirement of (requirements?.[1] ?? "").matchAll(/["']([A-Za-z0-9][A-Za-z0-9._-]*)/g)) {
+    names.add(normalizePythonName(requirement[1]));
+  }
+  const poetryTables = [...pyproject.matchAll(/^\[(tool\.poetry\.(?:group\.[\w-]+\.)?(?:dev-)?dependencies)\]\s*$/gm)];
+  for (const [, header] of poetryTables) {
+    for (const key of tomlTable(pyproject, header).matchAll(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*=/gm)) {
+      if (key[1] !== "python") names.add(normalizePythonName(key[1]));
+    }
+  }
+  return names;
+}
+
+/** The project's own name, which uv.lock lists among the packages. */
+function pyprojectName(pyproject: string): string | null {
+  const table = tomlTable(pyproject, "project") || tomlTable(pyproject, "tool.poetry");
+  const name = /^name\s*=\s*"([^"]+)"/m.exec(table)?.[1];
+  return name ? normalizePythonName(name) : null;
+}
+
+async function parsePythonLock(text: string, root: string) {
+  const licenses = await pythonLicenses(root);
+  const pyproject = (await readText(join(root, "pyproject.toml"))) ?? "";
+  const direct = pyprojectDependencies(pyproject);
+  const projectName = pyprojectName(pyproject);
+
+  return tomlPackages(text)
+    .map(fields => ({ name: normalizePythonName(unquote(fields.name)), version: unquote(fields.version) }))
+    .filter(({ name, version }) => name && version && name !== projectName)
+    .map(({ name, version }) => ({
+      name,
+      version,
+      direct: direct.has(name),
+      license: licenses.get(`${name}@${version}`) ?? null,
+    }));
+}
+
+/** Cargo.toml license of a crate's sources in vendor/ or the local registry cache. */
+async function crateLicense(root: string, name: string, version: string): Promise<string | null> {
+  const cargoHome = process.env.CARGO_HOME ?? join(homedir(), ".cargo");
+  const dirs = [join(root, "vendor", name), join(root, "vendor", `${name}-${version}`)];
+  for (const registry of await readdir(join(cargoHome, "registry", "src")).catch(() => [] as string[])) {
+    dirs.push(join(cargoHome, "registry", "src", registry, `${name}-${version}`));
+  }
+  for (const dir of dirs) {
+    const manifest = await readText(join(dir, "Cargo.toml"));
+    if (!manifest || !new RegExp(`^version\\s*=\\s*"${version.replace(/\./g, "\\.")}"`, "m").test(manifest)) continue;
+    const license = /^license\s*=\s*"([^"]+)"/m.exec(manifest)?.[1];
+    return license ? license.replace(/\//g, " OR ") : await licenseInDirectory(dir);
+  }
+  return null;
+}
+
+/**
+ * Cargo.lock. Packages without a `source` are the workspace's own crates;
+ * what they depend on is direct, the rest is transitive.
+ */
+async function parseCargoLock(text: string, root: string) {
+  const packages = tomlPackages(text);
+  const direct = new Set<string>();
+  for (const local of packages.filter(fields => !fields.source)) {
+    for (const dependency of (local.dependencies ?? "").matchAll(/"([^"\s]+)/g)) {
+      direct.add(dependency[1]);
+    }
+  }
+
+  const dependencies: Omit<Dependency, "ecosystem" | "lockfile">[] = [];
+  for (const fields of packages.filter(fields => fields.source)) {
+    const name = unquote(fields.name);
+    const version = unquote(fields.version);
+    dependencies.push({ name, version, direct: direct.has(name), license: await crateLicense(root, name, version) });
+  }
+  return dependencies;
+}
+
+/** The module cache escapes capitals, e.g. github.com/!burnt!sushi. */
+function escapeModulePath(path: string): string {
+  return path.replace(/[A-Z]/g, letter => `!${letter.toLowerCase()}`);
+}
+
+/**
+ * go.sum. Modules with only a /go.mod hash are part of the module graph but
+ * not built, so they are left out; go.mod says which requirements are direct.
+ */
+async function parseGoSum(text: string, root: string) {
+  const goMod = (await readText(join(root, "go.mod"))) ?? "";
+  const direct = new Set<string>();
+  for (const requirement of goMod.matchAll(/^\s*(?:require\s+)?([\w.-]+\.[\w./~-]+)\s+v\S+(.*)$/gm)) {
+    if (!requirement[2].includes("// indirect")) direct.add(requirement[1]);
+  }
+  const modCache =
+    process.env.GOMODCACHE ?? join(process.env.GOPATH?.split(/[:;]/)[0] ?? join(homedir(), "go"), "pkg", "mod");
+
+  const modules = new Map<string, { name: string; version: string }>();
+  for (const line of text.split(/\r?\n/)) {
+    const [name, version] = line.trim().split(/\s+/);
+    if (name && version && !version.endsWith("/go.mod")) {
+      modules.set(`${name}@${version}`, { name, version });
+    }
+  }
+
+  const dependencies: Omit<Dependency, "ecosystem" | "lockfile">[] = [];
+  for (const { name, version } of modules.values()) {
+    const license =
+      (await licenseInDirectory(join(root, "vendor", name))) ??
+      (await licenseInDirectory(join(modCache, `${escapeModulePath(name)}@${version}`)));
+    dependencies.push({ name, version, direct: direct.has(name), license });
+  }
+  return dependencies;
+}
+
+const LOCKFILE_PARSERS: LockfileParser[] = [
+  { file: "package-lock.json", ecosystem: "npm", parse: parsePackageLock },
+  { file: "npm-shrinkwrap.json", ecosystem: "npm", parse: parsePackageLock },
+  { file: "pnpm-lock.yaml", ecosystem: "npm", parse: parsePnpmLock },
+  { file: "yarn.lock", ecosystem: "npm", parse: parseYarnLock },
+  { file: "poetry.lock", ecosystem: "pypi", parse: parsePythonLock },
+  { file: "uv.lock", ecosystem: "pypi", parse: parsePythonLock },
+  { file: "requirements.txt", ecosystem: "pypi", parse: parseRequirements },
+  { file: "Cargo.lock", ecosystem: "cargo", parse: parseCargoLock },
+  { file: "go.sum", ecosystem: "go", parse: parseGoSum },
+];
+
+/**
+ * Whether an SPDX expression only needs allowed licenses: one side of an OR,
+ * both sides of an AND. An exception (WITH) does not change the license.
+ */
+export function isLicenseAllowed(expression: string, allowed: string[]): boolean {
+  const allowedIds = new Set(allowed.map(id => id.toLowerCase()));
+  const tokens = expression.match(/\(|\)|[^\s()]+/g) ?? [];
+  let position = 0;
+
+  const primary = (): boolean => {
+    const token = tokens[position++];
+    if (token === "(") {
+      const result = or();
+      position++;
+      return result;
+    }
+    const id = (token ?? "").replace(/\+$/, "").toLowerCase();
+    if (tokens[position]?.toUpperCase() === "WITH") position += 2;
+    return allowedIds.has(id);
+  };
+  const and = (): boolean => {
+    let result = primary();
+    while (tokens[position]?.toUpperCase() === "AND") {
+      position++;
+      result = primary() && result;
+    }
+    return result;
+  };
+  const or = (): boolean => {
+    let result = and();
+    while (tokens[position]?.toUpperCase() === "OR") {
+      position++;
+      result = and() || result;
+    }
+    return result;
+  };
+  return or();
+}
+
+/** An exact version, as opposed to a range or wildcard. */
+const PINNED_VERSION = /^v?\d[^\s<>=!~^*,|]*$/;
+
+/**
+ * Reads the lockfiles in `root` without touching the network and lists
+ * every locked dependency with the license its installed or vendored
+ * metadata declares. Packages locked at more than one version and licenses
+ * outside `allowedLicenses` are flagged; an empty allowlist flags nothing.
+ */
+export async function inventoryDependencies(root: string, allowedLicenses: string[]): Promise<DependencyInventory> {
+  const lockfiles: string[] = [];
+  let dependencies: Dependency[] = [];
+
+  for (const parser of LOCKFILE_PARSERS) {
+    const path = join(root, parser.file);
+    if (!existsSync(path)) continue;
+    lockfiles.push(parser.file);
+    try {
+      const parsed = await parser.parse((await readText(path)) ?? "", root);
+      dependencies.push(...parsed.map(dependency => ({ ...dependency, ecosystem: parser.ecosystem, lockfile: parser.file })));
+    } catch (error) {
+      throw new Error(`Failed to parse ${parser.file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // The same package can be locked at several paths (nested node_modules) or
+  // in several lockfiles; list it once and keep whatever the copies agree on.
+  const unique = new Map<string, Dependency>();
+  for (const dependency of dependencies) {
+    const key = `${dependency.ecosystem}\0${dependency.name}\0${dependency.version}`;
+    const seen = unique.get(key);
+    if (!seen) unique.set(key, dependency);
+    else unique.set(key, { ...seen, direct: seen.direct || dependency.direct, license: seen.license ?? dependency.license });
+  }
+  dependencies = [...unique.values()];
+
+  // Ranges such as `*` or `>=2.0` from an unpinned requirements.txt say
+  // nothing about what is installed, so only exact versions count.
+  const versions = new Map<string, Set<string>>();
+  for (const dependency of dependencies.filter(dependency => PINNED_VERSION.test(dependency.version))) {
+    const key = `${dependency.ecosystem}\0${dependency.name}`;
+    versions.set(key, (versions.get(key) ?? new Set()).add(dependency.version));
+  }
+  const duplicates = [...versions.entries()]
+    .filter(([, found]) => found.size > 1)
+    .map(([key, found]) => {
+      const [ecosystem, name] = key.split("\0");
+      return { ecosystem: ecosystem as Ecosystem, name, versions: [...found].sort() };
+    });
+
+  return {
+    root,
+    lockfiles,
+    dependencies,
+    duplicates,
+    licenseViolations: allowedLicenses.length > 0
+      ? dependencies.filter(dependency => dependency.license && !isLicenseAllowed(dependency.license, allowedLicenses))
+      : [],
+    unknownLicenses: dependencies.filter(dependency => !dependency.license).length,
+  };
+}
@@ -0,0 +1,246 @@
+import { constants, existsSync } from "fs";
+import { access, readdir, readFile, stat } from "fs/promises";
+import { dirname, join } from "path";
+import semver from "semver";
+import { CommandError, runCommand } from "../../shared/command-runner.js";
+import { ResolvedConfig } from "../../shared/config.js";
+import { COLLECTION_SERVERS, entryPoint, PACKAGE_ROOT } from "./mcp-clients.js";
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface DoctorCheck {
+  /** Server the check is for, or "general" for what all of them need. */
+  server: string;
+  name: string;
+  status: CheckStatus;
+  message: string;
+  /** What to do about a warning or failure. */
+  fix?: string;
+}
+
+export interface DoctorReport {
+  workspace: string;
+  checks: DoctorCheck[];
+  summary: Record<CheckStatus, number>;
+  /** No check failed; warnings only limit some tools. */
+  healthy: boolean;
+}
+
+/** The oldest Node.js the servers run on; statfs from fs/promises arrived in 18.15. */
+export const MIN_NODE_VERSION = "18.15.0";
+/** gh token scopes the GitHub server's issue, pull request and release tools need. */
+export const REQUIRED_GH_SCOPES = ["repo", "read:org"];
+const COMMAND_TIMEOUT_MS = 15_000;
+
+type Check = Omit<DoctorCheck, "server">;
+
+function pass(name: string, message: string): Check {
+  return { name, status: "pass", message };
+}
+
+function warn(name: string, message: string, fix: string): Check {
+  return { name, status: "warn", message, fix };
+}
+
+function fail(name: string, message: string, fix: string): Check {
+  return { name, status: "fail", message, fix };
+}
+
+async function run(command: string, args: string[], cwd: string, signal?: AbortSignal): Promise<string | null> {
+  try {
+    const { stdout, stderr } = await runCommand(command, args, { cwd, signal, timeoutMs: COMMAND_TIMEOUT_MS });
+    return `${stdout}${stderr}`.trim();
+  } catch {
+    signal?.throwIfAborted();
+    return null;
+  }
+}
+
+function checkNode(version = process.versions.node): Check {
+  return semver.gte(version, MIN_NODE_VERSION)
+    ? pass("Node.js", `v${version}`)
+    : fail("Node.js", `v${version} is older than ${MIN_NODE_VERSION}`, `Install Node.js ${MIN_NODE_VERSION} or newer`);
+}
+
+async function newestModification(dir: string): Promise<number> {
+  let newest = 0;
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) newest = Math.max(newest, await newestModification(path));
+    else if (entry.name.endsWith(".ts")) newest = Math.max(newest, (await stat(path)).mtimeMs);
+  }
+  return newest;
+}
+
+/** Whether every entry point is built, and not older than the sources next to it. */
+export async function checkBuild(packageRoot: string): Promise<Check> {
+  const entries = [entryPoint(packageRoot), ...COLLECTION_SERVERS.map(server => entryPoint(packageRoot, server))];
+  const missing = entries.filter(entry => !existsSync(entry));
+  if (missing.length > 0) {
+    return fail("Build output", `${missing.length} of ${entries.length} entry points missing in dist/`, "Run npm run build");
+  }
+
+  const source = join(packageRoot, "src");
+  if (existsSync(source)) {
+    const built = Math.min(...(await Promise.all(entries.map(entry => stat(entry)))).map(stats => stats.mtimeMs));
+    if ((await newestModification(source)) > built) {
+      return warn("Build output", "dist/ is older than src/", "Run npm run build to pick up the latest changes");
+    }
+  }
+  return pass("Build output", `${entries.length} entry points in ${join(packageRoot, "dist")}`);
+}
+
+/** Whether a directory can be written, or created because its closest existing parent can. */
+export async function checkWritable(name: string, dir: string, setting: string): Promise<Check> {
+  let existing = dir;
+  while (!existsSync(existing) && dirname(existing) !== existing) existing = dirname(existing);
+  try {
+    await access(existing, constants.W_OK);
+    return pass(name, existing === dir ? `${dir} is writable` : `${dir} will be created`);
+  } catch {
+    return fail(name, `${existing} is not writable`, `Fix the permissions of ${existing} or point ${setting} elsewhere`);
+  }
+}
+
+/** Whether a storage file, if there is one, holds the JSON array the server expects. */
+export async function checkJsonArray(name: string, file: string, consequence: string): Promise<Check> {
+  if (!existsSync(file)) {
+    return pass(name, `${file} does not exist yet`);
+  }
+  try {
+    const data = JSON.parse(await readFile(file, "utf-8"));
+    return Array.isArray(data)
+      ? pass(name, `${file}: ${data.length} entries`)
+      : fail(name, `${file} does not hold a JSON array`, `Restore ${file} from a backup; ${consequence}`);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return fail(name, `${file} is not valid JSON: ${reason}`, `Repair or restore ${file}; ${consequence}`);
+  }
+}
+
+async function gitChecks(workspace: string, config: ResolvedConfig, signal?: AbortSignal): Promise<Check[]> {
+  const version = await run("git", ["--version"], workspace, signal);
+  if (version === null) {
+    return [fail("git", "git is not installed", "Install git from https://git-scm.com")];
+  }
+  const checks = [pass("git", version)];
+
+  const root = await run("git", ["rev-parse", "--show-toplevel"], workspace, signal);
+  checks.push(
+    root === null
+      ? fail("Repository", `${workspace} is not a git repository`, "Run git init, or pass the repository as repoPath")
+      : pass("Repository", root)
+  );
+
+  if (root !== null) {
+    const origin = await run("git", ["remote", "get-url", "origin"], workspace, signal);
+    checks.push(
+      origin === null
+        ? warn("Remote", "No origin remote; git_push and the GitHub tools need one", "Run git remote add origin <url>")
+        : pass("Remote", `origin ${origin}`)
+    );
+  }
+
+  const name = await run("git", ["config", "user.name"], workspace, signal);
+  const email = await run("git", ["config", "user.email"], workspace, signal);
+  const missing = [!name && "user.name", !email && "user.email"].filter(Boolean);
+  checks.push(
+    missing.length > 0
+      ? fail(
+          "Identity",
+          `${missing.join(" and ")} not set; ${config.gitRunner.autoCommit ? "auto-commit and " : ""}git_commit will fail`,
+          missing.map(key => `git config --global ${key} "${key === "user.name" ? "Your Name" : "you@example.com"}"`).join("; ")
+        )
+      : pass("Identity", `${name} <${email}>`)
+  );
+  return checks;
+}
+
+/** Scopes listed by `gh auth status`, or null when it does not print them, e.g. for fine-grained tokens. */
+export function ghScopes(status: string): string[] | null {
+  const line = /Token scopes:\s*(.*)/.exec(status)?.[1];
+  return line === undefined ? null : [...line.matchAll(/'([^']+)'/g)].map(match => match[1]);
+}
+
+async function githubChecks(workspace: string, signal?: AbortSignal): Promise<Check[]> {
+  const version = await run("gh", ["--version"], workspace, signal);
+  if (version === null) {
+    return [fail("GitHub CLI", "gh is not installed", "Install the GitHub CLI from https://cli.github.com")];
+  }
+  const checks = [pass("GitHub CLI", version.split("\n")[0])];
+
+  let status: string;
+  try {
+    const { stdout, stderr } = await runCommand("gh", ["auth", "status"], { cwd: workspace, signal, timeoutMs: COMMAND_TIMEOUT_MS });
+    status = `${stdout}${stderr}`;
+  } catch (error) {
+    signal?.throwIfAborted();
+    const reason = error instanceof CommandError ? error.stderr.trim().split("\n")[0] : String(error);
+    return [...checks, fail("Authentication", reason || "Not logged in", "Run gh auth login")];
+  }
+  checks.push(pass("Authentication", /account (\S+)/.exec(status)?.[1] ?? /as (\S+)/.exec(status)?.[1] ?? "Logged in"));
+
+  const scopes = ghScopes(status);
+  const missing = REQUIRED_GH_SCOPES.filter(scope => !scopes?.includes(scope));
+  checks.push(
+    scopes === null
+      ? warn("Token scopes", "gh does not report the token's scopes", `Make sure the token grants ${REQUIRED_GH_SCOPES.join(" and ")}`)
+      : missing.length > 0
+        ? warn("Token scopes", `Missing ${missing.join(", ")}`, `Run gh auth refresh -s ${missing.join(",")}`)
+        : pass("Token scopes", scopes.join(", "))
+  );
+  return checks;
+}
+
+/**
+ * Checks what each server needs before its tools work: Node.js and the
+ * built entry points for all of them, git with a repository, an origin
+ * remote and an identity for Git Runner, an authenticated gh with the
+ * right scopes for GitHub, and writable storage with intact JSON files for
+ * Memory and Rules. Every warning and failure comes with a fix.
+ */
+export async function runDoctor(options: {
+  workspace: string;
+  config: ResolvedConfig;
+  packageRoot?: string;
+  signal?: AbortSignal;
+}): Promise<DoctorReport> {
+  const { workspace, config, signal } = options;
+  const memory = config.memory.storagePath;
+  const rules = config.rules.storagePath;
+  const emptied = (server: string) => `until then the ${server} server starts empty and overwrites it on the next save`;
+
+  const groups: [string, Check[]][] = [
+    [
+      "general",
+      [
+        checkNode(),
+        await checkBuild(options.packageRoot ?? PACKAGE_ROOT),
+        await checkWritable("Audit log", config.audit.storagePath, "audit.storagePath"),
+        ...(config.logging.file ? [await checkWritable("Log file", dirname(config.logging.file), "logging.file")] : []),
+      ],
+    ],
+    ["git-runner", await gitChecks(workspace, config, signal)],
+    ["github", await githubChecks(workspace, signal)],
+    [
+      "memory",
+      [
+        await checkWritable("Storage", memory, "memory.storagePath"),
+        await checkJsonArray("Memories", join(memory, "memories.json"), emptied("Memory")),
+      ],
+    ],
+    [
+      "rules",
+      [
+        await checkWritable("Storage", rules, "rules.storagePath"),
+        await checkJsonArray("Rules", join(rules, "rules.json"), emptied("Rules")),
+        await checkJsonArray("Categories", join(rules, "categories.json"), emptied("Rules")),
+      ],
+    ],
+  ];
+
+  const checks = groups.flatMap(([server, group]) => group.map(check => ({ server, ...check })));
+  const count = (status: CheckStatus) => checks.filter(check => check.status === status).length;
+  const summary = { pass: count("pass"), warn: count("warn"), fail: count("fail") };
+  return { workspace, checks, summary, healthy: summary.fail === 0 };
+}
@@ -0,0 +1,278 @@
+import { readdir, readFile, stat } from "fs/promises";
+import { join, posix } from "path";
+import { runCommand } from "../../shared/command-runner.js";
+import { isSecretKey, redactValue, SECRET_PATTERNS } from "../../shared/secrets.js";
+
+export type EnvType = "url" | "port" | "boolean" | "number" | "email" | "json" | "string";
+export type EnvStatus = "ok" | "missing" | "extra" | "invalid";
+
+export interface EnvEntry {
+  key: string;
+  value: string;
+  line: number;
+}
+
+export interface EnvFile {
+  path: string;
+  /** Templates like .env.example list the keys a project expects. */
+  template: boolean;
+  keys: number;
+  tracked: boolean;
+}
+
+export interface EnvVariable {
+  key: string;
+  type: EnvType;
+  secret: boolean;
+  status: EnvStatus;
+  /** Why an invalid value does not fit its type. */
+  problem?: string;
+  inProcessEnv: boolean;
+  /** Env files that define the key, templates included. */
+  files: string[];
+  /** Effective value with secrets redacted; null when the key is not set. */
+  value: string | null;
+  /** Where the effective value comes from: "process" or an env file. */
+  source: string | null;
+  /** The process environment sets a different value than the env files. */
+  overridden: boolean;
+}
+
+export interface CommittedSecret {
+  file: string;
+  line: number;
+  kind: string;
+}
+
+export interface EnvInspection {
+  root: string;
+  files: EnvFile[];
+  variables: EnvVariable[];
+  missing: string[];
+  extra: string[];
+  invalid: string[];
+  /** False outside a git repository, where nothing counts as committed. */
+  gitRepository: boolean;
+  scannedFiles: number;
+  committedSecrets: CommittedSecret[];
+}
+
+const ENV_FILE = /^\.env(\..+)?$/;
+const TEMPLATE_FILE = /^\.env\.(example|sample|template|dist)$/;
+/** Files scanned for generic `password = "..."` assignments besides env files; source code only for known token shapes. */
+const CONFIG_FILE = /\.(json|ya?ml|toml|ini|cfg|conf|properties|xml)$/i;
+const SKIPPED_FILE = /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|pnpm-lock\.yaml|yarn\.lock|Cargo\.lock|go\.sum|poetry\.lock|uv\.lock)$/;
+const PLACEHOLDER = /^(|changeme|change[-_]me|example|placeholder|secret|password|test|todo|none|null|xxx+|\*+|\.\.\.|<.*>|\$\{.*\}|\$[A-Z_]+|your[-_ ].*|.*[-_]here)$/i;
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:\/\//i;
+const MAX_SCANNED_FILES = 10_000;
+const MAX_SCANNED_BYTES = 512 * 1024;
+
+/**
+ * Entries of a dotenv file: `KEY=value` lines with an optional `export`,
+ * single, double or backtick quotes (double quotes may span lines and use
+ * \n escapes; an unterminated quote runs to the end of its line), and `#`
+ * comments after unquoted values.
+ */
+export function parseDotenv(text: string): EnvEntry[] {
+  const lines = text.split(/\r?\n/);
+  const entries: EnvEntry[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/.exec(lines[index]);
+    if (!match) continue;
+    const line = index + 1;
+    let raw = match[2];
+    const quote = raw[0];
+
+    if (quote === '"' || quote === "'" || quote === "`") {
+      const closed = new RegExp(`^${quote}((?:\\\\.|[^${quote}\\\\])*)${quote}`);
+      // Only double quotes span lines, and only when a closing quote follows;
+      // an unterminated value ends with its line rather than eating the file.
+      if (quote === '"' && !closed.test(raw) && closed.test([raw, ...lines.slice(index + 1)].join("\n"))) {
+        while (!closed.test(raw)) raw += `\n${lines[++index]}`;
+      }
+      const quoted = closed.exec(raw)?.[1] ?? raw.slice(1);
+      const value = quote === '"' ? quoted.replace(/\\n/g, "\n").replace(/\\(["\\])/g, "$1") : quoted;
+      entries.push({ key: match[1], value, line });
+    } else {
+      entries.push({ key: match[1], value: raw.replace(/\s+#.*$/, "").trim(), line });
+    }
+  }
+  return entries;
+}
+
+/** The type a variable is expected to hold, from its name first and its example value second. */
+export function expectedType(key: string, example: string): EnvType {
+  if (/(^|_)(URL|URI|ENDPOINT)$/i.test(key)) return "url";
+  if (/(^|_)PORT$/i.test(key)) return "port";
+  if (/^(ENABLE|DISABLE|USE|IS|HAS)_|_(ENABLED|DISABLED)$|^DEBUG$/i.test(key)) return "boolean";
+  if (URL_SCHEME.test(example)) return "url";
+  if (/^(true|false|yes|no|on|off)$/i.test(example)) return "boolean";
+  if (/^-?\d+(\.\d+)?$/.test(example)) return "number";
+  if (/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(example)) return "email";
+  if (/^[[{]/.test(example)) {
+    try {
+      JSON.parse(example);
+      return "json";
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return "string";
+}
+
+/** Why `value` does not fit `type`, or null when it does. */
+export function typeProblem(type: EnvType, value: string): string | null {
+  switch (type) {
+    case "url":
+      // new URL() alone would take host:port as a scheme and a path
+      if (!URL_SCHEME.test(value)) return "expected a URL";
+      try {
+        new URL(value);
+        return null;
+      } catch {
+        return "expected a URL";
+      }
+    case "port": {
+      const port = Number(value);
+      return Number.isInteger(port) && port >= 0 && port <= 65535 ? null : "expected a port between 0 and 65535";
+    }
+    case "boolean":
+      return /^(true|false|yes|no|on|off|1|0)$/i.test(value) ? null : "expected a boolean";
+    case "number":
+      return value.trim() !== "" && Number.isFinite(Number(value)) ? null : "expected a number";
+    case "email":
+      return /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value) ? null : "expected an email address";
+    case "json":
+      try {
+        JSON.parse(value);
+        return null;
+      } catch {
+        return "expected JSON";
+      }
+    case "string":
+      return null;
+  }
+}
+
+/** .env.local overrides .env, which overrides the per-environment files; templates come last. */
+function filePrecedence(name: string): number {
+  if (TEMPLATE_FILE.test(name)) return 3;
+  return name === ".env.local" ? 0 : name === ".env" ? 1 : 2;
+}
+
+async function trackedFiles(root: string, signal?: AbortSignal): Promise<string[] | null> {
+  try {
+    const { stdout } = await runCommand("git", ["ls-files", "-z"], { cwd: root, signal, maxBuffer: 64 * 1024 * 1024 });
+    return stdout.split("\0").filter(Boolean);
+  } catch {
+    signal?.throwIfAborted();
+    return null;
+  }
+}
+
+/**
+ * Lines of a tracked file that hold a credential: a known token shape
+ * anywhere, or a non-placeholder value under a secret-looking key in env and
+ * config files.
+ */
+export function findSecrets(file: string, text: string): CommittedSecret[] {
+  const findings: CommittedSecret[] = [];
+  const envFile = ENV_FILE.test(posix.basename(file));
+  const configFile = envFile || CONFIG_FILE.test(file);
+  const assignment = /["']?([\w.-]+)["']?\s*[:=]\s*["']?([^"'\s,#]+)/;
+
+  text.split(/\r?\n/).forEach((content, index) => {
+    const known = SECRET_PATTERNS.find(({ pattern }) => pattern.test(content));
+    if (known) {
+      findings.push({ file, line: index + 1, kind: known.kind });
+      return;
+    }
+    const value = configFile ? assignment.exec(content) : null;
+    if (value && isSecretKey(value[1]) && value[2].length >= 8 && !PLACEHOLDER.test(value[2])) {
+      findings.push({ file, line: index + 1, kind: envFile ? "Secret in env file" : "Secret in config file" });
+    }
+  });
+  return findings;
+}
+
+async function scanForSecrets(root: string, files: string[], signal?: AbortSignal): Promise<CommittedSecret[]> {
+  const findings: CommittedSecret[] = [];
+  for (const file of files) {
+    signal?.throwIfAborted();
+    if (SKIPPED_FILE.test(file)) continue;
+    const path = join(root, file);
+    const size = await stat(path).then(stats => (stats.isFile() ? stats.size : -1), () => -1);
+    if (size < 0 || size > MAX_SCANNED_BYTES) continue;
+    const text = await readFile(path, "utf-8").catch(() => "");
+    if (text.includes("\0")) continue;
+    findings.push(...findSecrets(file, text));
+  }
+  return findings;
+}
+
+/**
+ * Compares the env files in `root` with the process environment: keys the
+ * templates expect that nothing sets, keys the env files set that no
+ * template mentions, and values that do not fit the type the key name or
+ * template suggests. Values are redacted where they look secret, and the
+ * tracked files are scanned for committed credentials.
+ */
+export async function inspectEnv(root: string, env: NodeJS.ProcessEnv, signal?: AbortSignal): Promise<EnvInspection> {
+  const names = (await readdir(root).catch(() => [] as string[]))
+    .filter(name => ENV_FILE.test(name))
+    .sort((a, b) => filePrecedence(a) - filePrecedence(b) || a.localeCompare(b));
+  const tracked = await trackedFiles(root, signal);
+  const trackedSet = new Set(tracked ?? []);
+
+  const parsed = await Promise.all(names.map(async name => ({
+    name,
+    template: TEMPLATE_FILE.test(name),
+    entries: parseDotenv(await readFile(join(root, name), "utf-8").catch(() => "")),
+  })));
+  const templates = parsed.filter(file => file.template);
+  const keys = [...new Set(parsed.flatMap(file => file.entries.map(entry => entry.key)))];
+
+  const variables = keys.map((key): EnvVariable => {
+    const definedIn = parsed.filter(file => file.entries.some(entry => entry.key === key));
+    const valueIn = (file: (typeof parsed)[number]) => file.entries.filter(entry => entry.key === key).at(-1)!.value;
+    const setFile = definedIn.find(file => !file.template && valueIn(file) !== "");
+    const example = templates.filter(file => definedIn.includes(file)).map(valueIn).find(Boolean) ?? "";
+    const processValue = env[key];
+    const value = processValue ?? (setFile ? valueIn(setFile) : undefined);
+    const type = expectedType(key, example || (value ?? ""));
+    const problem = value ? typeProblem(type, value) : null;
+    const expected = templates.length === 0 || templates.some(file => definedIn.includes(file));
+
+    return {
+      key,
+      type,
+      secret: isSecretKey(key),
+      status: !value ? (expected ? "missing" : "ok") : !expected ? "extra" : problem ? "invalid" : "ok",
+      ...(problem && { problem }),
+      inProcessEnv: processValue !== undefined,
+      files: definedIn.map(file => file.name),
+      value: value ? redactValue(key, value) : null,
+      source: processValue !== undefined ? "process" : setFile?.name ?? null,
+      overridden: processValue !== undefined && setFile !== undefined && valueIn(setFile) !== processValue,
+    };
+  });
+
+  const scanned = (tracked ?? []).slice(0, MAX_SCANNED_FILES);
+  return {
+    root,
+    files: parsed.map(file => ({
+      path: file.name,
+      template: file.template,
+      keys: new Set(file.entries.map(entry => entry.key)).size,
+      tracked: trackedSet.has(file.name),
+    })),
+    variables,
+    missing: variables.filter(variable => variable.status === "missing").map(variable => variable.key),
+    extra: variables.filter(variable => variable.status === "extra").map(variable => variable.key),
+    invalid: variables.filter(variable => variable.status === "invalid").map(variable => variable.key),
+    gitRepository: tracked !== null,
+    scannedFiles: scanned.length,
+    committedSecrets: await scanForSecrets(root, scanned, signal),
+  };
+}
@@ -0,0 +1,601 @@
+import { existsSync, readFileSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, isAbsolute, join, resolve } from "path";
+import { fileURLToPath } from "url";
+import { isSecretKey, REDACTED, redactArgs, redactValue, secretKind } from "../../shared/secrets.js";
+
+export type ConfigScope = "user" | "project";
+
+export interface McpClientConfigFile {
+  /** Relative to the home directory, or to the workspace for project configs. */
+  path: string;
+  scope: ConfigScope;
+  format: "json" | "toml";
+  /** Key of the JSON object that holds the servers; VS Code uses "servers". */
+  key?: "mcpServers" | "servers";
+}
+
+export interface McpClientSpec {
+  id: string;
+  name: string;
+  configs: McpClientConfigFile[];
+}
+
+export interface McpServerEntry {
+  name: string;
+  command: string | null;
+  args: string[];
+  url: string | null;
+  /** Names of the environment variables it sets; their values may be secret. */
+  env: string[];
+}
+
+export interface RegisteredServer extends McpServerEntry {
+  /** Servers of this collection the entry starts. */
+  collection: string[];
+  /** The entry script of this collection it runs, if any. */
+  script: string | null;
+  /** The script is this installation's built entry point. */
+  upToDate: boolean;
+}
+
+export interface ClientConfig {
+  client: string;
+  path: string;
+  scope: ConfigScope;
+  servers: RegisteredServer[];
+  error?: string;
+}
+
+export interface CollectionServerStatus {
+  server: string;
+  registered: boolean;
+  /** At least one registration runs this installation's build. */
+  upToDate: boolean;
+  registrations: { client: string; path: string; name: string; upToDate: boolean }[];
+}
+
+export interface McpClientReport {
+  packageRoot: string;
+  /** Whether `npm run build` has produced the entry points. */
+  built: boolean;
+  configs: ClientConfig[];
+  collection: CollectionServerStatus[];
+}
+
+export interface RegistrationEntry {
+  name: string;
+  servers: string[];
+  command: string;
+  args: string[];
+}
+
+export interface Registration {
+  client: string;
+  path: string;
+  scope: ConfigScope;
+  format: "json" | "toml";
+  entries: RegistrationEntry[];
+  built: boolean;
+  created: boolean;
+  changed: boolean;
+  applied: boolean;
+  /** Unified diff of the change with secret values redacted; empty when the file is already up to date. */
+  diff: string;
+}
+
+/** Keys of the servers in this collection, matching dist/servers/<key>/index.js. */
+export const COLLECTION_SERVERS = ["info", "git-runner", "memory", "github", "rules"];
+
+const PACKAGE_NAME = "ais-mcpserver";
+/** The package root, three levels up from src/servers/info or dist/servers/info. */
+export const PACKAGE_ROOT = fileURLToPath(new URL("../../../", import.meta.url)).replace(/[\\/]$/, "");
+
+const CLAUDE_DESKTOP_CONFIG =
+  process.platform === "darwin"
+    ? join("Library", "Application Support", "Claude", "claude_desktop_config.json")
+    : process.platform === "win32"
+      ? join("AppData", "Roaming", "Claude", "claude_desktop_config.json")
+      : join(".config", "Claude", "claude_desktop_config.json");
+
+export const MCP_CLIENTS: McpClientSpec[] = [
+  {
+    id: "claude-code",
+    name: "Claude Code",
+    configs: [
+      { path: ".claude.json", scope: "user", format: "json" },
+      { path: ".mcp.json", scope: "project", format: "json" },
+    ],
+  },
+  {
+    id: "claude-desktop",
+    name: "Claude Desktop",
+    configs: [{ path: CLAUDE_DESKTOP_CONFIG, scope: "user", format: "json" }],
+  },
+  {
+    id: "codex",
+    name: "Codex CLI",
+    configs: [{ path: join(".codex", "config.toml"), scope: "user", format: "toml" }],
+  },
+  {
+    id: "gemini-cli",
+    name: "Gemini CLI",
+    configs: [
+      { path: join(".gemini", "settings.json"), scope: "user", format: "json" },
+      { path: join(".gemini", "settings.json"), scope: "project", format: "json" },
+    ],
+  },
+  {
+    id: "qwen-code",
+    name: "Qwen Code",
+    configs: [
+      { path: join(".qwen", "settings.json"), scope: "user", format: "json" },
+      { path: join(".qwen", "settings.json"), scope: "project", format: "json" },
+    ],
+  },
+  {
+    id: "cursor",
+    name: "Cursor",
+    configs: [
+      { path: join(".cursor", "mcp.json"), scope: "user", format: "json" },
+      { path: join(".cursor", "mcp.json"), scope: "project", format: "json" },
+    ],
+  },
+  {
+    id: "vscode",
+    name: "VS Code",
+    configs: [{ path: join(".vscode", "mcp.json"), scope: "project", format: "json", key: "servers" }],
+  },
+  {
+    id: "windsurf",
+    name: "Windsurf",
+    configs: [{ path: join(".codeium", "windsurf", "mcp_config.json"), scope: "user", format: "json" }],
+  },
+];
+
+export function findMcpClient(id: string): McpClientSpec {
+  const client = MCP_CLIENTS.find(spec => spec.id === id);
+  if (!client) {
+    throw new Error(`Unknown MCP client: ${id} (expected one of ${MCP_CLIENTS.map(spec => spec.id).join(", ")})`);
+  }
+  return client;
+}
+
+export function configFilePath(spec: McpClientConfigFile, options: { workspace: string; home: string }): string {
+  return join(spec.scope === "user" ? options.home : options.workspace, spec.path);
+}
+
+const TOML_STRING = /"(?:\\.|[^"\\])*"|'[^']*'/g;
+
+function tomlString(raw: string): string {
+  return raw.startsWith("'") ? raw.slice(1, -1) : JSON.parse(raw);
+}
+
+function tomlKey(name: string): string {
+  return /^[\w-]+$/.test(name) ? name : JSON.stringify(name);
+}
+
+/** The `[mcp_servers.<name>]` table header a line opens, with the subtable (e.g. "env") if any. */
+function tomlServerHeader(line: string): { name: string; subtable?: string } | null {
+  const match = /^\s*\[\s*mcp_servers\.(?:"((?:\\.|[^"\\])*)"|([\w-]+))(?:\.([\w-]+))?\s*\]\s*(#.*)?$/.exec(line);
+  if (!match) return null;
+  return { name: match[2] ?? JSON.parse(`"${match[1]}"`), ...(match[3] && { subtable: match[3] }) };
+}
+
+/**
+ * Servers in Codex's `[mcp_servers.<name>]` tables. Only the keys that
+ * describe how a server starts are read: `command`, `args` (arrays may span
+ * lines), `url` and the names under `env`.
+ */
+function parseTomlServers(text: string): McpServerEntry[] {
+  const servers = new Map<string, McpServerEntry>();
+  let current: { entry: McpServerEntry; subtable?: string } | null = null;
+  const lines = text.split(/\r?\n/);
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (/^\s*\[/.test(line)) {
+      const header = tomlServerHeader(line);
+      const entry = header && (servers.get(header.name) ?? { name: header.name, command: null, args: [], url: null, env: [] });
+      if (entry) servers.set(entry.name, entry);
+      current = entry ? { entry, subtable: header?.subtable } : null;
+      continue;
+    }
+    const match = /^\s*([\w-]+)\s*=\s*(.*)$/.exec(line);
+    if (!current || !match) continue;
+
+    let value = match[2];
+    while (value.startsWith("[") && !/\]\s*(#.*)?$/.test(value) && index + 1 < lines.length) {
+      value += lines[++index];
+    }
+    const { entry, subtable } = current;
+    if (subtable === "env") entry.env.push(match[1]);
+    else if (subtable) continue;
+    else if (match[1] === "command") entry.command = tomlString(value.match(TOML_STRING)?.[0] ?? '""');
+    else if (match[1] === "url") entry.url = tomlString(value.match(TOML_STRING)?.[0] ?? '""');
+    else if (match[1] === "args") entry.args = (value.match(TOML_STRING) ?? []).map(tomlString);
+    else if (match[1] === "env") entry.env.push(...[...value.matchAll(/([\w-]+)\s*=/g)].map(env => env[1]));
+  }
+  return [...servers.values()];
+}
+
+function jsonServers(servers: unknown): McpServerEntry[] {
+  return Object.entries((servers ?? {}) as Record<string, Record<string, any>>).map(([name, server]) => ({
+    name,
+    command: typeof server?.command === "string" ? server.command : null,
+    args: Array.isArray(server?.args) ? server.args.map(String) : [],
+    url: server?.url ?? server?.httpUrl ?? server?.serverUrl ?? null,
+    env: Object.keys(server?.env ?? {}),
+  }));
+}
+
+/**
+ * Servers registered in an MCP client config file. JSON configs keep them
+ * under `mcpServers` (VS Code: `servers`); ~/.claude.json also keeps them per
+ * project. Codex uses `[mcp_servers.<name>]` tables.
+ */
+export function parseMcpConfig(text: string, spec: McpClientConfigFile, workspace: string): McpServerEntry[] {
+  if (spec.format === "toml") {
+    return parseTomlServers(text);
+  }
+  const config = JSON.parse(text);
+  const key = spec.key ?? "mcpServers";
+  return [...jsonServers(config[key]), ...jsonServers(config.projects?.[workspace]?.[key])];
+}
+
+function isCollectionPackage(root: string): boolean {
+  try {
+    return JSON.parse(readFileSync(join(root, "package.json"), "utf-8")).name === PACKAGE_NAME;
+  } catch {
+    return false;
+  }
+}
+
+/** Where a server of this collection, or the combined entrypoint without `server`, is built. */
+export function entryPoint(packageRoot: string, server?: string): string {
+  return server ? join(packageRoot, "dist", "servers", server, "index.js") : join(packageRoot, "dist", "index.js");
+}
+
+/** Servers a combined entrypoint is told to host with --servers or --<server>; all of them by default. */
+function combinedServers(args: string[]): string[] {
+  const selected = new Set<string>();
+  args.forEach((arg, index) => {
+    const list = arg === "--servers" ? args[index + 1] : /^--servers=(.*)$/.exec(arg)?.[1];
+    list?.split(",").map(key => key.trim()).forEach(key => selected.add(key));
+    if (arg.startsWith("--") && COLLECTION_SERVERS.includes(arg.slice(2))) selected.add(arg.slice(2));
+  });
+  return selected.size > 0 ? COLLECTION_SERVERS.filter(key => selected.has(key)) : COLLECTION_SERVERS;
+}
+
+/**
+ * Which servers of this collection an entry starts: `node .../dist/servers/<key>/index.js`,
+ * or `.../dist/index.js` of this package with its server selection. `upToDate`
+ * means the script is this installation's build and exists.
+ */
+export function matchCollection(
+  entry: McpServerEntry,
+  options: { packageRoot: string; workspace: string }
+): Pick<RegisteredServer, "collection" | "script" | "upToDate"> {
+  const candidates = [entry.command ?? "", ...entry.args];
+  for (const [index, candidate] of candidates.entries()) {
+    const match = /(?:^|[\\/])dist[\\/](?:servers[\\/]([\w-]+)[\\/])?index\.js$/.exec(candidate);
+    if (!match) continue;
+    const script = isAbsolute(candidate) ? candidate : resolve(options.workspace, candidate);
+    const root = resolve(dirname(script), match[1] ? "../../.." : "..");
+    if (match[1] ? !COLLECTION_SERVERS.includes(match[1]) : root !== options.packageRoot && !isCollectionPackage(root)) {
+      continue;
+    }
+    const expected = entryPoint(options.packageRoot, match[1]);
+    return {
+      collection: match[1] ? [match[1]] : combinedServers(candidates.slice(index + 1)),
+      script: candidate,
+      upToDate: script === expected && existsSync(expected),
+    };
+  }
+  return { collection: [], script: null, upToDate: false };
+}
+
+/**
+ * The MCP client config files that exist for this workspace, the servers
+ * each registers, and whether every server of this collection is registered
+ * somewhere with the entry point this installation built. Argument values
+ * that look secret are redacted.
+ */
+export async function inspectMcpClients(options: {
+  workspace: string;
+  home: string;
+  packageRoot?: string;
+}): Promise<McpClientReport> {
+  const packageRoot = options.packageRoot ?? PACKAGE_ROOT;
+  const configs: ClientConfig[] = [];
+
+  for (const client of MCP_CLIENTS) {
+    for (const spec of client.configs) {
+      const path = configFilePath(spec, options);
+      if (!existsSync(path) || configs.some(config => config.path === path && config.client === client.name)) continue;
+      try {
+        const entries = parseMcpConfig(await readFile(path, "utf-8"), spec, options.workspace);
+        const servers = entries.map(entry => ({
+          ...entry,
+          args: redactArgs(entry.args),
+          url: entry.url && redactValue("url", entry.url),
+          ...matchCollection(entry, { packageRoot, workspace: options.workspace }),
+        }));
+        configs.push({ client: client.name, path, scope: spec.scope, servers });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        configs.push({ client: client.name, path, scope: spec.scope, servers: [], error: message });
+      }
+    }
+  }
+
+  const collection = COLLECTION_SERVERS.map((server): CollectionServerStatus => {
+    const registrations = configs.flatMap(config =>
+      config.servers
+        .filter(entry => entry.collection.includes(server))
+        .map(entry => ({ client: config.client, path: config.path, name: entry.name, upToDate: entry.upToDate }))
+    );
+    return {
+      server,
+      registered: registrations.length > 0,
+      upToDate: registrations.some(registration => registration.upToDate),
+      registrations,
+    };
+  });
+
+  return { packageRoot, built: existsSync(entryPoint(packageRoot)), configs, collection };
+}
+
+/**
+ * A minimal unified diff with one hunk spanning the first to the last changed
+ * line, which is what patching a single config file produces.
+ */
+export function unifiedDiff(path: string, before: string, after: string): string {
+  if (before === after) return "";
+  const lines = (text: string) => (text === "" ? [] : text.replace(/\n$/, "").split("\n"));
+  const a = lines(before);
+  const b = lines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const from = Math.max(0, start - 3);
+  const trailing = a.slice(a.length - end, a.length - end + 3);
+  const hunk = [
+    ...a.slice(from, start).map(line => ` ${line}`),
+    ...a.slice(start, a.length - end).map(line => `-${line}`),
+    ...b.slice(start, b.length - end).map(line => `+${line}`),
+    ...trailing.map(line => ` ${line}`),
+  ];
+  const oldLength = a.length - end - from + trailing.length;
+  const newLength = b.length - end - from + trailing.length;
+  const range = (length: number) => `${length === 0 ? from : from + 1},${length}`;
+
+  return [
+    before === "" ? "--- /dev/null" : `--- ${path}`,
+    `+++ ${path}`,
+    `@@ -${range(oldLength)} +${range(newLength)} @@`,
+    ...hunk,
+    "",
+  ].join("\n");
+}
+
+/** A line of a config file with quoted secret values redacted, e.g. the env of a neighbouring server. */
+function redactLine(line: string): string {
+  return line.replace(/("?)([\w.-]+)\1(\s*[:=]\s*)(["'])((?:\\.|(?!\4)[^\\])*)\4/g, (all, quote, key, separator, mark, value) =>
+    isSecretKey(key) || secretKind(value) ? `${quote}${key}${quote}${separator}${mark}${REDACTED}${mark}` : all
+  );
+}
+
+/** Offset just past the JSON string literal that opens at `start`. */
+function jsonStringEnd(text: string, start: number): number {
+  let index = start + 1;
+  while (text[index] !== '"') index += text[index] === "\\" ? 2 : 1;
+  return index + 1;
+}
+
+/** Offset just past the JSON value that starts at `start`. */
+function jsonValueEnd(text: string, start: number): number {
+  if (text[start] === '"') return jsonStringEnd(text, start);
+  if (text[start] !== "{" && text[start] !== "[") {
+    let index = start;
+    while (index < text.length && !/[\s,}\]]/.test(text[index])) index++;
+    return index;
+  }
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (char === '"') index = jsonStringEnd(text, index) - 1;
+    else if (char === "{" || char === "[") depth++;
+    else if ((char === "}" || char === "]") && --depth === 0) return index + 1;
+  }
+  return text.length;
+}
+
+/** Members of the JSON object whose `{` is at `open`, with the offsets of their values. */
+function jsonMembers(text: string, open: number) {
+  const members: { name: string; start: number; end: number }[] = [];
+  const skip = (index: number) => {
+    while (/\s/.test(text[index])) index++;
+    return index;
+  };
+  let index = skip(open + 1);
+  while (text[index] === '"') {
+    const nameEnd = jsonStringEnd(text, index);
+    const start = skip(skip(nameEnd) + 1);
+    const end = jsonValueEnd(text, start);
+    members.push({ name: JSON.parse(text.slice(index, nameEnd)), start, end });
+    index = skip(end);
+    if (text[index] === ",") index = skip(index + 1);
+  }
+  return { members, close: index };
+}
+
+/**
+ * Sets `name` in the JSON object whose `{` is at `open` and that sits `depth`
+ * levels deep, replacing only that member's value so the rest of the file
+ * keeps its formatting.
+ */
+function setJsonMember(text: string, open: number, depth: number, name: string, value: unknown, indent: string): string {
+  const serialized = JSON.stringify(value, null, indent).replace(/\n/g, `\n${indent.repeat(depth + 1)}`);
+  const { members, close } = jsonMembers(text, open);
+  const member = members.find(candidate => candidate.name === name);
+  if (member) {
+    return text.slice(0, member.start) + serialized + text.slice(member.end);
+  }
+  const line = `\n${indent.repeat(depth + 1)}${JSON.stringify(name)}: ${serialized}`;
+  const last = members[members.length - 1];
+  return last
+    ? `${text.slice(0, last.end)},${line}${text.slice(last.end)}`
+    : `${text.slice(0, open + 1)}${line}\n${indent.repeat(depth)}${text.slice(close)}`;
+}
+
+/**
+ * Points each entry's server at this installation by rewriting only those
+ * servers' values in the file, so other servers, settings and formatting
+ * are left as they were.
+ */
+function patchJson(text: string, spec: McpClientConfigFile, entries: RegistrationEntry[]): string {
+  const key = spec.key ?? "mcpServers";
+  const isObject = (value: unknown) => typeof value === "object" && value !== null && !Array.isArray(value);
+  const config = text.trim() ? JSON.parse(text) : {};
+  if (!isObject(config) || (key in config && !isObject(config[key]))) {
+    throw new Error(`expected a JSON object with a "${key}" object`);
+  }
+  const indent = /^([ \t]+)"/m.exec(text)?.[1] ?? "  ";
+  let patched = text.trim() ? text : "{}\n";
+
+  const root = patched.indexOf("{");
+  if (!jsonMembers(patched, root).members.some(member => member.name === key)) {
+    patched = setJsonMember(patched, root, 0, key, {}, indent);
+  }
+  for (const entry of entries) {
+    const servers = jsonMembers(patched, root).members.find(member => member.name === key)!;
+    const server = { ...config[key]?.[entry.name], command: entry.command, args: entry.args };
+    delete server.url;
+    if (spec.key === "servers" || server.type) server.type = "stdio";
+    patched = setJsonMember(patched, servers.start, 1, entry.name, server, indent);
+  }
+  return patched;
+}
+
+/** Rewrites `command` and `args` of each `[mcp_servers.<name>]` table, appending tables that do not exist yet. */
+function patchToml(text: string, entries: RegistrationEntry[]): string {
+  const lines = text === "" ? [] : text.replace(/\n$/, "").split("\n");
+  for (const entry of entries) {
+    const settings = [`command = ${JSON.stringify(entry.command)}`, `args = [${entry.args.map(arg => JSON.stringify(arg)).join(", ")}]`];
+    const start = lines.findIndex(line => {
+      const header = tomlServerHeader(line);
+      return header?.name === entry.name && !header.subtable;
+    });
+    if (start < 0) {
+      if (lines.length > 0 && lines[lines.length - 1].trim() !== "") lines.push("");
+      lines.push(`[mcp_servers.${tomlKey(entry.name)}]`, ...settings);
+      continue;
+    }
+
+    let end = start + 1;
+    while (end < lines.length && !/^\s*\[/.test(lines[end])) end++;
+    const kept: string[] = [];
+    for (let index = start + 1; index < end; index++) {
+      const key = /^\s*([\w-]+)\s*=\s*(.*)$/.exec(lines[index]);
+      if (key?.[1] === "command" || key?.[1] === "url" || key?.[1] === "args") {
+        // Skip the continuation lines of a multi-line array
+        while (key[2].startsWith("[") && !/\]\s*(#.*)?$/.test(lines[index]) && index + 1 < end) index++;
+        continue;
+      }
+      kept.push(lines[index]);
+    }
+    lines.splice(start + 1, end - start - 1, ...settings, ...kept);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** The client and config file registerMcpServers patches; the workspace one unless `scope` asks otherwise. */
+export function registrationTarget(options: { client: string; scope?: ConfigScope; workspace: string; home: string }) {
+  const client = findMcpClient(options.client);
+  const spec = options.scope
+    ? client.configs.find(config => config.scope === options.scope)
+    : client.configs.find(config => config.scope === "project") ?? client.configs[0];
+  if (!spec) {
+    throw new Error(`${client.name} has no ${options.scope} config file; use scope "${client.configs[0].scope}"`);
+  }
+  return { client, spec, path: configFilePath(spec, options) };
+}
+
+/**
+ * Adds this collection's servers to a client's config file, or points
+ * existing entries for them at this installation's build. Each server gets
+ * its own `ais-<server>` entry unless `combined` asks for one entry running
+ * the combined entrypoint; entries that already start the same servers keep
+ * their names. Nothing is written when `dryRun` is set.
+ */
+export async function registerMcpServers(options: {
+  client: string;
+  scope?: ConfigScope;
+  servers?: string[];
+  combined?: boolean;
+  dryRun: boolean;
+  workspace: string;
+  home: string;
+  packageRoot?: string;
+}): Promise<Registration> {
+  const packageRoot = options.packageRoot ?? PACKAGE_ROOT;
+  const { client, spec, path } = registrationTarget(options);
+  const servers = options.servers?.length ? COLLECTION_SERVERS.filter(key => options.servers!.includes(key)) : COLLECTION_SERVERS;
+
+  const created = !existsSync(path);
+  const before = created ? "" : await readFile(path, "utf-8");
+  if (spec.format === "json" && before.trim()) {
+    try {
+      JSON.parse(before);
+    } catch (error) {
+      throw new Error(
+        `${path} is not plain JSON (${error instanceof Error ? error.message : error}); ` +
+          "files with comments or trailing commas are not rewritten, so add the entries by hand"
+      );
+    }
+  }
+  const existing = before.trim() ? parseMcpConfig(before, spec, options.workspace) : [];
+  const existingName = (collection: string[], fallback: string) =>
+    existing.find(entry => {
+      const match = matchCollection(entry, { packageRoot, workspace: options.workspace });
+      return match.collection.length > 0 && match.collection.join() === collection.join() && Boolean(match.script);
+    })?.name ?? fallback;
+
+  const entries: RegistrationEntry[] = options.combined
+    ? [{
+        name: existingName(servers, "ais-mcpserver"),
+        servers,
+        command: "node",
+        args: [entryPoint(packageRoot), "--servers", servers.join(",")],
+      }]
+    : servers.map(server => ({
+        name: existingName([server], `ais-${server}`),
+        servers: [server],
+        command: "node",
+        args: [entryPoint(packageRoot, server)],
+      }));
+
+  const content = spec.format === "toml" ? patchToml(before, entries) : patchJson(before, spec, entries);
+  const changed = content !== before;
+  if (changed && !options.dryRun) {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content);
+  }
+
+  return {
+    client: client.name,
+    path,
+    scope: spec.scope,
+    format: spec.format,
+    entries,
+    built: existsSync(entryPoint(packageRoot)),
+    created,
+    changed,
+    applied: changed && !options.dryRun,
+    diff: unifiedDiff(path, before, content).split("\n").map(redactLine).join("\n"),
+  };
+}
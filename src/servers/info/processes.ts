@@ -0,0 +1,312 @@
+import { existsSync } from "fs";
+import { readdir, readFile, readlink } from "fs/promises";
+import { CommandError, findExecutable, runCommand } from "../../shared/command-runner.js";
+import { isInside } from "../../shared/roots.js";
+import { redactArgs } from "../../shared/secrets.js";
+
+export interface ListeningPort {
+  protocol: "tcp" | "udp";
+  address: string;
+  port: number;
+  /** Null when the socket belongs to a process this user cannot inspect. */
+  pid: number | null;
+  command: string | null;
+  cwd: string | null;
+  /** The owning process runs inside the workspace. */
+  inWorkspace: boolean;
+}
+
+export interface WorkspaceProcess {
+  pid: number;
+  ppid: number;
+  command: string;
+  cwd: string;
+  /** Ports the process listens on. */
+  ports: number[];
+}
+
+export interface Container {
+  runtime: string;
+  id: string;
+  name: string;
+  image: string;
+  status: string;
+  /** Host ports the container publishes. */
+  ports: number[];
+}
+
+export interface ContainerRuntime {
+  name: string;
+  /** Why `ps` failed, e.g. because the daemon is not running. */
+  error?: string;
+}
+
+export interface ProcessReport {
+  workspace: string;
+  /** Where the ports came from: /proc on Linux, lsof elsewhere, or null when neither is available. */
+  source: "proc" | "lsof" | null;
+  ports: ListeningPort[];
+  processes: WorkspaceProcess[];
+  containers: Container[];
+  /** Container CLIs found on PATH. */
+  runtimes: ContainerRuntime[];
+}
+
+interface ProcessInfo {
+  pid: number;
+  ppid: number;
+  command: string;
+  cwd: string | null;
+}
+
+interface Socket {
+  protocol: "tcp" | "udp";
+  address: string;
+  port: number;
+  inode: string;
+}
+
+const CONTAINER_RUNTIMES = ["docker", "podman"];
+/** Placeholders both docker and podman understand. */
+const CONTAINER_FORMAT = "{{.ID}}\t{{.Names}}\t{{.Image}}\t{{.Status}}\t{{.Ports}}";
+const CONTAINER_TIMEOUT_MS = 10_000;
+const TCP_LISTEN = "0A";
+/** TCP_CLOSE, which the kernel reports for bound, unconnected UDP sockets. */
+const UDP_UNCONNECTED = "07";
+
+/** An address from /proc/net, which prints each 32-bit word in host (little-endian) byte order. */
+export function decodeProcAddress(hex: string): string {
+  const bytes = (hex.match(/.{8}/g) ?? []).flatMap(word => (word.match(/../g) ?? []).reverse().map(byte => parseInt(byte, 16)));
+  if (bytes.length === 4) return bytes.join(".");
+  if (bytes.slice(0, 10).every(byte => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff) {
+    return `::ffff:${bytes.slice(12).join(".")}`;
+  }
+
+  const groups = Array.from({ length: 8 }, (_, index) => ((bytes[index * 2] << 8) | bytes[index * 2 + 1]).toString(16));
+  // Collapse the longest run of zero groups into "::"
+  let best = { start: -1, length: 1 };
+  for (let start = 0; start < groups.length; start++) {
+    let length = 0;
+    while (groups[start + length] === "0") length++;
+    if (length > best.length) best = { start, length };
+  }
+  if (best.start < 0) return groups.join(":");
+  return `${groups.slice(0, best.start).join(":")}::${groups.slice(best.start + best.length).join(":")}`;
+}
+
+/** Listening sockets in /proc/net/{tcp,tcp6,udp,udp6}. */
+export function parseProcNet(text: string, protocol: "tcp" | "udp"): Socket[] {
+  return text
+    .split("\n")
+    .slice(1)
+    .map(line => line.trim().split(/\s+/))
+    .filter(fields => fields.length >= 10 && fields[3] === (protocol === "tcp" ? TCP_LISTEN : UDP_UNCONNECTED))
+    .map(fields => {
+      const [address, port] = fields[1].split(":");
+      return { protocol, address: decodeProcAddress(address), port: parseInt(port, 16), inode: fields[9] };
+    });
+}
+
+/**
+ * Listening sockets in `lsof -F pcPn` output, which prints a `p` line per
+ * process followed by its command and, per socket, the protocol and name.
+ */
+export function parseLsof(text: string): (Omit<Socket, "inode"> & { pid: number; command: string })[] {
+  const sockets: (Omit<Socket, "inode"> & { pid: number; command: string })[] = [];
+  let pid = 0;
+  let command = "";
+  let protocol: "tcp" | "udp" | null = null;
+
+  for (const line of text.split("\n")) {
+    const value = line.slice(1);
+    if (line[0] === "p") pid = Number(value);
+    else if (line[0] === "c") command = value;
+    else if (line[0] === "P") protocol = value === "TCP" ? "tcp" : value === "UDP" ? "udp" : null;
+    else if (line[0] === "n" && protocol && !value.includes("->")) {
+      const match = /^\[?(.*?)\]?:(\d+)$/.exec(value);
+      if (match) sockets.push({ protocol, address: match[1], port: Number(match[2]), pid, command });
+    }
+  }
+  return sockets;
+}
+
+/** Host ports in the Ports column of `docker ps`, e.g. "0.0.0.0:5432->5432/tcp, :::8000-8001->8000-8001/tcp". */
+export function publishedPorts(ports: string): number[] {
+  const published = new Set<number>();
+  for (const match of ports.matchAll(/:(\d+)(?:-(\d+))?->/g)) {
+    const first = Number(match[1]);
+    const last = match[2] ? Math.min(Number(match[2]), first + 100) : first;
+    for (let port = first; port <= last; port++) published.add(port);
+  }
+  return [...published].sort((a, b) => a - b);
+}
+
+async function readProcess(pid: number): Promise<ProcessInfo | null> {
+  try {
+    const [cmdline, stat] = await Promise.all([
+      readFile(`/proc/${pid}/cmdline`, "utf-8"),
+      readFile(`/proc/${pid}/stat`, "utf-8"),
+    ]);
+    // The name in parentheses may itself contain spaces and parentheses
+    const ppid = Number(stat.slice(stat.lastIndexOf(")") + 2).split(" ")[1]);
+    const args = cmdline.split("\0").filter(Boolean);
+    const command = args.length > 0 ? redactArgs(args).join(" ") : `[${/\((.*)\)/.exec(stat)?.[1] ?? pid}]`;
+    const cwd = await readlink(`/proc/${pid}/cwd`).catch(() => null);
+    return { pid, ppid, command, cwd };
+  } catch {
+    // Exited while we were looking
+    return null;
+  }
+}
+
+/** Maps socket inodes to the processes holding them, as far as this user may read their fds. */
+async function socketOwners(pids: number[], inodes: Set<string>, signal?: AbortSignal): Promise<Map<string, number>> {
+  const owners = new Map<string, number>();
+  for (const pid of pids) {
+    if (owners.size === inodes.size) break;
+    signal?.throwIfAborted();
+    const fds = await readdir(`/proc/${pid}/fd`).catch(() => [] as string[]);
+    for (const fd of fds) {
+      const inode = /^socket:\[(\d+)\]$/.exec(await readlink(`/proc/${pid}/fd/${fd}`).catch(() => ""))?.[1];
+      if (inode && inodes.has(inode) && !owners.has(inode)) owners.set(inode, pid);
+    }
+  }
+  return owners;
+}
+
+async function procReport(workspace: string, signal?: AbortSignal): Promise<Pick<ProcessReport, "ports" | "processes">> {
+  const pids = (await readdir("/proc")).filter(name => /^\d+$/.test(name)).map(Number);
+  const processes = new Map<number, ProcessInfo>();
+  for (const info of await Promise.all(pids.map(readProcess))) {
+    if (info) processes.set(info.pid, info);
+  }
+  signal?.throwIfAborted();
+
+  const sockets: Socket[] = [];
+  for (const file of ["tcp", "tcp6", "udp", "udp6"]) {
+    const text = await readFile(`/proc/net/${file}`, "utf-8").catch(() => "");
+    sockets.push(...parseProcNet(text, file.startsWith("tcp") ? "tcp" : "udp"));
+  }
+  const owners = await socketOwners([...processes.keys()], new Set(sockets.map(socket => socket.inode)), signal);
+
+  const ports = sockets.map((socket): ListeningPort => {
+    const owner = processes.get(owners.get(socket.inode) ?? -1);
+    return {
+      protocol: socket.protocol,
+      address: socket.address,
+      port: socket.port,
+      pid: owner?.pid ?? null,
+      command: owner?.command ?? null,
+      cwd: owner?.cwd ?? null,
+      inWorkspace: owner?.cwd ? isInside(workspace, owner.cwd) : false,
+    };
+  });
+
+  // This server and the agent that started it run in the workspace too, but are not what the caller is after
+  const own = new Set<number>();
+  for (let pid = process.pid; pid > 1 && !own.has(pid); pid = processes.get(pid)?.ppid ?? 0) own.add(pid);
+
+  return {
+    ports,
+    processes: [...processes.values()]
+      .filter(info => !own.has(info.pid) && info.cwd !== null && isInside(workspace, info.cwd))
+      .map(info => ({
+        pid: info.pid,
+        ppid: info.ppid,
+        command: info.command,
+        cwd: info.cwd!,
+        ports: [...new Set(ports.filter(port => port.pid === info.pid).map(port => port.port))].sort((a, b) => a - b),
+      })),
+  };
+}
+
+async function lsofPorts(path: string, signal?: AbortSignal): Promise<ListeningPort[]> {
+  let stdout: string;
+  try {
+    ({ stdout } = await runCommand(path, ["-nP", "-iTCP", "-sTCP:LISTEN", "-iUDP", "-F", "pcPn"], { signal }));
+  } catch (error) {
+    signal?.throwIfAborted();
+    // lsof exits with 1 when nothing matches
+    if (!(error instanceof CommandError && error.exitCode === 1)) throw error;
+    stdout = error.stdout;
+  }
+  return parseLsof(stdout).map(socket => ({ ...socket, cwd: null, inWorkspace: false }));
+}
+
+async function listContainers(
+  name: string,
+  path: string,
+  signal?: AbortSignal
+): Promise<{ runtime: ContainerRuntime; containers: Container[] }> {
+  try {
+    const { stdout } = await runCommand(path, ["ps", "--format", CONTAINER_FORMAT], { signal, timeoutMs: CONTAINER_TIMEOUT_MS });
+    const containers = stdout
+      .split("\n")
+      .filter(line => line.trim())
+      .map(line => {
+        const [id, names, image, status, ports = ""] = line.split("\t");
+        return { runtime: name, id, name: names, image, status, ports: publishedPorts(ports) };
+      });
+    return { runtime: { name }, containers };
+  } catch (error) {
+    signal?.throwIfAborted();
+    const message = error instanceof CommandError ? error.stderr.trim().split("\n")[0] || error.message : String(error);
+    return { runtime: { name, error: message }, containers: [] };
+  }
+}
+
+/**
+ * What runs on this machine that a workspace may collide with: listening
+ * TCP and UDP ports with the process holding each (read from /proc on Linux,
+ * from lsof elsewhere), processes whose working directory is inside the
+ * workspace, and docker or podman containers with their published ports.
+ * `port` and `name` narrow every list; command lines are redacted.
+ */
+export async function inspectProcesses(
+  workspace: string,
+  options: { port?: number; name?: string; signal?: AbortSignal } = {}
+): Promise<ProcessReport> {
+  let source: ProcessReport["source"] = null;
+  let ports: ListeningPort[] = [];
+  let processes: WorkspaceProcess[] = [];
+
+  if (existsSync("/proc/net/tcp")) {
+    source = "proc";
+    ({ ports, processes } = await procReport(workspace, options.signal));
+  } else {
+    const lsof = findExecutable("lsof");
+    if (lsof) {
+      source = "lsof";
+      ports = await lsofPorts(lsof, options.signal);
+    }
+  }
+
+  const found = CONTAINER_RUNTIMES.flatMap(name => {
+    const path = findExecutable(name);
+    return path ? [{ name, path }] : [];
+  });
+  const listed = await Promise.all(found.map(({ name, path }) => listContainers(name, path, options.signal)));
+  let containers = listed.flatMap(result => result.containers);
+
+  const { port, name } = options;
+  if (port !== undefined) {
+    ports = ports.filter(entry => entry.port === port);
+    processes = processes.filter(entry => entry.ports.includes(port));
+    containers = containers.filter(entry => entry.ports.includes(port));
+  }
+  if (name) {
+    const matches = (...values: (string | null)[]) => values.some(value => value?.toLowerCase().includes(name.toLowerCase()));
+    ports = ports.filter(entry => matches(entry.command));
+    processes = processes.filter(entry => matches(entry.command));
+    containers = containers.filter(entry => matches(entry.name, entry.image));
+  }
+
+  return {
+    workspace,
+    source,
+    ports: ports.sort((a, b) => a.port - b.port || a.protocol.localeCompare(b.protocol) || a.address.localeCompare(b.address)),
+    processes: processes.sort((a, b) => a.pid - b.pid),
+    containers,
+    runtimes: listed.map(result => result.runtime),
+  };
+}
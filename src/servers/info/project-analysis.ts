@@ -0,0 +1,553 @@
+import { existsSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import { join, posix } from "path";
+import YAML from "yaml";
+import { runCommand } from "../../shared/command-runner.js";
+
+export interface LanguageShare {
+  name: string;
+  files: number;
+  /** Share of the source files, not of all files. */
+  percent: number;
+}
+
+export interface PackageManagerUse {
+  name: string;
+  manifests: string[];
+  lockfiles: string[];
+}
+
+export interface Monorepo {
+  /** E.g. "pnpm workspaces", "Nx" or "Cargo workspace". */
+  tools: string[];
+  /** Package globs or directories the tools declare. */
+  workspaces: string[];
+}
+
+export interface DetectedFramework {
+  name: string;
+  category: string;
+  /** The manifest that depends on it. */
+  manifest: string;
+}
+
+export interface ProjectTask {
+  name: string;
+  command: string;
+  source: string;
+}
+
+export interface CiConfig {
+  service: string;
+  files: string[];
+}
+
+export interface ProjectAnalysis {
+  root: string;
+  /** "git" when git listed the files, "walk" when the directory was walked with .gitignore applied. */
+  listedBy: "git" | "walk";
+  files: number;
+  /** True when the project has more files than were looked at. */
+  truncated: boolean;
+  languages: LanguageShare[];
+  primaryLanguage: string | null;
+  packageManagers: PackageManagerUse[];
+  monorepo: Monorepo | null;
+  frameworks: DetectedFramework[];
+  primaryFramework: string | null;
+  tasks: ProjectTask[];
+  testCommands: string[];
+  lintCommands: string[];
+  ci: CiConfig[];
+}
+
+const MAX_FILES = 50_000;
+/** Manifests read per ecosystem when looking for frameworks. */
+const MAX_MANIFESTS = 200;
+const ALWAYS_SKIPPED = new Set([".git", "node_modules"]);
+
+const LANGUAGES: Record<string, string> = {
+  ".ts": "TypeScript",
+  ".tsx": "TypeScript",
+  ".mts": "TypeScript",
+  ".cts": "TypeScript",
+  ".js": "JavaScript",
+  ".jsx": "JavaScript",
+  ".mjs": "JavaScript",
+  ".cjs": "JavaScript",
+  ".py": "Python",
+  ".go": "Go",
+  ".rs": "Rust",
+  ".java": "Java",
+  ".kt": "Kotlin",
+  ".kts": "Kotlin",
+  ".scala": "Scala",
+  ".cs": "C#",
+  ".fs": "F#",
+  ".rb": "Ruby",
+  ".php": "PHP",
+  ".swift": "Swift",
+  ".m": "Objective-C",
+  ".c": "C",
+  ".h": "C",
+  ".cc": "C++",
+  ".cpp": "C++",
+  ".cxx": "C++",
+  ".hpp": "C++",
+  ".dart": "Dart",
+  ".ex": "Elixir",
+  ".exs": "Elixir",
+  ".erl": "Erlang",
+  ".hs": "Haskell",
+  ".clj": "Clojure",
+  ".lua": "Lua",
+  ".r": "R",
+  ".jl": "Julia",
+  ".zig": "Zig",
+  ".sh": "Shell",
+  ".bash": "Shell",
+  ".ps1": "PowerShell",
+  ".sql": "SQL",
+  ".vue": "Vue",
+  ".svelte": "Svelte",
+  ".html": "HTML",
+  ".css": "CSS",
+  ".scss": "SCSS",
+};
+
+const PACKAGE_MANAGERS: { name: string; manifests: string[]; lockfiles: string[] }[] = [
+  { name: "npm", manifests: [], lockfiles: ["package-lock.json", "npm-shrinkwrap.json"] },
+  { name: "pnpm", manifests: ["pnpm-workspace.yaml"], lockfiles: ["pnpm-lock.yaml"] },
+  { name: "yarn", manifests: [".yarnrc.yml"], lockfiles: ["yarn.lock"] },
+  { name: "bun", manifests: ["bunfig.toml"], lockfiles: ["bun.lock", "bun.lockb"] },
+  { name: "pip", manifests: ["requirements.txt", "setup.py"], lockfiles: [] },
+  { name: "poetry", manifests: [], lockfiles: ["poetry.lock"] },
+  { name: "uv", manifests: [], lockfiles: ["uv.lock"] },
+  { name: "pipenv", manifests: ["Pipfile"], lockfiles: ["Pipfile.lock"] },
+  { name: "cargo", manifests: ["Cargo.toml"], lockfiles: ["Cargo.lock"] },
+  { name: "go modules", manifests: ["go.mod"], lockfiles: ["go.sum"] },
+  { name: "maven", manifests: ["pom.xml"], lockfiles: [] },
+  { name: "gradle", manifests: ["build.gradle", "build.gradle.kts"], lockfiles: ["gradle.lockfile"] },
+  { name: "bundler", manifests: ["Gemfile"], lockfiles: ["Gemfile.lock"] },
+  { name: "composer", manifests: ["composer.json"], lockfiles: ["composer.lock"] },
+  { name: "nuget", manifests: [], lockfiles: ["packages.lock.json"] },
+];
+const JS_PACKAGE_MANAGERS = ["npm", "pnpm", "yarn", "bun"];
+
+/** Manifests whose text names their dependencies, by ecosystem. package.json is parsed instead. */
+const DEPENDENCY_MANIFESTS: Record<string, string[]> = {
+  python: ["requirements.txt", "requirements-dev.txt", "pyproject.toml", "Pipfile", "setup.py"],
+  go: ["go.mod"],
+  rust: ["Cargo.toml"],
+  jvm: ["pom.xml", "build.gradle", "build.gradle.kts"],
+  ruby: ["Gemfile"],
+  php: ["composer.json"],
+};
+
+/** Most specific first: a Next.js app also depends on React. */
+const FRAMEWORKS: { name: string; category: string; ecosystem: string; dependency: string }[] = [
+  { name: "Next.js", category: "fullstack", ecosystem: "javascript", dependency: "next" },
+  { name: "Nuxt", category: "fullstack", ecosystem: "javascript", dependency: "nuxt" },
+  { name: "SvelteKit", category: "fullstack", ecosystem: "javascript", dependency: "@sveltejs/kit" },
+  { name: "Remix", category: "fullstack", ecosystem: "javascript", dependency: "@remix-run/react" },
+  { name: "Astro", category: "fullstack", ecosystem: "javascript", dependency: "astro" },
+  { name: "NestJS", category: "backend", ecosystem: "javascript", dependency: "@nestjs/core" },
+  { name: "Angular", category: "frontend", ecosystem: "javascript", dependency: "@angular/core" },
+  { name: "React Native", category: "mobile", ecosystem: "javascript", dependency: "react-native" },
+  { name: "Expo", category: "mobile", ecosystem: "javascript", dependency: "expo" },
+  { name: "Electron", category: "desktop", ecosystem: "javascript", dependency: "electron" },
+  { name: "React", category: "frontend", ecosystem: "javascript", dependency: "react" },
+  { name: "Vue", category: "frontend", ecosystem: "javascript", dependency: "vue" },
+  { name: "Svelte", category: "frontend", ecosystem: "javascript", dependency: "svelte" },
+  { name: "Solid", category: "frontend", ecosystem: "javascript", dependency: "solid-js" },
+  { name: "Express", category: "backend", ecosystem: "javascript", dependency: "express" },
+  { name: "Fastify", category: "backend", ecosystem: "javascript", dependency: "fastify" },
+  { name: "Koa", category: "backend", ecosystem: "javascript", dependency: "koa" },
+  { name: "Hono", category: "backend", ecosystem: "javascript", dependency: "hono" },
+  { name: "Prisma", category: "orm", ecosystem: "javascript", dependency: "prisma" },
+  { name: "TypeORM", category: "orm", ecosystem: "javascript", dependency: "typeorm" },
+  { name: "Drizzle", category: "orm", ecosystem: "javascript", dependency: "drizzle-orm" },
+  { name: "Tailwind CSS", category: "styling", ecosystem: "javascript", dependency: "tailwindcss" },
+  { name: "Vite", category: "build", ecosystem: "javascript", dependency: "vite" },
+  { name: "webpack", category: "build", ecosystem: "javascript", dependency: "webpack" },
+  { name: "Vitest", category: "test", ecosystem: "javascript", dependency: "vitest" },
+  { name: "Jest", category: "test", ecosystem: "javascript", dependency: "jest" },
+  { name: "Mocha", category: "test", ecosystem: "javascript", dependency: "mocha" },
+  { name: "Playwright", category: "test", ecosystem: "javascript", dependency: "@playwright/test" },
+  { name: "Cypress", category: "test", ecosystem: "javascript", dependency: "cypress" },
+  { name: "Django", category: "fullstack", ecosystem: "python", dependency: "django" },
+  { name: "FastAPI", category: "backend", ecosystem: "python", dependency: "fastapi" },
+  { name: "Flask", category: "backend", ecosystem: "python", dependency: "flask" },
+  { name: "SQLAlchemy", category: "orm", ecosystem: "python", dependency: "sqlalchemy" },
+  { name: "pytest", category: "test", ecosystem: "python", dependency: "pytest" },
+  { name: "Ruff", category: "lint", ecosystem: "python", dependency: "ruff" },
+  { name: "Gin", category: "backend", ecosystem: "go", dependency: "github.com/gin-gonic/gin" },
+  { name: "Echo", category: "backend", ecosystem: "go", dependency: "github.com/labstack/echo" },
+  { name: "Fiber", category: "backend", ecosystem: "go", dependency: "github.com/gofiber/fiber" },
+  { name: "Cobra", category: "cli", ecosystem: "go", dependency: "github.com/spf13/cobra" },
+  { name: "Tauri", category: "desktop", ecosystem: "rust", dependency: "tauri" },
+  { name: "Actix Web", category: "backend", ecosystem: "rust", dependency: "actix-web" },
+  { name: "Axum", category: "backend", ecosystem: "rust", dependency: "axum" },
+  { name: "Rocket", category: "backend", ecosystem: "rust", dependency: "rocket" },
+  { name: "Spring Boot", category: "backend", ecosystem: "jvm", dependency: "org.springframework.boot" },
+  { name: "Quarkus", category: "backend", ecosystem: "jvm", dependency: "io.quarkus" },
+  { name: "Rails", category: "fullstack", ecosystem: "ruby", dependency: "rails" },
+  { name: "Sinatra", category: "backend", ecosystem: "ruby", dependency: "sinatra" },
+  { name: "RSpec", category: "test", ecosystem: "ruby", dependency: "rspec" },
+  { name: "Laravel", category: "fullstack", ecosystem: "php", dependency: "laravel/framework" },
+  { name: "Symfony", category: "fullstack", ecosystem: "php", dependency: "symfony/framework-bundle" },
+];
+/** Categories that support an application rather than shape it; never the primary framework. */
+const SUPPORTING_CATEGORIES = new Set(["orm", "styling", "build", "test", "lint"]);
+
+const CI_CONFIGS: { service: string; pattern: RegExp }[] = [
+  { service: "GitHub Actions", pattern: /^\.github\/workflows\/[^/]+\.ya?ml$/ },
+  { service: "GitLab CI", pattern: /^\.gitlab-ci\.ya?ml$/ },
+  { service: "CircleCI", pattern: /^\.circleci\/config\.ya?ml$/ },
+  { service: "Jenkins", pattern: /^Jenkinsfile$/ },
+  { service: "Azure Pipelines", pattern: /^azure-pipelines\.ya?ml$/ },
+  { service: "Bitbucket Pipelines", pattern: /^bitbucket-pipelines\.ya?ml$/ },
+  { service: "Travis CI", pattern: /^\.travis\.ya?ml$/ },
+  { service: "Buildkite", pattern: /^\.buildkite\/[^/]+\.ya?ml$/ },
+  { service: "Drone", pattern: /^\.drone\.ya?ml$/ },
+];
+
+const TEST_TASK = /^(test|tests|unit|e2e|integration)([:_-]|$)/;
+const LINT_TASK = /^(lint|typecheck|type-check|check|(format|fmt)[:_-]check)([:_-]|$)/;
+
+/**
+ * Turns a .gitignore into a predicate over slash-separated paths relative to
+ * the directory it sits in. Covers the common forms: names, `dir/`,
+ * anchored `/path` and `*`, `**` and `?` globs. Negations are ignored.
+ */
+export function gitignoreMatcher(text: string): (path: string, isDirectory: boolean) => boolean {
+  const rules = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith("#") && !line.startsWith("!"))
+    .map(line => {
+      const directoryOnly = line.endsWith("/");
+      const pattern = line.replace(/\/+$/, "");
+      const anchored = pattern.includes("/");
+      const source = pattern
+        .replace(/^\//, "")
+        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+        // `**/` spans whole directories, or none: `**/foo` matches foo and a/foo, not barfoo
+        .replace(/\*\*\//g, "\0")
+        .replace(/\*\*/g, "\x01")
+        .replace(/\*/g, "[^/]*")
+        .replace(/\?/g, "[^/]")
+        .replace(/\0/g, "(?:.*/)?")
+        .replace(/\x01/g, ".*");
+      return { directoryOnly, anchored, regex: new RegExp(`^${source}$`) };
+    });
+
+  return (path, isDirectory) =>
+    rules.some(rule =>
+      (!rule.directoryOnly || isDirectory) && rule.regex.test(rule.anchored ? path : posix.basename(path))
+    );
+}
+
+/** Walks `root` breadth first, skipping what its top-level .gitignore ignores. */
+async function walkFiles(root: string, signal?: AbortSignal): Promise<string[]> {
+  const gitignore = await readFile(join(root, ".gitignore"), "utf-8").catch(() => "");
+  const ignored = gitignoreMatcher(gitignore);
+  const files: string[] = [];
+  const queue = [""];
+
+  while (queue.length > 0 && files.length <= MAX_FILES) {
+    signal?.throwIfAborted();
+    const dir = queue.shift()!;
+    const entries = await readdir(join(root, dir), { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const path = dir ? `${dir}/${entry.name}` : entry.name;
+      if (ALWAYS_SKIPPED.has(entry.name) || ignored(path, entry.isDirectory())) continue;
+      if (entry.isDirectory()) queue.push(path);
+      else if (entry.isFile()) files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Files in the project as slash-separated paths relative to `root`. git lists
+ * them when `root` is in a repository, tracked and untracked but not ignored,
+ * so every .gitignore, .git/info/exclude and the global excludes apply.
+ */
+async function listFiles(root: string, signal?: AbortSignal): Promise<{ files: string[]; listedBy: "git" | "walk" }> {
+  try {
+    const { stdout } = await runCommand(
+      "git",
+      ["ls-files", "--cached", "--others", "--exclude-standard", "-z"],
+      { cwd: root, signal, maxBuffer: 64 * 1024 * 1024 }
+    );
+    const files = [...new Set(stdout.split("\0").filter(Boolean))].filter(file => existsSync(join(root, file)));
+    return { files, listedBy: "git" };
+  } catch {
+    signal?.throwIfAborted();
+    return { files: await walkFiles(root, signal), listedBy: "walk" };
+  }
+}
+
+function countLanguages(files: string[]): LanguageShare[] {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const language = LANGUAGES[posix.extname(file).toLowerCase()];
+    if (language) counts.set(language, (counts.get(language) ?? 0) + 1);
+  }
+  const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, files: count, percent: Math.round((count / total) * 1000) / 10 }))
+    .sort((a, b) => b.files - a.files || a.name.localeCompare(b.name));
+}
+
+/** The package.json fields the analysis reads, not yet checked. */
+interface PackageManifest {
+  packageManager?: unknown;
+  workspaces?: unknown;
+  scripts?: unknown;
+  dependencies?: unknown;
+  devDependencies?: unknown;
+  peerDependencies?: unknown;
+}
+
+/** `value` when it is a JSON object, else null. */
+function objectOf(value: unknown): Record<string, unknown> | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+async function readJson(path: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+async function readText(path: string): Promise<string> {
+  return readFile(path, "utf-8").catch(() => "");
+}
+
+function withName(files: string[], names: string[]): string[] {
+  return files.filter(file => names.includes(posix.basename(file)));
+}
+
+function detectPackageManagers(files: string[], rootManifest: PackageManifest | null): PackageManagerUse[] {
+  const uses = PACKAGE_MANAGERS.map(manager => ({
+    name: manager.name,
+    manifests: withName(files, manager.manifests),
+    lockfiles: withName(files, manager.lockfiles),
+  }));
+  const named = (name: string) => uses.find(use => use.name === name)!;
+
+  // package.json belongs to whichever JavaScript package manager the project uses
+  const packageJsons = withName(files, ["package.json"]);
+  if (packageJsons.length > 0) {
+    const packageManager = typeof rootManifest?.packageManager === "string" ? rootManifest.packageManager : "";
+    const declared = /^(npm|pnpm|yarn|bun)@/.exec(packageManager)?.[1];
+    const locked = JS_PACKAGE_MANAGERS.filter(name => named(name).lockfiles.length > 0);
+    for (const name of declared ? [declared] : locked.length > 0 ? locked : ["npm"]) {
+      named(name).manifests.unshift(...packageJsons);
+    }
+  }
+  const pyprojects = withName(files, ["pyproject.toml"]);
+  if (pyprojects.length > 0) {
+    const locked = ["poetry", "uv"].filter(name => named(name).lockfiles.length > 0);
+    for (const name of locked.length > 0 ? locked : ["pip"]) {
+      named(name).manifests.unshift(...pyprojects);
+    }
+  }
+
+  return uses.filter(use => use.manifests.length + use.lockfiles.length > 0);
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function quotedStrings(text: string): string[] {
+  return [...text.matchAll(/"([^"]+)"/g)].map(match => match[1]);
+}
+
+async function detectMonorepo(root: string, files: Set<string>, rootManifest: PackageManifest | null, jsManager: string): Promise<Monorepo | null> {
+  const tools: string[] = [];
+  const workspaces: string[] = [];
+
+  const declared = rootManifest?.workspaces;
+  if (declared) {
+    tools.push(`${jsManager} workspaces`);
+    workspaces.push(...strings(Array.isArray(declared) ? declared : objectOf(declared)?.packages));
+  }
+  if (files.has("pnpm-workspace.yaml")) {
+    tools.push("pnpm workspaces");
+    try {
+      const config = objectOf(YAML.parse(await readText(join(root, "pnpm-workspace.yaml"))));
+      workspaces.push(...strings(config?.packages));
+    } catch {
+      // Listed as a tool even when its packages cannot be read
+    }
+  }
+  if (files.has("nx.json")) tools.push("Nx");
+  if (files.has("turbo.json")) tools.push("Turborepo");
+  if (files.has("lerna.json")) {
+    tools.push("Lerna");
+    const lerna = objectOf(await readJson(join(root, "lerna.json")));
+    workspaces.push(...strings(lerna?.packages));
+  }
+  if (files.has("Cargo.toml")) {
+    const cargo = await readText(join(root, "Cargo.toml"));
+    const members = /^\[workspace\][^[]*?^members\s*=\s*\[([^\]]*)\]/m.exec(cargo);
+    if (/^\[workspace\]/m.test(cargo)) {
+      tools.push("Cargo workspace");
+      workspaces.push(...quotedStrings(members?.[1] ?? ""));
+    }
+  }
+  if (files.has("go.work")) {
+    tools.push("Go workspace");
+    const goWork = await readText(join(root, "go.work"));
+    const block = /^use\s*\(([^)]*)\)/m.exec(goWork);
+    const uses = block ? block[1].split(/\s+/) : [...goWork.matchAll(/^use\s+(\S+)/gm)].map(match => match[1]);
+    workspaces.push(...uses.filter(Boolean));
+  }
+
+  return tools.length > 0 ? { tools, workspaces: [...new Set(workspaces)] } : null;
+}
+
+function mentionsDependency(text: string, dependency: string): boolean {
+  const escaped = dependency.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[\\s"'>\\[(])${escaped}([\\s"'=<>~!\\[;@,:/)]|$)`, "im").test(text);
+}
+
+async function detectFrameworks(root: string, files: string[]): Promise<DetectedFramework[]> {
+  const dependencies = new Map<string, { manifest: string; names: Set<string> | string }[]>();
+
+  const packageJsons = withName(files, ["package.json"]).slice(0, MAX_MANIFESTS);
+  dependencies.set("javascript", await Promise.all(packageJsons.map(async manifest => {
+    const pkg: PackageManifest | null = objectOf(await readJson(join(root, manifest)));
+    const names = [pkg?.dependencies, pkg?.devDependencies, pkg?.peerDependencies]
+      .flatMap(deps => Object.keys(objectOf(deps) ?? {}));
+    return { manifest, names: new Set(names) };
+  })));
+  for (const [ecosystem, names] of Object.entries(DEPENDENCY_MANIFESTS)) {
+    const manifests = withName(files, names).slice(0, MAX_MANIFESTS);
+    dependencies.set(ecosystem, await Promise.all(manifests.map(async manifest => ({
+      manifest,
+      names: await readText(join(root, manifest)),
+    }))));
+  }
+
+  const frameworks: DetectedFramework[] = [];
+  for (const framework of FRAMEWORKS) {
+    const found = dependencies.get(framework.ecosystem)!.find(({ names }) =>
+      typeof names === "string" ? mentionsDependency(names, framework.dependency) : names.has(framework.dependency)
+    );
+    if (found) frameworks.push({ name: framework.name, category: framework.category, manifest: found.manifest });
+  }
+  return frameworks;
+}
+
+/** Targets a Makefile defines, leaving out special targets like .PHONY, pattern rules and variables. */
+export function makeTargets(makefile: string): string[] {
+  const targets = [...makefile.matchAll(/^([A-Za-z0-9_][A-Za-z0-9_./-]*)\s*::?(?!=)/gm)].map(match => match[1]);
+  return [...new Set(targets)];
+}
+
+/** Recipes a justfile defines, leaving out settings, aliases and variables. */
+export function justRecipes(justfile: string): string[] {
+  const recipes = [...justfile.matchAll(/^@?([A-Za-z_][\w-]*)(?:\s[^:\n]*)?:(?!=)/gm)].map(match => match[1]);
+  return [...new Set(recipes)];
+}
+
+async function detectTasks(root: string, files: Set<string>, rootManifest: PackageManifest | null, jsManager: string): Promise<ProjectTask[]> {
+  const tasks: ProjectTask[] = [];
+  for (const [name, command] of Object.entries(objectOf(rootManifest?.scripts) ?? {})) {
+    if (typeof command === "string") {
+      tasks.push({ name, command: `${jsManager} run ${name}`, source: "package.json" });
+    }
+  }
+  const makefile = ["GNUmakefile", "Makefile", "makefile"].find(file => files.has(file));
+  if (makefile) {
+    for (const target of makeTargets(await readText(join(root, makefile)))) {
+      tasks.push({ name: target, command: `make ${target}`, source: makefile });
+    }
+  }
+  const justfile = ["justfile", "Justfile", ".justfile"].find(file => files.has(file));
+  if (justfile) {
+    for (const recipe of justRecipes(await readText(join(root, justfile)))) {
+      tasks.push({ name: recipe, command: `just ${recipe}`, source: justfile });
+    }
+  }
+  return tasks;
+}
+
+/**
+ * Test and lint commands: the project's own tasks with conventional names,
+ * then the ecosystem's standard commands for manifests at the root.
+ */
+function qualityCommands(tasks: ProjectTask[], files: Set<string>, frameworks: DetectedFramework[]) {
+  const testCommands = tasks.filter(task => TEST_TASK.test(task.name)).map(task => task.command);
+  const lintCommands = tasks.filter(task => LINT_TASK.test(task.name)).map(task => task.command);
+  const uses = (name: string) => frameworks.some(framework => framework.name === name);
+
+  if (files.has("Cargo.toml")) {
+    testCommands.push("cargo test");
+    lintCommands.push("cargo clippy");
+  }
+  if (files.has("go.mod")) {
+    testCommands.push("go test ./...");
+    lintCommands.push("go vet ./...");
+  }
+  if (uses("pytest")) testCommands.push("pytest");
+  if (uses("Ruff") || files.has("ruff.toml") || files.has(".ruff.toml")) lintCommands.push("ruff check .");
+  if (files.has("pom.xml")) testCommands.push(files.has("mvnw") ? "./mvnw test" : "mvn test");
+  if (files.has("build.gradle") || files.has("build.gradle.kts")) {
+    testCommands.push(files.has("gradlew") ? "./gradlew test" : "gradle test");
+  }
+
+  return { testCommands: [...new Set(testCommands)], lintCommands: [...new Set(lintCommands)] };
+}
+
+function detectCi(files: string[]): CiConfig[] {
+  return CI_CONFIGS
+    .map(({ service, pattern }) => ({ service, files: files.filter(file => pattern.test(file)) }))
+    .filter(config => config.files.length > 0);
+}
+
+/**
+ * Fingerprints the project in `root`: languages by their share of source
+ * files, package managers and lockfiles, monorepo layout, frameworks from
+ * the dependencies, runnable tasks, test and lint commands, and CI config.
+ * Ignored files are left out, as git would.
+ */
+export async function analyzeProject(root: string, signal?: AbortSignal): Promise<ProjectAnalysis> {
+  const listed = await listFiles(root, signal);
+  const truncated = listed.files.length > MAX_FILES;
+  const files = listed.files.slice(0, MAX_FILES).sort();
+  const rootFiles = new Set(files.filter(file => !file.includes("/")));
+  const rootManifest: PackageManifest | null = rootFiles.has("package.json")
+    ? objectOf(await readJson(join(root, "package.json")))
+    : null;
+  signal?.throwIfAborted();
+
+  const languages = countLanguages(files);
+  const packageManagers = detectPackageManagers(files, rootManifest);
+  const jsManager = packageManagers.find(use => JS_PACKAGE_MANAGERS.includes(use.name))?.name ?? "npm";
+  const frameworks = await detectFrameworks(root, files);
+  const tasks = await detectTasks(root, rootFiles, rootManifest, jsManager);
+
+  return {
+    root,
+    listedBy: listed.listedBy,
+    files: files.length,
+    truncated,
+    languages,
+    primaryLanguage: languages[0]?.name ?? null,
+    packageManagers,
+    monorepo: await detectMonorepo(root, rootFiles, rootManifest, jsManager),
+    frameworks,
+    primaryFramework: frameworks.find(framework => !SUPPORTING_CATEGORIES.has(framework.category))?.name ?? null,
+    tasks,
+    ...qualityCommands(tasks, rootFiles, frameworks),
+    ci: detectCi(files),
+  };
+}
@@ -0,0 +1,1208 @@
+import { existsSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { BaseMCPServer, defineTool, toolResult, ToolRuntime } from "../../shared/base-server.js";
+import { runCommand } from "../../shared/command-runner.js";
+import { ResolvedConfig } from "../../shared/config.js";
+import { repoPathProperty, resolveWorkspace } from "../../shared/roots.js";
+import { discoverAgents } from "./agents.js";
+import { Dependency, inventoryDependencies } from "./dependencies.js";
+import { runDoctor } from "./doctor.js";
+import { inspectEnv } from "./env-inspection.js";
+import { COLLECTION_SERVERS, inspectMcpClients, MCP_CLIENTS, registerMcpServers, registrationTarget } from "./mcp-clients.js";
+import { inspectProcesses } from "./processes.js";
+import { analyzeProject } from "./project-analysis.js";
+import { collectSystemReport, formatBytes } from "./system-report.js";
+import { checkConstraints, detectToolchains, findLocalTools, readVersionConstraints, TOOLCHAIN_PROBES } from "./toolchains.js";
+
+const byteCount = { type: "integer", minimum: 0 };
+
+const dependencySchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    version: { type: "string" },
+    ecosystem: { type: "string", enum: ["npm", "pypi", "cargo", "go"] },
+    direct: { type: "boolean" },
+    license: { type: ["string", "null"], description: "SPDX identifier or expression" },
+    lockfile: { type: "string" },
+  },
+  required: ["name", "version", "ecosystem", "direct", "license", "lockfile"],
+} as const;
+
+const envVariableSchema = {
+  type: "object",
+  properties: {
+    key: { type: "string" },
+    type: { type: "string", enum: ["url", "port", "boolean", "number", "email", "json", "string"] },
+    secret: { type: "boolean" },
+    status: { type: "string", enum: ["ok", "missing", "extra", "invalid"] },
+    problem: { type: "string" },
+    inProcessEnv: { type: "boolean" },
+    files: { type: "array", items: { type: "string" } },
+    value: { type: ["string", "null"], description: "Effective value, redacted when it looks secret" },
+    source: { type: ["string", "null"], description: "\"process\" or the env file the value comes from" },
+    overridden: { type: "boolean", description: "The process environment overrides a different value in the env files" },
+  },
+  required: ["key", "type", "secret", "status", "inProcessEnv", "files", "value", "source", "overridden"],
+} as const;
+
+export class InfoMCPServer extends BaseMCPServer {
+  constructor(config: ResolvedConfig) {
+    super(
+      {
+        name: "info-mcp",
+        version: "1.0.0",
+        displayName: "INFO MCP Server",
+      },
+      config
+    );
+
+    this.registerTools([
+      defineTool({
+        name: "get_system_info",
+        description:
+          "Get the host's CPU, load, memory, disk space, uptime, user and locale, and whether it is a container, WSL or CI; use it to decide whether heavy builds or tests can run",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            hostname: { type: "string" },
+            platform: { type: "string" },
+            arch: { type: "string" },
+            release: { type: "string", description: "Operating system kernel release" },
+            nodeVersion: { type: "string" },
+            cpu: {
+              type: "object",
+              properties: {
+                model: { type: "string" },
+                cores: { type: "integer", description: "Cores available to this process" },
+              },
+              required: ["model", "cores"],
+            },
+            loadAverage: { type: "array", items: { type: "number" }, description: "1, 5 and 15 minute load averages" },
+            memory: {
+              type: "object",
+              properties: {
+                totalBytes: byteCount,
+                availableBytes: byteCount,
+                usedPercent: { type: "number" },
+              },
+              required: ["totalBytes", "availableBytes", "usedPercent"],
+            },
+            disks: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  label: { type: "string", enum: ["workspace", "memory", "rules"] },
+                  path: { type: "string" },
+                  totalBytes: byteCount,
+                  freeBytes: byteCount,
+                  usedPercent: { type: "number" },
+                },
+                required: ["label", "path", "totalBytes", "freeBytes", "usedPercent"],
+              },
+            },
+            uptimeSeconds: { type: "integer" },
+            user: { type: ["string", "null"] },
+            shell: { type: ["string", "null"] },
+            locale: { type: "string" },
+            timezone: { type: "string" },
+            container: { type: ["string", "null"], description: "Container runtime, e.g. docker or kubernetes" },
+            wsl: { type: "boolean" },
+            ci: { type: ["string", "null"], description: "CI service, e.g. GitHub Actions" },
+            timestamp: { type: "string" },
+          },
+          required: [
+            "hostname",
+            "platform",
+            "arch",
+            "release",
+            "nodeVersion",
+            "cpu",
+            "loadAverage",
+            "memory",
+            "disks",
+            "uptimeSeconds",
+            "user",
+            "shell",
+            "locale",
+            "timezone",
+            "container",
+            "wsl",
+            "ci",
+            "timestamp",
+          ],
+        },
+        handler: (args, { roots }) => this.getSystemInfo(resolveWorkspace(roots, args.repoPath)),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "detect_toolchains",
+        description:
+          "Find which language runtimes, package managers, container tools, build tools and linters are on PATH, with their versions, and check them against the versions the project asks for in package.json engines, .nvmrc, .python-version, rust-toolchain and go.mod",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+            tools: {
+              type: "array",
+              items: { type: "string", enum: TOOLCHAIN_PROBES.map(probe => probe.name) },
+              description: "Only probe these tools; defaults to all of them",
+            },
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            workspace: { type: "string", description: "Directory whose constraints were checked" },
+            tools: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  category: { type: "string" },
+                  installed: { type: "boolean" },
+                  path: { type: ["string", "null"] },
+                  version: { type: ["string", "null"] },
+                  error: { type: "string" },
+                },
+                required: ["name", "category", "installed", "path", "version"],
+              },
+            },
+            localTools: {
+              type: "array",
+              description:
+                "Tools the workspace installs in node_modules/.bin or .venv. They are never run, because the repository controls them; versions come from package metadata",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  category: { type: "string" },
+                  source: { type: "string", enum: ["node_modules", "virtualenv"] },
+                  path: { type: "string" },
+                  version: { type: ["string", "null"] },
+                },
+                required: ["name", "category", "source", "path", "version"],
+              },
+            },
+            constraints: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  tool: { type: "string" },
+                  range: { type: "string" },
+                  source: { type: "string" },
+                  installed: { type: ["string", "null"] },
+                  satisfied: {
+                    type: ["boolean", "null"],
+                    description: "Null when the tool is missing or the constraint is not a version number",
+                  },
+                },
+                required: ["tool", "range", "source", "installed", "satisfied"],
+              },
+            },
+            mismatches: { type: "integer", description: "Constraints the installed version does not satisfy" },
+          },
+          required: ["workspace", "tools", "localTools", "constraints", "mismatches"],
+        },
+        handler: (args, runtime) => this.detectToolchains(resolveWorkspace(runtime.roots, args.repoPath), args.tools, runtime),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "check_gh_status",
+        description: "Check GitHub CLI installation and authentication status",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            installed: { type: "boolean" },
+            version: { type: "string", description: "First line of `gh --version`" },
+            authenticated: { type: "boolean" },
+            error: { type: "string" },
+          },
+          required: ["installed", "authenticated"],
+        },
+        handler: () => this.checkGHStatus(),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "check_available_agents",
+        description:
+          "Find which coding agent CLIs are installed and usable: their versions, which credential variables are set (never their values), whether a login was found, and which MCP servers their config files register",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            agents: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  description: { type: "string" },
+                  command: { type: "string" },
+                  installed: { type: "boolean" },
+                  path: { type: ["string", "null"] },
+                  version: { type: ["string", "null"] },
+                  apiKeys: { type: "array", items: { type: "string" }, description: "Credential variables that are set" },
+                  credentialFiles: { type: "array", items: { type: "string" }, description: "Login credentials found" },
+                  configFiles: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        path: { type: "string" },
+                        scope: { type: "string", enum: ["user", "project"] },
+                        mcpServers: { type: "array", items: { type: "string" } },
+                        error: { type: "string" },
+                      },
+                      required: ["path", "scope", "mcpServers"],
+                    },
+                  },
+                  current: { type: "boolean", description: "The agent is the client making this call" },
+                  status: {
+                    type: "string",
+                    enum: ["ready", "installed", "not-installed"],
+                    description: "installed means no credential was found; the agent may still be logged in through the OS keychain",
+                  },
+                  usable: { type: "boolean" },
+                },
+                required: [
+                  "name",
+                  "description",
+                  "command",
+                  "installed",
+                  "path",
+                  "version",
+                  "apiKeys",
+                  "credentialFiles",
+                  "configFiles",
+                  "current",
+                  "status",
+                  "usable",
+                ],
+              },
+            },
+          },
+          required: ["agents"],
+        },
+        handler: (args, { roots, client, signal }) =>
+          this.checkAvailableAgents(resolveWorkspace(roots, args.repoPath), client?.name, signal),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "get_environment_info",
+        description: "Get information about the current environment",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            cwd: { type: "string", description: "Directory that was inspected" },
+            roots: { type: "array", items: { type: "string" }, description: "The client's roots" },
+            git: {
+              type: "object",
+              properties: {
+                isRepository: { type: "boolean" },
+                branch: { type: "string" },
+                remote: { type: ["string", "null"] },
+                clean: { type: "boolean" },
+              },
+              required: ["isRepository"],
+            },
+            projectFiles: { type: "array", items: { type: "string" } },
+            env: {
+              type: "object",
+              properties: {
+                home: { type: ["string", "null"] },
+                pathSet: { type: "boolean" },
+                nodeEnv: { type: ["string", "null"] },
+              },
+              required: ["home", "pathSet", "nodeEnv"],
+            },
+          },
+          required: ["cwd", "roots", "git", "projectFiles", "env"],
+        },
+        handler: (args, { roots }) => this.getEnvironmentInfo(resolveWorkspace(roots, args.repoPath), roots),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "analyze_project",
+        description:
+          "Fingerprint a project, ignoring what .gitignore ignores: languages by share of source files, package managers and lockfiles, monorepo layout, frameworks from its dependencies, runnable package.json scripts, Makefile targets and just recipes, test and lint commands, and CI config. primaryLanguage and primaryFramework fit the context of store_experience",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            root: { type: "string" },
+            listedBy: { type: "string", enum: ["git", "walk"], description: "walk when the directory is not in a git repository" },
+            files: { type: "integer", description: "Files looked at" },
+            truncated: { type: "boolean" },
+            languages: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  files: { type: "integer" },
+                  percent: { type: "number", description: "Share of source files" },
+                },
+                required: ["name", "files", "percent"],
+              },
+            },
+            primaryLanguage: { type: ["string", "null"] },
+            packageManagers: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  manifests: { type: "array", items: { type: "string" } },
+                  lockfiles: { type: "array", items: { type: "string" } },
+                },
+                required: ["name", "manifests", "lockfiles"],
+              },
+            },
+            monorepo: {
+              type: ["object", "null"],
+              properties: {
+                tools: { type: "array", items: { type: "string" } },
+                workspaces: { type: "array", items: { type: "string" } },
+              },
+              required: ["tools", "workspaces"],
+            },
+            frameworks: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  category: { type: "string" },
+                  manifest: { type: "string" },
+                },
+                required: ["name", "category", "manifest"],
+              },
+            },
+            primaryFramework: { type: ["string", "null"] },
+            tasks: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  command: { type: "string" },
+                  source: { type: "string" },
+                },
+                required: ["name", "command", "source"],
+              },
+            },
+            testCommands: { type: "array", items: { type: "string" } },
+            lintCommands: { type: "array", items: { type: "string" } },
+            ci: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  service: { type: "string" },
+                  files: { type: "array", items: { type: "string" } },
+                },
+                required: ["service", "files"],
+              },
+            },
+          },
+          required: [
+            "root",
+            "listedBy",
+            "files",
+            "truncated",
+            "languages",
+            "primaryLanguage",
+            "packageManagers",
+            "monorepo",
+            "frameworks",
+            "primaryFramework",
+            "tasks",
+            "testCommands",
+            "lintCommands",
+            "ci",
+          ],
+        },
+        handler: (args, { roots, signal }) => this.analyzeProject(resolveWorkspace(roots, args.repoPath), signal),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "get_dependency_inventory",
+        description:
+          "List the dependencies locked in package-lock.json, pnpm-lock.yaml, yarn.lock, requirements.txt, poetry.lock, uv.lock, Cargo.lock and go.sum, offline, with versions, whether each is direct or transitive, and its license from node_modules, the virtualenv or vendored sources. Flags packages locked at several versions and licenses outside the configured allowlist",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+            directOnly: { type: "boolean", description: "Only list direct dependencies", default: false },
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            root: { type: "string" },
+            lockfiles: { type: "array", items: { type: "string" } },
+            allowedLicenses: { type: "array", items: { type: "string" }, description: "Empty when the license check is off" },
+            total: { type: "integer", description: "Dependencies in the lockfiles, before directOnly" },
+            direct: { type: "integer" },
+            dependencies: { type: "array", items: dependencySchema },
+            duplicates: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  ecosystem: { type: "string" },
+                  name: { type: "string" },
+                  versions: { type: "array", items: { type: "string" } },
+                },
+                required: ["ecosystem", "name", "versions"],
+              },
+            },
+            licenseViolations: { type: "array", items: dependencySchema },
+            unknownLicenses: { type: "integer", description: "Dependencies whose license could not be resolved" },
+          },
+          required: [
+            "root",
+            "lockfiles",
+            "allowedLicenses",
+            "total",
+            "direct",
+            "dependencies",
+            "duplicates",
+            "licenseViolations",
+            "unknownLicenses",
+          ],
+        },
+        handler: (args, { roots }) => this.getDependencyInventory(resolveWorkspace(roots, args.repoPath), args.directOnly),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "inspect_env",
+        description:
+          "Compare .env, .env.local and .env.<mode> files with the .env.example template and the process environment: missing and unexpected keys, values that are not the URL, port, boolean or number the key suggests, and credentials committed to tracked files. Secret values are always redacted",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            root: { type: "string" },
+            files: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  path: { type: "string" },
+                  template: { type: "boolean" },
+                  keys: { type: "integer" },
+                  tracked: { type: "boolean" },
+                },
+                required: ["path", "template", "keys", "tracked"],
+              },
+            },
+            variables: { type: "array", items: envVariableSchema },
+            missing: { type: "array", items: { type: "string" } },
+            extra: { type: "array", items: { type: "string" } },
+            invalid: { type: "array", items: { type: "string" } },
+            gitRepository: { type: "boolean" },
+            scannedFiles: { type: "integer" },
+            committedSecrets: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  file: { type: "string" },
+                  line: { type: "integer" },
+                  kind: { type: "string" },
+                },
+                required: ["file", "line", "kind"],
+              },
+            },
+          },
+          required: [
+            "root",
+            "files",
+            "variables",
+            "missing",
+            "extra",
+            "invalid",
+            "gitRepository",
+            "scannedFiles",
+            "committedSecrets",
+          ],
+        },
+        handler: (args, { roots, signal }) => this.inspectEnv(resolveWorkspace(roots, args.repoPath), signal),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "inspect_processes",
+        description:
+          "List listening TCP and UDP ports with the process holding each, processes running inside the workspace, and docker or podman containers with their published ports. Use it before starting a dev server or database to see whether one is already running, or to find what holds a port after EADDRINUSE",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+            port: { type: "integer", minimum: 1, maximum: 65535, description: "Only show what listens on or publishes this port" },
+            name: { type: "string", description: "Only show processes and containers whose command, name or image contains this text" },
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            workspace: { type: "string" },
+            source: { type: ["string", "null"], enum: ["proc", "lsof", null], description: "Where the ports were read from" },
+            ports: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  protocol: { type: "string", enum: ["tcp", "udp"] },
+                  address: { type: "string" },
+                  port: { type: "integer" },
+                  pid: { type: ["integer", "null"], description: "Null when the process belongs to another user" },
+                  command: { type: ["string", "null"] },
+                  cwd: { type: ["string", "null"] },
+                  inWorkspace: { type: "boolean" },
+                },
+                required: ["protocol", "address", "port", "pid", "command", "cwd", "inWorkspace"],
+              },
+            },
+            processes: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  pid: { type: "integer" },
+                  ppid: { type: "integer" },
+                  command: { type: "string" },
+                  cwd: { type: "string" },
+                  ports: { type: "array", items: { type: "integer" } },
+                },
+                required: ["pid", "ppid", "command", "cwd", "ports"],
+              },
+            },
+            containers: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  runtime: { type: "string" },
+                  id: { type: "string" },
+                  name: { type: "string" },
+                  image: { type: "string" },
+                  status: { type: "string" },
+                  ports: { type: "array", items: { type: "integer" } },
+                },
+                required: ["runtime", "id", "name", "image", "status", "ports"],
+              },
+            },
+            runtimes: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  error: { type: "string" },
+                },
+                required: ["name"],
+              },
+            },
+          },
+          required: ["workspace", "source", "ports", "processes", "containers", "runtimes"],
+        },
+        handler: (args, { roots, signal }) =>
+          this.inspectProcesses(resolveWorkspace(roots, args.repoPath), { port: args.port, name: args.name, signal }),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "list_mcp_client_configs",
+        description:
+          "Read the MCP config files of Claude Code, Claude Desktop, Codex CLI, Gemini CLI, Qwen Code, Cursor, VS Code and Windsurf for the user and the workspace, list the servers each registers, and check whether the five servers of this collection are registered and point at this installation's built dist entry points",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            packageRoot: { type: "string" },
+            built: { type: "boolean", description: "Whether dist/ has been built" },
+            configs: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  client: { type: "string" },
+                  path: { type: "string" },
+                  scope: { type: "string", enum: ["user", "project"] },
+                  servers: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        name: { type: "string" },
+                        command: { type: ["string", "null"] },
+                        args: { type: "array", items: { type: "string" } },
+                        url: { type: ["string", "null"] },
+                        env: { type: "array", items: { type: "string" }, description: "Variable names only" },
+                        collection: { type: "array", items: { type: "string" } },
+                        script: { type: ["string", "null"] },
+                        upToDate: { type: "boolean" },
+                      },
+                      required: ["name", "command", "args", "url", "env", "collection", "script", "upToDate"],
+                    },
+                  },
+                  error: { type: "string" },
+                },
+                required: ["client", "path", "scope", "servers"],
+              },
+            },
+            collection: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  server: { type: "string" },
+                  registered: { type: "boolean" },
+                  upToDate: { type: "boolean" },
+                  registrations: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        client: { type: "string" },
+                        path: { type: "string" },
+                        name: { type: "string" },
+                        upToDate: { type: "boolean" },
+                      },
+                      required: ["client", "path", "name", "upToDate"],
+                    },
+                  },
+                },
+                required: ["server", "registered", "upToDate", "registrations"],
+              },
+            },
+          },
+          required: ["packageRoot", "built", "configs", "collection"],
+        },
+        handler: (args, { roots }) => this.listMcpClientConfigs(resolveWorkspace(roots, args.repoPath)),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "register_mcp_servers",
+        description:
+          "Add this collection's servers to an MCP client's config file, or point existing entries at this installation's dist entry points, and show the change as a diff. Other settings in the file are kept. Runs as a dry run unless dryRun is false",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+            client: { type: "string", enum: MCP_CLIENTS.map(client => client.id), description: "Client whose config file to patch" },
+            scope: {
+              type: "string",
+              enum: ["user", "project"],
+              description: "User-wide or workspace config file; defaults to the workspace one where the client has it",
+            },
+            servers: {
+              type: "array",
+              items: { type: "string", enum: COLLECTION_SERVERS },
+              description: "Servers to register; defaults to all",
+            },
+            combined: {
+              type: "boolean",
+              description: "Register one entry running the combined entrypoint instead of one entry per server",
+              default: false,
+            },
+            dryRun: { type: "boolean", description: "Only show the diff", default: true },
+          },
+          required: ["client"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            client: { type: "string" },
+            path: { type: "string" },
+            scope: { type: "string", enum: ["user", "project"] },
+            format: { type: "string", enum: ["json", "toml"] },
+            entries: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  servers: { type: "array", items: { type: "string" } },
+                  command: { type: "string" },
+                  args: { type: "array", items: { type: "string" } },
+                },
+                required: ["name", "servers", "command", "args"],
+              },
+            },
+            built: { type: "boolean", description: "Whether dist/ has been built" },
+            created: { type: "boolean", description: "The config file does not exist yet" },
+            changed: { type: "boolean" },
+            applied: { type: "boolean", description: "The change was written" },
+            diff: { type: "string" },
+          },
+          required: ["client", "path", "scope", "format", "entries", "built", "created", "changed", "applied", "diff"],
+        },
+        handler: (args, { roots }) =>
+          this.registerMcpServers({ ...args, workspace: resolveWorkspace(roots, args.repoPath) }),
+        affects: (_args, result) => (result.applied ? [{ type: "file", id: result.path }] : []),
+        dangerous: (args) => (args.dryRun ? undefined : `this rewrites the ${args.client} MCP config file`),
+        policyValues: async (args, { roots }) => ({
+          path: registrationTarget({ ...args, workspace: resolveWorkspace(roots, args.repoPath), home: homedir() }).path,
+        }),
+      }),
+      defineTool({
+        name: "run_doctor",
+        description:
+          "Health-check the prerequisites of all five servers and return pass, warn or fail with a fix for each: Node.js version, built dist/ entry points, git repository, origin remote and identity, gh authentication and token scopes, writable Memory, Rules and audit storage, and intact Memory and Rules JSON files",
+        inputSchema: {
+          type: "object",
+          properties: {
+            repoPath: repoPathProperty,
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            workspace: { type: "string" },
+            checks: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  server: { type: "string", enum: ["general", ...COLLECTION_SERVERS] },
+                  name: { type: "string" },
+                  status: { type: "string", enum: ["pass", "warn", "fail"] },
+                  message: { type: "string" },
+                  fix: { type: "string" },
+                },
+                required: ["server", "name", "status", "message"],
+              },
+            },
+            summary: {
+              type: "object",
+              properties: {
+                pass: { type: "integer" },
+                warn: { type: "integer" },
+                fail: { type: "integer" },
+              },
+              required: ["pass", "warn", "fail"],
+            },
+            healthy: { type: "boolean", description: "No check failed" },
+          },
+          required: ["workspace", "checks", "summary", "healthy"],
+        },
+        handler: (args, { roots, signal }) => this.runDoctor(resolveWorkspace(roots, args.repoPath), signal),
+        readOnly: true,
+      }),
+    ]);
+  }
+
+  private async getSystemInfo(workspace: string) {
+    try {
+      const info = await collectSystemReport({
+        workspace,
+        memory: this.config.memory.storagePath,
+        rules: this.config.rules.storagePath,
+      });
+      const hours = Math.floor(info.uptimeSeconds / 3600);
+      const minutes = Math.floor((info.uptimeSeconds % 3600) / 60);
+      const disks = info.disks.map(disk =>
+        `- ${disk.label} (${disk.path}): ${formatBytes(disk.freeBytes)} free of ${formatBytes(disk.totalBytes)} (${disk.usedPercent}% used)`
+      );
+
+      return toolResult(`System Information:
+Hostname: ${info.hostname}
+Platform: ${info.platform} ${info.release}
+Architecture: ${info.arch}
+Node.js Version: ${info.nodeVersion}
+CPU: ${info.cpu.model} (${info.cpu.cores} cores)
+Load Average: ${info.loadAverage.join(", ")}
+Memory: ${formatBytes(info.memory.availableBytes)} available of ${formatBytes(info.memory.totalBytes)} (${info.memory.usedPercent}% used)
+Uptime: ${hours}h ${minutes}m
+User: ${info.user ?? "Unknown"}
+Shell: ${info.shell ?? "Unknown"}
+Locale: ${info.locale}
+Timezone: ${info.timezone}
+Container: ${info.container ?? "None"}
+WSL: ${info.wsl ? "Yes" : "No"}
+CI: ${info.ci ?? "None"}
+
+Disk Space:
+${disks.join("\n") || "- Unavailable"}
+
+Timestamp: ${info.timestamp}`, info);
+    } catch (error) {
+      throw new Error(`Failed to get system info: ${error}`);
+    }
+  }
+
+  private async detectToolchains(workspace: string, names: string[] | undefined, runtime: ToolRuntime) {
+    const probes = names?.length ? TOOLCHAIN_PROBES.filter(probe => names.includes(probe.name)) : TOOLCHAIN_PROBES;
+    const tools = await detectToolchains(probes, {
+      signal: runtime.signal,
+      onProbed: done => void runtime.progress(done, probes.length),
+    });
+    const localTools = await findLocalTools(workspace, probes);
+    const constraints = checkConstraints(await readVersionConstraints(workspace), tools);
+    const mismatches = constraints.filter(constraint => constraint.satisfied === false).length;
+
+    const installed = tools.filter(tool => tool.installed).map(tool =>
+      `- ${tool.name} ${tool.version ?? "(unknown version)"}: ${tool.path}${tool.error ? ` (${tool.error})` : ""}`
+    );
+    const missing = tools.filter(tool => !tool.installed).map(tool => tool.name);
+    const local = localTools.map(tool => `- ${tool.name} ${tool.version ?? "(unknown version)"}: ${tool.path}`);
+    const checks = constraints.map(constraint => {
+      const status =
+        constraint.satisfied === true ? "✓" : constraint.satisfied === false ? "✗ MISMATCH" : "? cannot compare";
+      return `- ${status} ${constraint.tool} ${constraint.range} (${constraint.source}), installed: ${constraint.installed ?? "none"}`;
+    });
+
+    return toolResult(`Toolchains in ${workspace}:
+${installed.join("\n") || "- None found"}
+
+Not found: ${missing.join(", ") || "None"}
+${local.length > 0 ? `\nInstalled in the workspace (not run):\n${local.join("\n")}\n` : ""}
+Project Constraints:
+${checks.join("\n") || "- None declared"}${mismatches > 0 ? `\n\n${mismatches} constraint(s) not satisfied by the installed versions.` : ""}`, {
+      workspace,
+      tools,
+      localTools,
+      constraints,
+      mismatches,
+    });
+  }
+
+  private async analyzeProject(root: string, signal: AbortSignal) {
+    const analysis = await analyzeProject(root, signal);
+    const list = (items: string[]) => items.join(", ") || "None";
+
+    return toolResult(`Project Analysis of ${root}:
+Files: ${analysis.files}${analysis.truncated ? " (truncated)" : ""}
+Languages: ${list(analysis.languages.map(language => `${language.name} ${language.percent}%`))}
+Package Managers: ${list(analysis.packageManagers.map(use => [use.name, ...use.lockfiles].join(" ")))}
+Monorepo: ${analysis.monorepo ? `${analysis.monorepo.tools.join(", ")} (${list(analysis.monorepo.workspaces)})` : "No"}
+Frameworks: ${list(analysis.frameworks.map(framework => framework.name))}
+Tasks: ${list(analysis.tasks.map(task => task.command))}
+Test Commands: ${list(analysis.testCommands)}
+Lint Commands: ${list(analysis.lintCommands)}
+CI: ${list(analysis.ci.map(config => config.service))}`, analysis);
+  }
+
+  private async getDependencyInventory(root: string, directOnly: boolean) {
+    const allowedLicenses = this.config.licenses.allowed;
+    const inventory = await inventoryDependencies(root, allowedLicenses);
+    const direct = inventory.dependencies.filter(dependency => dependency.direct);
+    const dependencies = directOnly ? direct : inventory.dependencies;
+
+    const describe = (dependency: Dependency) =>
+      `- ${dependency.name}@${dependency.version} (${dependency.ecosystem}): ${dependency.license ?? "unknown license"}`;
+    const duplicates = inventory.duplicates.map(duplicate => `- ${duplicate.name}: ${duplicate.versions.join(", ")}`);
+
+    return toolResult(`Dependency Inventory of ${root}:
+Lockfiles: ${inventory.lockfiles.join(", ") || "None found"}
+Dependencies: ${inventory.dependencies.length} (${direct.length} direct)
+Unknown Licenses: ${inventory.unknownLicenses}
+
+License Violations${allowedLicenses.length > 0 ? "" : " (check off: licenses.allowed is empty)"}:
+${inventory.licenseViolations.map(describe).join("\n") || "- None"}
+
+Duplicate Versions:
+${duplicates.join("\n") || "- None"}${directOnly ? `\n\nDirect Dependencies:\n${direct.map(describe).join("\n") || "- None"}` : ""}`, {
+      root,
+      lockfiles: inventory.lockfiles,
+      allowedLicenses,
+      total: inventory.dependencies.length,
+      direct: direct.length,
+      dependencies,
+      duplicates: inventory.duplicates,
+      licenseViolations: inventory.licenseViolations,
+      unknownLicenses: inventory.unknownLicenses,
+    });
+  }
+
+  private async inspectEnv(root: string, signal: AbortSignal) {
+    const inspection = await inspectEnv(root, process.env, signal);
+    const files = inspection.files.map(file =>
+      `- ${file.path}: ${file.keys} keys${file.template ? ", template" : ""}${file.tracked ? ", tracked by git" : ""}`
+    );
+    const invalid = inspection.variables
+      .filter(variable => variable.status === "invalid")
+      .map(variable => `- ${variable.key}=${variable.value}: ${variable.problem}`);
+    const secrets = inspection.committedSecrets.map(secret => `- ${secret.file}:${secret.line}: ${secret.kind}`);
+
+    return toolResult(`Environment of ${root}:
+Env Files:
+${files.join("\n") || "- None found"}
+
+Missing: ${inspection.missing.join(", ") || "None"}
+Not In Template: ${inspection.extra.join(", ") || "None"}
+
+Invalid Values:
+${invalid.join("\n") || "- None"}
+
+Committed Secrets${inspection.gitRepository ? ` (${inspection.scannedFiles} tracked files scanned)` : " (not a git repository)"}:
+${secrets.join("\n") || "- None"}`, inspection);
+  }
+
+  private async inspectProcesses(workspace: string, options: { port?: number; name?: string; signal: AbortSignal }) {
+    const report = await inspectProcesses(workspace, options);
+    const ports = report.ports.map(entry => {
+      const owner = entry.pid === null ? "owner unknown" : `pid ${entry.pid}: ${entry.command}`;
+      return `- ${entry.protocol} ${entry.address}:${entry.port} (${owner})${entry.inWorkspace ? " [workspace]" : ""}`;
+    });
+    const processes = report.processes.map(entry =>
+      `- ${entry.pid}: ${entry.command} in ${entry.cwd}${entry.ports.length > 0 ? ` (ports ${entry.ports.join(", ")})` : ""}`
+    );
+    const containers = report.containers.map(entry =>
+      `- ${entry.name} (${entry.runtime}, ${entry.image}): ${entry.status}${entry.ports.length > 0 ? ` (ports ${entry.ports.join(", ")})` : ""}`
+    );
+    const runtimes = report.runtimes.map(runtime => (runtime.error ? `${runtime.name} (${runtime.error})` : runtime.name));
+    const filters = [
+      options.port !== undefined ? `port ${options.port}` : "",
+      options.name ? `name "${options.name}"` : "",
+    ].filter(Boolean);
+
+    return toolResult(`Processes and Ports${filters.length > 0 ? ` matching ${filters.join(" and ")}` : ""}:
+Listening Ports${report.source ? "" : " (unavailable: no /proc and no lsof)"}:
+${ports.join("\n") || (options.port !== undefined ? `- Nothing listens on port ${options.port}` : "- None")}
+
+Workspace Processes (${workspace}):
+${processes.join("\n") || "- None"}
+
+Containers (${runtimes.join(", ") || "no docker or podman on PATH"}):
+${containers.join("\n") || "- None"}`, report);
+  }
+
+  private async listMcpClientConfigs(workspace: string) {
+    const report = await inspectMcpClients({ workspace, home: homedir() });
+    const configs = report.configs.map(config => {
+      const servers = config.servers.map(server => {
+        const target = server.url ?? [server.command, ...server.args].filter(Boolean).join(" ");
+        const collection = server.collection.length > 0
+          ? ` [${server.collection.join(", ")}${server.upToDate ? "" : ", not this build"}]`
+          : "";
+        return `  - ${server.name}: ${target}${collection}`;
+      });
+      const body = config.error ? [`  Unreadable: ${config.error}`] : servers.length > 0 ? servers : ["  - No servers"];
+      return [`${config.client} (${config.scope}) ${config.path}:`, ...body].join("\n");
+    });
+    const collection = report.collection.map(status => {
+      const state = !status.registered ? "not registered" : status.upToDate ? "registered" : "registered, not pointing at this build";
+      return `- ${status.server}: ${state}`;
+    });
+
+    return toolResult(`MCP Client Configs:
+${configs.join("\n\n") || "None found"}
+
+This Collection (${report.packageRoot}${report.built ? "" : ", not built: run npm run build"}):
+${collection.join("\n")}`, report);
+  }
+
+  private async registerMcpServers(options: {
+    client: string;
+    scope?: "user" | "project";
+    servers?: string[];
+    combined: boolean;
+    dryRun: boolean;
+    workspace: string;
+  }) {
+    const registration = await registerMcpServers({ ...options, home: homedir() });
+    const entries = registration.entries.map(entry => `- ${entry.name}: ${entry.command} ${entry.args.join(" ")}`);
+    const outcome = !registration.changed
+      ? "Already up to date"
+      : registration.applied
+        ? `${registration.created ? "Created" : "Updated"} ${registration.path}`
+        : `Dry run: ${registration.path} was not ${registration.created ? "created" : "changed"}; call again with dryRun false to apply`;
+
+    return toolResult(`${registration.client} (${registration.scope}) ${registration.path}:
+${entries.join("\n")}
+${registration.built ? "" : "\nWarning: dist/ is not built yet; run npm run build before starting the client\n"}
+${outcome}${registration.diff ? `\n\n${registration.diff}` : ""}`, registration);
+  }
+
+  private async runDoctor(workspace: string, signal: AbortSignal) {
+    const report = await runDoctor({ workspace, config: this.config, signal });
+    const titles: Record<string, string> = {
+      general: "General",
+      info: "Info",
+      "git-runner": "Git Runner",
+      memory: "Memory",
+      github: "GitHub",
+      rules: "Rules",
+    };
+    const marks = { pass: "✓", warn: "!", fail: "✗" };
+    const sections = [...new Set(report.checks.map(check => check.server))].map(server => {
+      const lines = report.checks
+        .filter(check => check.server === server)
+        .map(check => `  ${marks[check.status]} ${check.name}: ${check.message}${check.fix ? `\n    Fix: ${check.fix}` : ""}`);
+      return `${titles[server] ?? server}:\n${lines.join("\n")}`;
+    });
+    const { pass, warn, fail } = report.summary;
+
+    return toolResult(`Doctor Report for ${workspace}: ${pass} passed, ${warn} warnings, ${fail} failed
+
+${sections.join("\n\n")}`, report);
+  }
+
+  private async checkGHStatus() {
+    try {
+      // Check if gh is installed
+      const { stdout: versionOutput } = await runCommand("gh", ["--version"]);
+
+      // Check authentication status
+      let authenticated = false;
+      try {
+        await runCommand("gh", ["auth", "status"]);
+        authenticated = true;
+      } catch (authError) {
+        // Not logged in, or the token has expired
+      }
+      const authStatus = authenticated ? "Authenticated" : "Not authenticated or expired";
+
+      return toolResult(`GitHub CLI Status:
+Installation: ✓ Installed
+${versionOutput.trim()}
+Authentication: ${authStatus}
+
+Available commands:
+- gh repo: Repository operations
+- gh issue: Issue management
+- gh pr: Pull request operations
+- gh auth: Authentication management
+- gh api: Direct API access`, {
+        installed: true,
+        version: versionOutput.trim().split("\n")[0],
+        authenticated,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return toolResult(`GitHub CLI Status:
+Installation: ✗ Not installed or not in PATH
+Error: ${message}`, {
+        installed: false,
+        authenticated: false,
+        error: message,
+      });
+    }
+  }
+
+  private async checkAvailableAgents(workspace: string, client: string | undefined, signal: AbortSignal) {
+    const agents = await discoverAgents({ workspace, home: homedir(), client, signal });
+
+    const agentInfo = agents.map(agent => {
+      const credentials = [...agent.apiKeys, ...agent.credentialFiles];
+      const servers = agent.configFiles.map(file =>
+        `${file.path}: ${file.error ? `unreadable (${file.error})` : file.mcpServers.join(", ") || "no MCP servers"}`
+      );
+      return `${agent.name}${agent.current ? " (current client)" : ""}:
+  Status: ${agent.status}${agent.usable ? ", usable" : ""}
+  Command: ${agent.path ? `${agent.path} ${agent.version ?? "(unknown version)"}` : `${agent.command} not on PATH`}
+  Credentials: ${credentials.join(", ") || "None found"}
+  MCP Config: ${servers.join("; ") || "None"}`;
+    }).join("\n\n");
+    const usable = agents.filter(agent => agent.usable).map(agent => agent.name);
+
+    return toolResult(`Available AI Agents:
+
+${agentInfo}
+
+Usable: ${usable.join(", ") || "None"}`, { agents });
+  }
+
+  private async getEnvironmentInfo(cwd: string, roots: string[]) {
+    try {
+      let gitInfo = "Not a git repository";
+      let git: { isRepository: boolean; branch?: string; remote?: string | null; clean?: boolean } = {
+        isRepository: false,
+      };
+
+      try {
+        const { stdout: gitStatus } = await runCommand("git", ["status", "--porcelain"], { cwd });
+        const { stdout: gitBranch } = await runCommand("git", ["branch", "--show-current"], { cwd });
+        const remote = await runCommand("git", ["remote", "get-url", "origin"], { cwd })
+          .then(({ stdout }) => stdout.trim())
+          .catch(() => null);
+
+        git = {
+          isRepository: true,
+          branch: gitBranch.trim(),
+          remote,
+          clean: !gitStatus.trim(),
+        };
+        gitInfo = `Git Repository:
+  Branch: ${git.branch}
+  Remote: ${remote ?? "None"}
+  Status: ${git.clean ? "Clean working tree" : "Modified files present"}`;
+      } catch (gitError) {
+        // Not a git repo or git not available
+      }
+
+      // Check for common development files
+      const commonFiles = ['package.json', 'tsconfig.json', 'Cargo.toml', 'go.mod', 'requirements.txt'];
+      const existingFiles = commonFiles.filter(file => existsSync(join(cwd, file)));
+
+      return toolResult(`Environment Information:
+
+Current Directory: ${cwd}
+Client Roots: ${roots.length > 0 ? roots.join(", ") : "None"}
+
+${gitInfo}
+
+Project Files Detected: ${existingFiles.length > 0 ? existingFiles.join(", ") : "None"}
+
+Environment Variables:
+- HOME: ${process.env.HOME || "Not set"}
+- PATH: ${process.env.PATH ? "Set" : "Not set"}
+- NODE_ENV: ${process.env.NODE_ENV || "Not set"}`, {
+        cwd,
+        roots,
+        git,
+        projectFiles: existingFiles,
+        env: {
+          home: process.env.HOME || null,
+          pathSet: Boolean(process.env.PATH),
+          nodeEnv: process.env.NODE_ENV || null,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to get environment info: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { existsSync } from "fs";
+import { readFile, statfs } from "fs/promises";
+import os from "os";
+import { dirname } from "path";
+
+export interface DiskUsage {
+  /** What the volume holds, e.g. "workspace" or "memory". */
+  label: string;
+  path: string;
+  totalBytes: number;
+  freeBytes: number;
+  usedPercent: number;
+}
+
+export interface SystemReport {
+  hostname: string;
+  platform: string;
+  arch: string;
+  release: string;
+  nodeVersion: string;
+  cpu: { model: string; cores: number };
+  /** 1, 5 and 15 minute load averages; always zero on Windows. */
+  loadAverage: number[];
+  memory: { totalBytes: number; availableBytes: number; usedPercent: number };
+  disks: DiskUsage[];
+  uptimeSeconds: number;
+  user: string | null;
+  shell: string | null;
+  locale: string;
+  timezone: string;
+  container: string | null;
+  wsl: boolean;
+  ci: string | null;
+  timestamp: string;
+}
+
+/** Environment variables that CI services set, most specific first. */
+const CI_VARIABLES: [string, string][] = [
+  ["GITHUB_ACTIONS", "GitHub Actions"],
+  ["GITLAB_CI", "GitLab CI"],
+  ["CIRCLECI", "CircleCI"],
+  ["BUILDKITE", "Buildkite"],
+  ["JENKINS_URL", "Jenkins"],
+  ["TF_BUILD", "Azure Pipelines"],
+  ["BITBUCKET_BUILD_NUMBER", "Bitbucket Pipelines"],
+  ["TEAMCITY_VERSION", "TeamCity"],
+  ["TRAVIS", "Travis CI"],
+  ["CI", "CI"],
+];
+
+/** Markers in /proc/1/cgroup, for container runtimes that leave no marker file. */
+const CGROUP_RUNTIMES: [RegExp, string][] = [
+  [/kubepods/, "kubernetes"],
+  [/docker/, "docker"],
+  [/libpod/, "podman"],
+  [/containerd/, "containerd"],
+  [/lxc/, "lxc"],
+];
+
+export function detectCi(env: NodeJS.ProcessEnv): string | null {
+  const found = CI_VARIABLES.find(([name]) => env[name] && env[name] !== "false");
+  return found ? found[1] : null;
+}
+
+export function detectWsl(platform: string, release: string, env: NodeJS.ProcessEnv): boolean {
+  return platform === "linux" && (/microsoft/i.test(release) || Boolean(env.WSL_DISTRO_NAME));
+}
+
+/**
+ * Names the container runtime from what it leaves behind: marker files, the
+ * `container` variable systemd and Podman set, Kubernetes service variables,
+ * or the cgroup of PID 1.
+ */
+export function detectContainer(probe: {
+  env: NodeJS.ProcessEnv;
+  files: string[];
+  cgroup: string;
+}): string | null {
+  if (probe.env.KUBERNETES_SERVICE_HOST) return "kubernetes";
+  if (probe.files.includes("/run/.containerenv")) return "podman";
+  if (probe.files.includes("/.dockerenv")) return "docker";
+  if (probe.env.container) return probe.env.container;
+  return CGROUP_RUNTIMES.find(([pattern]) => pattern.test(probe.cgroup))?.[1] ?? null;
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+}
+
+/**
+ * Memory that can be used without swapping. os.freemem() leaves out the page
+ * cache on Linux, which makes a busy machine look full.
+ */
+async function availableMemory(): Promise<number> {
+  if (process.platform === "linux") {
+    const meminfo = await readFile("/proc/meminfo", "utf-8").catch(() => "");
+    const available = /^MemAvailable:\s+(\d+) kB/m.exec(meminfo);
+    if (available) return Number(available[1]) * 1024;
+  }
+  return os.freemem();
+}
+
+/**
+ * Usage of the volume holding `path`. Storage directories may not exist
+ * yet, so the nearest existing parent is measured instead.
+ */
+async function diskUsage(label: string, path: string): Promise<DiskUsage | null> {
+  let existing = path;
+  while (!existsSync(existing) && dirname(existing) !== existing) {
+    existing = dirname(existing);
+  }
+  try {
+    const stats = await statfs(existing);
+    const totalBytes = stats.blocks * stats.bsize;
+    const freeBytes = stats.bavail * stats.bsize;
+    return { label, path, totalBytes, freeBytes, usedPercent: percent(totalBytes - freeBytes, totalBytes) };
+  } catch {
+    return null;
+  }
+}
+
+function currentUser(): string | null {
+  try {
+    return os.userInfo().username;
+  } catch {
+    // No passwd entry, e.g. a container started with an arbitrary UID
+    return process.env.USER || process.env.USERNAME || null;
+  }
+}
+
+/**
+ * Describes the host an agent is about to run builds and tests on.
+ * `volumes` maps a label to a directory whose disk usage is reported.
+ */
+export async function collectSystemReport(volumes: Record<string, string>): Promise<SystemReport> {
+  const cpus = os.cpus();
+  const totalMemory = os.totalmem();
+  const available = await availableMemory();
+  const disks = await Promise.all(Object.entries(volumes).map(([label, path]) => diskUsage(label, path)));
+  const intl = Intl.DateTimeFormat().resolvedOptions();
+  const env = process.env;
+  const markers = ["/.dockerenv", "/run/.containerenv"].filter(file => existsSync(file));
+  const cgroup = process.platform === "linux" ? await readFile("/proc/1/cgroup", "utf-8").catch(() => "") : "";
+
+  return {
+    hostname: os.hostname(),
+    platform: process.platform,
+    arch: process.arch,
+    release: os.release(),
+    nodeVersion: process.version,
+    cpu: { model: cpus[0]?.model.trim() ?? "unknown", cores: os.availableParallelism() },
+    loadAverage: os.loadavg().map(load => Math.round(load * 100) / 100),
+    memory: { totalBytes: totalMemory, availableBytes: available, usedPercent: percent(totalMemory - available, totalMemory) },
+    disks: disks.filter((disk): disk is DiskUsage => disk !== null),
+    uptimeSeconds: Math.round(os.uptime()),
+    user: currentUser(),
+    shell: env.SHELL || env.ComSpec || null,
+    locale: env.LC_ALL || env.LC_MESSAGES || env.LANG || intl.locale,
+    timezone: intl.timeZone,
+    container: detectContainer({ env, files: markers, cgroup }),
+    wsl: detectWsl(process.platform, os.release(), env),
+    ci: detectCi(env),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KiB", "MiB", "GiB", "TiB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,246 @@
+import { existsSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import { join } from "path";
+import semver from "semver";
+import { findExecutable, runCommand } from "../../shared/command-runner.js";
+
+interface ToolchainProbe {
+  name: string;
+  category: string;
+  /** Tried in order; the first one on PATH is used, e.g. python3 before python. */
+  commands: string[];
+  args: string[];
+}
+
+export interface DetectedTool {
+  name: string;
+  category: string;
+  installed: boolean;
+  path: string | null;
+  version: string | null;
+  /** Why the version could not be read, for tools that are installed. */
+  error?: string;
+}
+
+/** A tool installed inside the workspace, found without running it. */
+export interface LocalTool {
+  name: string;
+  category: string;
+  source: "node_modules" | "virtualenv";
+  path: string;
+  /** From the package's metadata; null when it has none. */
+  version: string | null;
+}
+
+export interface VersionConstraint {
+  tool: string;
+  /** A semver range, e.g. ">=20" or "3.12". */
+  range: string;
+  /** Where the project declares it, e.g. "package.json engines.node". */
+  source: string;
+}
+
+export interface ConstraintCheck extends VersionConstraint {
+  installed: string | null;
+  /** Null when the tool is missing or the constraint is not a version, like "lts/*" or "stable". */
+  satisfied: boolean | null;
+}
+
+const version = ["--version"];
+
+export const TOOLCHAIN_PROBES: ToolchainProbe[] = [
+  { name: "git", category: "vcs", commands: ["git"], args: version },
+  { name: "node", category: "javascript", commands: ["node"], args: version },
+  { name: "npm", category: "javascript", commands: ["npm"], args: version },
+  { name: "pnpm", category: "javascript", commands: ["pnpm"], args: version },
+  { name: "yarn", category: "javascript", commands: ["yarn"], args: version },
+  { name: "bun", category: "javascript", commands: ["bun"], args: version },
+  { name: "python", category: "python", commands: ["python3", "python"], args: version },
+  { name: "pip", category: "python", commands: ["pip3", "pip"], args: version },
+  { name: "uv", category: "python", commands: ["uv"], args: version },
+  { name: "poetry", category: "python", commands: ["poetry"], args: version },
+  { name: "go", category: "go", commands: ["go"], args: ["version"] },
+  { name: "rustc", category: "rust", commands: ["rustc"], args: version },
+  { name: "cargo", category: "rust", commands: ["cargo"], args: version },
+  { name: "java", category: "java", commands: ["java"], args: ["-version"] },
+  { name: "mvn", category: "java", commands: ["mvn"], args: version },
+  { name: "gradle", category: "java", commands: ["gradle"], args: version },
+  { name: "dotnet", category: "dotnet", commands: ["dotnet"], args: version },
+  { name: "docker", category: "containers", commands: ["docker"], args: version },
+  { name: "podman", category: "containers", commands: ["podman"], args: version },
+  { name: "make", category: "build", commands: ["make"], args: version },
+  { name: "cmake", category: "build", commands: ["cmake"], args: version },
+  { name: "eslint", category: "linter", commands: ["eslint"], args: version },
+  { name: "prettier", category: "linter", commands: ["prettier"], args: version },
+  { name: "ruff", category: "linter", commands: ["ruff"], args: version },
+  { name: "black", category: "linter", commands: ["black"], args: version },
+  { name: "flake8", category: "linter", commands: ["flake8"], args: version },
+  { name: "golangci-lint", category: "linter", commands: ["golangci-lint"], args: version },
+  { name: "shellcheck", category: "linter", commands: ["shellcheck"], args: version },
+];
+
+/** JVM tools take a while to start; anything slower than this is reported as failing. */
+const PROBE_TIMEOUT_MS = 15_000;
+const PROBE_CONCURRENCY = 4;
+
+/**
+ * The first version number in a tool's banner: "go version go1.22.3 linux/amd64",
+ * `openjdk version "21.0.2"`, "Python 3.12.1".
+ */
+export function parseVersion(output: string): string | null {
+  return /\d+\.\d+(?:\.\d+)?/.exec(output)?.[0] ?? null;
+}
+
+/** Reads the version an installed npm package or Python distribution declares, without running it. */
+async function installedVersion(workspace: string, source: LocalTool["source"], name: string): Promise<string | null> {
+  if (source === "node_modules") {
+    const manifest = await readText(join(workspace, "node_modules", name, "package.json")).catch(() => null);
+    try {
+      return manifest ? (JSON.parse(manifest).version ?? null) : null;
+    } catch {
+      return null;
+    }
+  }
+  const lib = join(workspace, ".venv", process.platform === "win32" ? "Lib" : "lib");
+  const sitePackages = process.platform === "win32"
+    ? [join(lib, "site-packages")]
+    : (await readdir(lib).catch(() => [] as string[])).filter(dir => dir.startsWith("python")).map(dir => join(lib, dir, "site-packages"));
+  const distribution = new RegExp(`^${name.replace(/[-_.]+/g, "[-_.]")}-(.+)\\.dist-info$`, "i");
+  for (const dir of sitePackages) {
+    for (const entry of await readdir(dir).catch(() => [] as string[])) {
+      const version = distribution.exec(entry)?.[1];
+      if (version) return version;
+    }
+  }
+  return null;
+}
+
+/**
+ * Tools the project installs for itself in node_modules/.bin or .venv. They
+ * are located and their versions read from package metadata, but never run:
+ * a cloned repository decides what they do, and this is a read-only tool.
+ */
+export async function findLocalTools(workspace: string, probes: ToolchainProbe[]): Promise<LocalTool[]> {
+  const binDirs: [LocalTool["source"], string][] = [
+    ["node_modules", join(workspace, "node_modules", ".bin")],
+    ["virtualenv", join(workspace, ".venv", process.platform === "win32" ? "Scripts" : "bin")],
+  ];
+  const found: LocalTool[] = [];
+  for (const tool of probes) {
+    for (const [source, dir] of binDirs) {
+      const path = tool.commands.map(command => findExecutable(command, { PATH: dir, PATHEXT: process.env.PATHEXT })).find(Boolean);
+      if (path) {
+        found.push({ name: tool.name, category: tool.category, source, path, version: await installedVersion(workspace, source, tool.name) });
+      }
+    }
+  }
+  return found;
+}
+
+async function probe(tool: ToolchainProbe, env: NodeJS.ProcessEnv, signal?: AbortSignal): Promise<DetectedTool> {
+  const path = tool.commands.map(command => findExecutable(command, env)).find(Boolean) ?? null;
+  const detected = { name: tool.name, category: tool.category, installed: path !== null, path };
+  if (!path) {
+    return { ...detected, version: null };
+  }
+
+  try {
+    const { stdout, stderr } = await runCommand(path, tool.args, { env, signal, timeoutMs: PROBE_TIMEOUT_MS });
+    // java prints its version on stderr
+    return { ...detected, version: parseVersion(stdout) ?? parseVersion(stderr) };
+  } catch (error) {
+    signal?.throwIfAborted();
+    return { ...detected, version: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Probes the given tools on PATH a few at a time, running each to read its
+ * version. The workspace's own tool directories are left out; see
+ * findLocalTools. `onProbed` is called after each one.
+ */
+export async function detectToolchains(
+  probes: ToolchainProbe[],
+  options: { signal?: AbortSignal; onProbed?: (done: number) => void } = {}
+): Promise<DetectedTool[]> {
+  const results: DetectedTool[] = new Array(probes.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < probes.length) {
+      const index = next++;
+      results[index] = await probe(probes[index], process.env, options.signal);
+      options.onProbed?.(++done);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(PROBE_CONCURRENCY, probes.length) }, worker));
+  return results;
+}
+
+async function readText(path: string): Promise<string | null> {
+  return existsSync(path) ? readFile(path, "utf-8") : null;
+}
+
+/** First non-comment line of a version file like .nvmrc. */
+function firstLine(text: string): string | null {
+  return text.split(/\r?\n/).map(line => line.trim()).find(line => line && !line.startsWith("#")) ?? null;
+}
+
+/**
+ * Version constraints the project declares in package.json (`engines` and
+ * `packageManager`), .nvmrc, .node-version, .python-version, rust-toolchain
+ * and go.mod.
+ */
+export async function readVersionConstraints(workspace: string): Promise<VersionConstraint[]> {
+  const constraints: VersionConstraint[] = [];
+  const add = (tool: string, range: string | null | undefined, source: string) => {
+    if (range) constraints.push({ tool, range, source });
+  };
+
+  const packageJson = await readText(join(workspace, "package.json"));
+  if (packageJson) {
+    try {
+      const manifest = JSON.parse(packageJson);
+      for (const [tool, range] of Object.entries(manifest.engines ?? {})) {
+        if (typeof range === "string") add(tool, range, `package.json engines.${tool}`);
+      }
+      const packageManager = /^(npm|pnpm|yarn|bun)@([^+]+)/.exec(manifest.packageManager ?? "");
+      if (packageManager) add(packageManager[1], packageManager[2], "package.json packageManager");
+    } catch {
+      // An unreadable manifest declares nothing
+    }
+  }
+
+  for (const file of [".nvmrc", ".node-version"]) {
+    const text = await readText(join(workspace, file));
+    add("node", text && firstLine(text)?.replace(/^v/, ""), file);
+  }
+
+  const pythonVersion = await readText(join(workspace, ".python-version"));
+  add("python", pythonVersion && firstLine(pythonVersion), ".python-version");
+
+  const rustToolchain = await readText(join(workspace, "rust-toolchain"));
+  add("rustc", rustToolchain && firstLine(rustToolchain), "rust-toolchain");
+  const rustToolchainToml = await readText(join(workspace, "rust-toolchain.toml"));
+  add("rustc", rustToolchainToml && /^\s*channel\s*=\s*"([^"]+)"/m.exec(rustToolchainToml)?.[1], "rust-toolchain.toml");
+
+  const goMod = await readText(join(workspace, "go.mod"));
+  const goDirective = goMod && /^go\s+(\d+\.\d+(?:\.\d+)?)\s*$/m.exec(goMod)?.[1];
+  add("go", goDirective && `>=${goDirective}`, "go.mod");
+
+  return constraints;
+}
+
+export function checkConstraints(constraints: VersionConstraint[], tools: DetectedTool[]): ConstraintCheck[] {
+  return constraints.map(constraint => {
+    const installed = tools.find(tool => tool.name === constraint.tool)?.version ?? null;
+    const range = semver.validRange(constraint.range, { loose: true });
+    const coerced = installed ? semver.coerce(installed) : null;
+    return {
+      ...constraint,
+      installed,
+      satisfied: range && coerced ? semver.satisfies(coerced, range) : null,
+    };
+  });
+}
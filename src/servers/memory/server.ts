@@ -0,0 +1,559 @@
+import { readFile, writeFile, mkdir, readdir, stat } from "fs/promises";
+import { join, dirname } from "path";
+import { existsSync } from "fs";
+import { BaseMCPServer, defineTool, fileTransferSchema, toolResult, ToolRuntime } from "../../shared/base-server.js";
+import { ResolvedConfig } from "../../shared/config.js";
+
+interface MemoryEntry {
+  id: string;
+  project: string;
+  category: string;
+  title: string;
+  content: string;
+  tags: string[];
+  timestamp: string;
+  context: {
+    language?: string;
+    framework?: string;
+    problem?: string;
+    solution?: string;
+  };
+}
+
+interface SearchResult {
+  entry: MemoryEntry;
+  similarity: number;
+  relevantTags: string[];
+}
+
+const memoryEntrySchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    project: { type: "string" },
+    category: { type: "string" },
+    title: { type: "string" },
+    content: { type: "string" },
+    tags: { type: "array", items: { type: "string" } },
+    timestamp: { type: "string" },
+    context: { type: "object" },
+  },
+  required: ["id", "project", "category", "title", "content", "tags", "timestamp"],
+} as const;
+
+const countsSchema = (key: string) => ({
+  type: "array",
+  items: {
+    type: "object",
+    properties: { [key]: { type: "string" }, count: { type: "integer" } },
+    required: [key, "count"],
+  },
+});
+
+interface StoreExperienceArgs {
+  project: string;
+  category: string;
+  title: string;
+  content: string;
+  tags?: string[];
+  context?: MemoryEntry["context"];
+}
+
+interface SearchMemoriesArgs {
+  query: string;
+  project?: string;
+  category?: string;
+  tags?: string[];
+  limit?: number;
+}
+
+interface ExportMemoriesArgs {
+  format?: "json" | "markdown";
+  project?: string;
+}
+
+interface ImportMemoriesArgs {
+  filePath: string;
+  format?: "json" | "markdown";
+}
+
+export class MemoryMCPServer extends BaseMCPServer {
+  private memoryPath: string;
+  private memories: MemoryEntry[] = [];
+
+  constructor(config: ResolvedConfig) {
+    super(
+      {
+        name: "memory-mcp",
+        version: "1.0.0",
+        displayName: "Memory MCP Server",
+      },
+      config
+    );
+    this.memoryPath = config.memory.storagePath;
+
+    this.registerTools([
+      defineTool({
+        name: "store_experience",
+        description: "Store a new experience or learning in memory",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project: { type: "string", description: "Project name" },
+            category: { type: "string", description: "Experience category (bug, solution, pattern, etc.)" },
+            title: { type: "string", description: "Brief title of the experience" },
+            content: { type: "string", description: "Detailed description of the experience" },
+            tags: { type: "array", items: { type: "string" }, description: "Relevant tags" },
+            context: {
+              type: "object",
+              properties: {
+                language: { type: "string" },
+                framework: { type: "string" },
+                problem: { type: "string" },
+                solution: { type: "string" },
+              },
+            },
+          },
+          required: ["project", "category", "title", "content"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: { memory: memoryEntrySchema },
+          required: ["memory"],
+        },
+        handler: (args) => this.storeExperience(args),
+        affects: (_args, result) => [{ type: "memory", id: result.memory.id }],
+      }),
+      defineTool({
+        name: "search_memories",
+        description: "Search memories using RAG-like similarity matching",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "Search query" },
+            project: { type: "string", description: "Filter by project (optional)" },
+            category: { type: "string", description: "Filter by category (optional)" },
+            tags: { type: "array", items: { type: "string" }, description: "Filter by tags (optional)" },
+            limit: { type: "integer", minimum: 1, description: "Maximum number of results", default: 5 },
+          },
+          required: ["query"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string" },
+            results: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  entry: memoryEntrySchema,
+                  similarity: { type: "number" },
+                  relevantTags: { type: "array", items: { type: "string" } },
+                },
+                required: ["entry", "similarity", "relevantTags"],
+              },
+            },
+          },
+          required: ["query", "results"],
+        },
+        handler: (args) => this.searchMemories(args),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "get_memory_stats",
+        description: "Get statistics about stored memories",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            totalMemories: { type: "integer" },
+            totalProjects: { type: "integer" },
+            totalCategories: { type: "integer" },
+            totalUniqueTags: { type: "integer" },
+            projects: countsSchema("project"),
+            categories: countsSchema("category"),
+            tags: { type: "array", items: { type: "string" } },
+            latest: { type: "array", items: memoryEntrySchema },
+          },
+          required: [
+            "totalMemories",
+            "totalProjects",
+            "totalCategories",
+            "totalUniqueTags",
+            "projects",
+            "categories",
+            "tags",
+            "latest",
+          ],
+        },
+        handler: () => this.getMemoryStats(),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "export_memories",
+        description: "Export memories to a file",
+        inputSchema: {
+          type: "object",
+          properties: {
+            format: { type: "string", enum: ["json", "markdown"], default: "json" },
+            project: { type: "string", description: "Filter by project (optional)" },
+          },
+        },
+        outputSchema: fileTransferSchema(["count"]),
+        handler: (args, { signal }) => this.exportMemories(args, signal),
+      }),
+      defineTool({
+        name: "import_memories",
+        description: "Import memories from a file",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filePath: { type: "string", description: "Path to the file to import" },
+            format: { type: "string", enum: ["json", "markdown"], default: "json" },
+          },
+          required: ["filePath"],
+        },
+        outputSchema: fileTransferSchema(["imported", "total"], { ids: { type: "array", items: { type: "string" } } }),
+        handler: (args, runtime) => this.importMemories(args, runtime),
+        affects: (_args, result) => result.ids.map((id: string) => ({ type: "memory", id })),
+      }),
+    ]);
+
+    this.registerResources([
+      {
+        uri: "memory://experiences",
+        name: "All Experiences",
+        description: "Access to all stored experiences and learnings",
+        mimeType: "application/json",
+        read: async () => JSON.stringify(this.memories, null, 2),
+      },
+      {
+        uri: "memory://projects",
+        name: "Project List",
+        description: "List of all projects with stored experiences",
+        mimeType: "application/json",
+        read: async () => JSON.stringify([...new Set(this.memories.map(m => m.project))], null, 2),
+      },
+    ]);
+
+    this.registerPrompts([
+      {
+        name: "recall_experiences",
+        description: "Recall past experiences about a topic before starting work on it",
+        arguments: [
+          { name: "topic", description: "What you are about to work on, e.g. cache invalidation", required: true },
+          { name: "project", description: "Only recall experiences from this project" },
+        ],
+        get: (args) => this.recallExperiencesPrompt(args),
+      },
+    ]);
+  }
+
+  protected async onStart(): Promise<void> {
+    await this.loadMemories();
+  }
+
+  private async loadMemories(): Promise<void> {
+    try {
+      if (!existsSync(this.memoryPath)) {
+        await mkdir(this.memoryPath, { recursive: true });
+      }
+
+      const memoriesFile = join(this.memoryPath, "memories.json");
+      if (existsSync(memoriesFile)) {
+        const data = await readFile(memoriesFile, "utf-8");
+        this.memories = JSON.parse(data);
+      }
+    } catch (error) {
+      this.logger.error("Failed to load memories", { path: this.memoryPath, error });
+      this.memories = [];
+    }
+  }
+
+  private async saveMemories(): Promise<void> {
+    try {
+      if (!existsSync(this.memoryPath)) {
+        await mkdir(this.memoryPath, { recursive: true });
+      }
+
+      const memoriesFile = join(this.memoryPath, "memories.json");
+      await writeFile(memoriesFile, JSON.stringify(this.memories, null, 2));
+    } catch (error) {
+      throw new Error(`Failed to save memories: ${error}`);
+    }
+  }
+
+  private generateId(): string {
+    return `mem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private async storeExperience(args: StoreExperienceArgs) {
+    const memory: MemoryEntry = {
+      id: this.generateId(),
+      project: args.project,
+      category: args.category,
+      title: args.title,
+      content: args.content,
+      tags: args.tags || [],
+      timestamp: new Date().toISOString(),
+      context: args.context || {},
+    };
+
+    this.memories.push(memory);
+    await this.saveMemories();
+
+    return toolResult(`Experience stored successfully!
+ID: ${memory.id}
+Project: ${memory.project}
+Category: ${memory.category}
+Title: ${memory.title}
+Tags: ${memory.tags.join(", ")}
+Timestamp: ${memory.timestamp}`, { memory });
+  }
+
+  private calculateSimilarity(query: string, memory: MemoryEntry): number {
+    const queryLower = query.toLowerCase();
+    let score = 0;
+
+    // Check title match (high weight)
+    if (memory.title.toLowerCase().includes(queryLower)) {
+      score += 50;
+    }
+
+    // Check content match (medium weight)
+    const contentMatches = memory.content.toLowerCase().split(queryLower).length - 1;
+    score += contentMatches * 20;
+
+    // Check tag matches (high weight)
+    const tagMatches = memory.tags.filter(tag =>
+      tag.toLowerCase().includes(queryLower) || queryLower.includes(tag.toLowerCase())
+    ).length;
+    score += tagMatches * 30;
+
+    // Check context matches (medium weight)
+    const contextText = Object.values(memory.context).join(" ").toLowerCase();
+    if (contextText.includes(queryLower)) {
+      score += 25;
+    }
+
+    // Check category match (medium weight)
+    if (memory.category.toLowerCase().includes(queryLower)) {
+      score += 25;
+    }
+
+    return score;
+  }
+
+  private async searchMemories(args: SearchMemoriesArgs) {
+    const { query, project, category, tags, limit = 5 } = args;
+
+    let filteredMemories = this.memories;
+
+    // Apply filters
+    if (project) {
+      filteredMemories = filteredMemories.filter(m =>
+        m.project.toLowerCase().includes(project.toLowerCase())
+      );
+    }
+
+    if (category) {
+      filteredMemories = filteredMemories.filter(m =>
+        m.category.toLowerCase().includes(category.toLowerCase())
+      );
+    }
+
+    if (tags && tags.length > 0) {
+      filteredMemories = filteredMemories.filter(m =>
+        tags.some((tag: string) =>
+          m.tags.some(memTag => memTag.toLowerCase().includes(tag.toLowerCase()))
+        )
+      );
+    }
+
+    // Calculate similarity scores
+    const results: SearchResult[] = filteredMemories
+      .map(memory => ({
+        entry: memory,
+        similarity: this.calculateSimilarity(query, memory),
+        relevantTags: memory.tags.filter(tag =>
+          tag.toLowerCase().includes(query.toLowerCase()) ||
+          query.toLowerCase().includes(tag.toLowerCase())
+        ),
+      }))
+      .filter(result => result.similarity > 0)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+
+    if (results.length === 0) {
+      return toolResult(`No memories found for query: "${query}"`, { query, results });
+    }
+
+    const resultsText = results.map((result, index) =>
+      `${index + 1}. [Score: ${result.similarity}] ${result.entry.title}
+   Project: ${result.entry.project}
+   Category: ${result.entry.category}
+   Tags: ${result.entry.tags.join(", ")}
+   Relevant Tags: ${result.relevantTags.join(", ")}
+   Date: ${new Date(result.entry.timestamp).toLocaleDateString()}
+
+   ${result.entry.content}
+
+   Context: ${JSON.stringify(result.entry.context, null, 2)}
+`).join("\n---\n\n");
+
+    return toolResult(`Found ${results.length} relevant memories for "${query}":
+
+${resultsText}`, { query, results });
+  }
+
+  private async recallExperiencesPrompt(args: Record<string, string>): Promise<string> {
+    const { topic, project } = args;
+    const search = await this.searchMemories({ query: topic, project, limit: 10 });
+
+    return `Before working on "${topic}", recall what we learned about it${project ? ` in ${project}` : ""}.
+
+${search.content[0].text}
+
+Summarize the lessons that apply, call out past mistakes to avoid, and say so if none of these experiences are relevant.`;
+  }
+
+  private async getMemoryStats() {
+    const projects = [...new Set(this.memories.map(m => m.project))];
+    const categories = [...new Set(this.memories.map(m => m.category))];
+    const allTags = [...new Set(this.memories.flatMap(m => m.tags))];
+
+    const projectCounts = projects.map(project => ({
+      project,
+      count: this.memories.filter(m => m.project === project).length,
+    }));
+
+    const categoryCounts = categories.map(category => ({
+      category,
+      count: this.memories.filter(m => m.category === category).length,
+    }));
+
+    const latest = [...this.memories]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, 5);
+
+    return toolResult(`Memory Statistics:
+
+Total Memories: ${this.memories.length}
+Total Projects: ${projects.length}
+Total Categories: ${categories.length}
+Total Unique Tags: ${allTags.length}
+
+Projects:
+${projectCounts.map(p => `  ${p.project}: ${p.count} memories`).join("\n")}
+
+Categories:
+${categoryCounts.map(c => `  ${c.category}: ${c.count} memories`).join("\n")}
+
+Most Used Tags:
+${allTags.slice(0, 10).join(", ")}
+
+Latest Memories:
+${latest.map(m => `  ${m.title} (${m.project})`).join("\n")}`, {
+      totalMemories: this.memories.length,
+      totalProjects: projects.length,
+      totalCategories: categories.length,
+      totalUniqueTags: allTags.length,
+      projects: projectCounts,
+      categories: categoryCounts,
+      tags: allTags,
+      latest,
+    });
+  }
+
+  private async exportMemories(args: ExportMemoriesArgs, signal: AbortSignal) {
+    const { format = "json", project } = args;
+
+    let memoriesToExport = this.memories;
+    if (project) {
+      memoriesToExport = this.memories.filter(m =>
+        m.project.toLowerCase().includes(project.toLowerCase())
+      );
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const filename = `memories_export_${timestamp}.${format}`;
+    const filePath = join(this.memoryPath, filename);
+
+    if (format === "json") {
+      await writeFile(filePath, JSON.stringify(memoriesToExport, null, 2), { signal });
+    } else if (format === "markdown") {
+      const markdown = memoriesToExport.map(memory =>
+        `# ${memory.title}
+
+**Project:** ${memory.project}
+**Category:** ${memory.category}
+**Tags:** ${memory.tags.join(", ")}
+**Date:** ${new Date(memory.timestamp).toLocaleDateString()}
+
+## Content
+${memory.content}
+
+## Context
+\`\`\`json
+${JSON.stringify(memory.context, null, 2)}
+\`\`\`
+
+---
+`).join("\n");
+
+      await writeFile(filePath, markdown, { signal });
+    }
+
+    return toolResult(`Memories exported successfully!
+File: ${filePath}
+Format: ${format}
+Memories exported: ${memoriesToExport.length}`, { filePath, format, count: memoriesToExport.length });
+  }
+
+  private async importMemories(args: ImportMemoriesArgs, runtime: ToolRuntime) {
+    const { filePath, format = "json" } = args;
+
+    if (!existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+
+    const data = await readFile(filePath, { encoding: "utf-8", signal: runtime.signal });
+    let importedMemories: MemoryEntry[] = [];
+
+    if (format === "json") {
+      importedMemories = JSON.parse(data);
+    } else {
+      throw new Error("Markdown import not yet implemented");
+    }
+
+    // Validate and add unique IDs if needed; nothing is stored before every entry is done
+    for (const [index, memory] of importedMemories.entries()) {
+      runtime.signal.throwIfAborted();
+      if (!memory.id) {
+        memory.id = this.generateId();
+      }
+      if (!memory.timestamp) {
+        memory.timestamp = new Date().toISOString();
+      }
+      await runtime.progress(index + 1, importedMemories.length);
+    }
+
+    this.memories.push(...importedMemories);
+    await this.saveMemories();
+
+    return toolResult(`Memories imported successfully!
+File: ${filePath}
+Imported: ${importedMemories.length} memories
+Total memories: ${this.memories.length}`, {
+      filePath,
+      format,
+      imported: importedMemories.length,
+      total: this.memories.length,
+      ids: importedMemories.map(memory => memory.id),
+    });
+  }
+}
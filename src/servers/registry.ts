@@ -0,0 +1,26 @@
+import { BaseMCPServer } from "../shared/base-server.js";
+import { ResolvedConfig } from "../shared/config.js";
+import { GitHubMCPServer } from "./github/server.js";
+import { GitRunnerMCPServer } from "./git-runner/server.js";
+import { InfoMCPServer } from "./info/server.js";
+import { MemoryMCPServer } from "./memory/server.js";
+import { RulesMCPServer } from "./rules/server.js";
+
+/**
+ * All servers in the collection, keyed by the same names as their npm scripts.
+ */
+export const serverFactories = {
+  info: (config: ResolvedConfig) => new InfoMCPServer(config),
+  "git-runner": (config: ResolvedConfig) => new GitRunnerMCPServer(config),
+  memory: (config: ResolvedConfig) => new MemoryMCPServer(config),
+  github: (config: ResolvedConfig) => new GitHubMCPServer(config),
+  rules: (config: ResolvedConfig) => new RulesMCPServer(config),
+} satisfies Record<string, (config: ResolvedConfig) => BaseMCPServer>;
+
+export type ServerKey = keyof typeof serverFactories;
+
+export const serverKeys = Object.keys(serverFactories) as ServerKey[];
+
+export function isServerKey(key: string): key is ServerKey {
+  return Object.prototype.hasOwnProperty.call(serverFactories, key);
+}
@@ -0,0 +1,877 @@
+import { readFile, writeFile, mkdir, readdir } from "fs/promises";
+import { join } from "path";
+import { existsSync } from "fs";
+import { BaseMCPServer, defineTool, fileTransferSchema, toolResult, ToolRuntime } from "../../shared/base-server.js";
+import { ResolvedConfig } from "../../shared/config.js";
+
+interface Rule {
+  id: string;
+  title: string;
+  category: string;
+  description: string;
+  content: string;
+  tags: string[];
+  examples: string[];
+  relatedRules: string[];
+  timestamp: string;
+  version: string;
+}
+
+interface RuleCategory {
+  name: string;
+  description: string;
+  rules: string[];
+}
+
+const ruleSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    title: { type: "string" },
+    category: { type: "string" },
+    description: { type: "string" },
+    content: { type: "string" },
+    tags: { type: "array", items: { type: "string" } },
+    examples: { type: "array", items: { type: "string" } },
+    relatedRules: { type: "array", items: { type: "string" } },
+    timestamp: { type: "string" },
+    version: { type: "string" },
+  },
+  required: ["id", "title", "category", "content", "tags", "examples", "relatedRules", "timestamp"],
+} as const;
+
+const categorySchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    description: { type: "string" },
+    rules: { type: "array", items: { type: "string" } },
+  },
+  required: ["name", "description", "rules"],
+} as const;
+
+interface CreateRuleArgs {
+  title: string;
+  category: string;
+  description?: string;
+  content: string;
+  tags?: string[];
+  examples?: string[];
+}
+
+interface SearchRulesArgs {
+  query: string;
+  category?: string;
+  tags?: string[];
+  limit?: number;
+}
+
+interface RuleIdArgs {
+  id: string;
+}
+
+type UpdateRuleArgs = RuleIdArgs & Partial<Pick<Rule, "title" | "category" | "description" | "content" | "tags" | "examples">>;
+
+interface CreateCategoryArgs {
+  name: string;
+  description?: string;
+}
+
+interface GetRulesByCategoryArgs {
+  category: string;
+}
+
+interface ExportRulesArgs {
+  format?: "json" | "markdown";
+  category?: string;
+}
+
+interface ImportRulesArgs {
+  filePath: string;
+  format?: "json" | "markdown";
+}
+
+export class RulesMCPServer extends BaseMCPServer {
+  private rulesPath: string;
+  private rules: Rule[] = [];
+  private categories: RuleCategory[] = [];
+
+  constructor(config: ResolvedConfig) {
+    super(
+      {
+        name: "rules-mcp",
+        version: "1.0.0",
+        displayName: "Rules MCP Server",
+      },
+      config
+    );
+    this.rulesPath = config.rules.storagePath;
+
+    this.registerTools([
+      defineTool({
+        name: "create_rule",
+        description: "Create a new rule",
+        inputSchema: {
+          type: "object",
+          properties: {
+            title: { type: "string", description: "Rule title" },
+            category: { type: "string", description: "Rule category" },
+            description: { type: "string", description: "Brief description" },
+            content: { type: "string", description: "Detailed rule content" },
+            tags: { type: "array", items: { type: "string" }, description: "Rule tags" },
+            examples: { type: "array", items: { type: "string" }, description: "Usage examples" },
+          },
+          required: ["title", "category", "content"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: { rule: ruleSchema },
+          required: ["rule"],
+        },
+        handler: (args) => this.createRule(args),
+        affects: (_args, result) => [{ type: "rule", id: result.rule.id }],
+      }),
+      defineTool({
+        name: "search_rules",
+        description: "Search rules using RAG-like similarity matching",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "Search query" },
+            category: { type: "string", description: "Filter by category" },
+            tags: { type: "array", items: { type: "string" }, description: "Filter by tags" },
+            limit: { type: "integer", minimum: 1, description: "Maximum results", default: 5 },
+          },
+          required: ["query"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string" },
+            results: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  rule: ruleSchema,
+                  similarity: { type: "number" },
+                },
+                required: ["rule", "similarity"],
+              },
+            },
+          },
+          required: ["query", "results"],
+        },
+        handler: (args) => this.searchRules(args),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "get_rule_by_id",
+        description: "Get a specific rule by ID",
+        inputSchema: {
+          type: "object",
+          properties: {
+            id: { type: "string", description: "Rule ID" },
+          },
+          required: ["id"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            rule: ruleSchema,
+            relatedRules: { type: "array", items: ruleSchema },
+          },
+          required: ["rule", "relatedRules"],
+        },
+        handler: (args) => this.getRuleById(args),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "update_rule",
+        description: "Update an existing rule",
+        inputSchema: {
+          type: "object",
+          properties: {
+            id: { type: "string", description: "Rule ID" },
+            title: { type: "string" },
+            category: { type: "string" },
+            description: { type: "string" },
+            content: { type: "string" },
+            tags: { type: "array", items: { type: "string" } },
+            examples: { type: "array", items: { type: "string" } },
+          },
+          required: ["id"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: { rule: ruleSchema },
+          required: ["rule"],
+        },
+        handler: (args) => this.updateRule(args),
+        affects: (args) => [{ type: "rule", id: args.id }],
+      }),
+      defineTool({
+        name: "delete_rule",
+        description: "Delete a rule by ID",
+        inputSchema: {
+          type: "object",
+          properties: {
+            id: { type: "string", description: "Rule ID" },
+          },
+          required: ["id"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: { deletedId: { type: "string" } },
+          required: ["deletedId"],
+        },
+        handler: (args) => this.deleteRule(args),
+        affects: (args) => [{ type: "rule", id: args.id }],
+        dangerous: (args) => `this permanently deletes rule ${args.id}`,
+      }),
+      defineTool({
+        name: "list_categories",
+        description: "List all rule categories",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+        outputSchema: {
+          type: "object",
+          properties: { categories: { type: "array", items: categorySchema } },
+          required: ["categories"],
+        },
+        handler: () => this.listCategories(),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "create_category",
+        description: "Create a new rule category",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Category name" },
+            description: { type: "string", description: "Category description" },
+          },
+          required: ["name"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: { category: categorySchema },
+          required: ["category"],
+        },
+        handler: (args) => this.createCategory(args),
+        affects: (args) => [{ type: "category", id: args.name }],
+      }),
+      defineTool({
+        name: "get_rules_by_category",
+        description: "Get all rules in a specific category",
+        inputSchema: {
+          type: "object",
+          properties: {
+            category: { type: "string", description: "Category name" },
+          },
+          required: ["category"],
+        },
+        outputSchema: {
+          type: "object",
+          properties: {
+            category: { type: "string" },
+            rules: { type: "array", items: ruleSchema },
+          },
+          required: ["category", "rules"],
+        },
+        handler: (args) => this.getRulesByCategory(args),
+        readOnly: true,
+      }),
+      defineTool({
+        name: "export_rules",
+        description: "Export rules to a file",
+        inputSchema: {
+          type: "object",
+          properties: {
+            format: { type: "string", enum: ["json", "markdown"], default: "json" },
+            category: { type: "string", description: "Filter by category" },
+          },
+        },
+        outputSchema: fileTransferSchema(["count"]),
+        handler: (args, { signal }) => this.exportRules(args, signal),
+      }),
+      defineTool({
+        name: "import_rules",
+        description: "Import rules from a file",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filePath: { type: "string", description: "Path to import file" },
+            format: { type: "string", enum: ["json", "markdown"], default: "json" },
+          },
+          required: ["filePath"],
+        },
+        outputSchema: fileTransferSchema(["imported", "total"], { ids: { type: "array", items: { type: "string" } } }),
+        handler: (args, runtime) => this.importRules(args, runtime),
+        affects: (_args, result) => result.ids.map((id: string) => ({ type: "rule", id })),
+      }),
+    ]);
+
+    this.registerResources([
+      {
+        uri: "rules://all",
+        name: "All Rules",
+        description: "Access to all stored rules",
+        mimeType: "application/json",
+        read: async () => JSON.stringify(this.rules, null, 2),
+      },
+      {
+        uri: "rules://categories",
+        name: "Rule Categories",
+        description: "List of all rule categories",
+        mimeType: "application/json",
+        read: async () => JSON.stringify(this.categories, null, 2),
+      },
+    ]);
+
+    this.registerPrompts([
+      {
+        name: "apply_rules",
+        description: "Apply the team's coding rules to a task",
+        arguments: [
+          { name: "task", description: "The task to work on", required: true },
+          { name: "query", description: "Keywords to look up relevant rules (defaults to the task)" },
+          { name: "category", description: "Only use rules from this category" },
+        ],
+        get: (args) => this.applyRulesPrompt(args),
+      },
+    ]);
+  }
+
+  protected async onStart(): Promise<void> {
+    await this.loadRules();
+  }
+
+  private async loadRules(): Promise<void> {
+    try {
+      if (!existsSync(this.rulesPath)) {
+        await mkdir(this.rulesPath, { recursive: true });
+        await this.initializeDefaultRules();
+      }
+
+      const rulesFile = join(this.rulesPath, "rules.json");
+      const categoriesFile = join(this.rulesPath, "categories.json");
+
+      if (existsSync(rulesFile)) {
+        const rulesData = await readFile(rulesFile, "utf-8");
+        this.rules = JSON.parse(rulesData);
+      }
+
+      if (existsSync(categoriesFile)) {
+        const categoriesData = await readFile(categoriesFile, "utf-8");
+        this.categories = JSON.parse(categoriesData);
+      }
+    } catch (error) {
+      this.logger.error("Failed to load rules", { path: this.rulesPath, error });
+      this.rules = [];
+      this.categories = [];
+    }
+  }
+
+  private async saveRules(): Promise<void> {
+    try {
+      if (!existsSync(this.rulesPath)) {
+        await mkdir(this.rulesPath, { recursive: true });
+      }
+
+      const rulesFile = join(this.rulesPath, "rules.json");
+      const categoriesFile = join(this.rulesPath, "categories.json");
+
+      await writeFile(rulesFile, JSON.stringify(this.rules, null, 2));
+      await writeFile(categoriesFile, JSON.stringify(this.categories, null, 2));
+    } catch (error) {
+      throw new Error(`Failed to save rules: ${error}`);
+    }
+  }
+
+  private async initializeDefaultRules(): Promise<void> {
+    const defaultCategories: RuleCategory[] = [
+      {
+        name: "coding",
+        description: "Programming and development rules",
+        rules: [],
+      },
+      {
+        name: "git",
+        description: "Git workflow and versioning rules",
+        rules: [],
+      },
+      {
+        name: "security",
+        description: "Security best practices and rules",
+        rules: [],
+      },
+      {
+        name: "testing",
+        description: "Testing methodologies and practices",
+        rules: [],
+      },
+      {
+        name: "documentation",
+        description: "Documentation standards and guidelines",
+        rules: [],
+      },
+    ];
+
+    const defaultRules: Rule[] = [
+      {
+        id: "coding-001",
+        title: "Function Naming Convention",
+        category: "coding",
+        description: "Use descriptive and consistent function names",
+        content: "Functions should have clear, descriptive names that indicate their purpose. Use camelCase for JavaScript/TypeScript, snake_case for Python, and follow language-specific conventions.",
+        tags: ["naming", "functions", "conventions"],
+        examples: [
+          "getUserData() instead of getData()",
+          "calculateTotalPrice() instead of calc()",
+          "validateEmailAddress() instead of check()"
+        ],
+        relatedRules: ["coding-002"],
+        timestamp: new Date().toISOString(),
+        version: "1.0.0",
+      },
+      {
+        id: "git-001",
+        title: "Commit Message Format",
+        category: "git",
+        description: "Use conventional commit messages",
+        content: "Follow the format: type(scope): description\n\nTypes: feat, fix, docs, style, refactor, test, chore\nScope: optional, indicates the area of change\nDescription: brief summary in imperative mood",
+        tags: ["git", "commits", "messages"],
+        examples: [
+          "feat(auth): add user authentication",
+          "fix(api): resolve timeout issue",
+          "docs(readme): update installation guide"
+        ],
+        relatedRules: ["git-002"],
+        timestamp: new Date().toISOString(),
+        version: "1.0.0",
+      },
+      {
+        id: "security-001",
+        title: "Environment Variables",
+        category: "security",
+        description: "Never commit secrets to version control",
+        content: "Store sensitive information like API keys, passwords, and tokens in environment variables. Use .env files for local development and ensure they're in .gitignore.",
+        tags: ["security", "secrets", "environment"],
+        examples: [
+          "Use process.env.API_KEY instead of hardcoding",
+          "Add .env to .gitignore",
+          "Use different .env files for different environments"
+        ],
+        relatedRules: ["security-002"],
+        timestamp: new Date().toISOString(),
+        version: "1.0.0",
+      }
+    ];
+
+    this.categories = defaultCategories;
+    this.rules = defaultRules;
+
+    // Update category rule references
+    this.categories.forEach(category => {
+      category.rules = this.rules
+        .filter(rule => rule.category === category.name)
+        .map(rule => rule.id);
+    });
+
+    await this.saveRules();
+  }
+
+  private generateId(category: string): string {
+    const prefix = category.substring(0, 3).toLowerCase();
+    const count = this.rules.filter(r => r.category === category).length + 1;
+    return `${prefix}-${count.toString().padStart(3, '0')}`;
+  }
+
+  private calculateSimilarity(query: string, rule: Rule): number {
+    const queryLower = query.toLowerCase();
+    let score = 0;
+
+    // Title match (high weight)
+    if (rule.title.toLowerCase().includes(queryLower)) {
+      score += 50;
+    }
+
+    // Content match (medium weight)
+    const contentMatches = rule.content.toLowerCase().split(queryLower).length - 1;
+    score += contentMatches * 15;
+
+    // Tag matches (high weight)
+    const tagMatches = rule.tags.filter(tag =>
+      tag.toLowerCase().includes(queryLower) || queryLower.includes(tag.toLowerCase())
+    ).length;
+    score += tagMatches * 40;
+
+    // Category match (medium weight)
+    if (rule.category.toLowerCase().includes(queryLower)) {
+      score += 30;
+    }
+
+    // Description match (medium weight)
+    if (rule.description.toLowerCase().includes(queryLower)) {
+      score += 25;
+    }
+
+    // Examples match (low weight)
+    const exampleMatches = rule.examples.filter(example =>
+      example.toLowerCase().includes(queryLower)
+    ).length;
+    score += exampleMatches * 10;
+
+    return score;
+  }
+
+  private async createRule(args: CreateRuleArgs) {
+    const rule: Rule = {
+      id: this.generateId(args.category),
+      title: args.title,
+      category: args.category,
+      description: args.description || "",
+      content: args.content,
+      tags: args.tags || [],
+      examples: args.examples || [],
+      relatedRules: [],
+      timestamp: new Date().toISOString(),
+      version: "1.0.0",
+    };
+
+    this.rules.push(rule);
+
+    // Update category
+    let category = this.categories.find(c => c.name === args.category);
+    if (!category) {
+      category = {
+        name: args.category,
+        description: `Rules for ${args.category}`,
+        rules: [],
+      };
+      this.categories.push(category);
+    }
+    category.rules.push(rule.id);
+
+    await this.saveRules();
+
+    return toolResult(`Rule created successfully!
+ID: ${rule.id}
+Title: ${rule.title}
+Category: ${rule.category}
+Tags: ${rule.tags.join(", ")}`, { rule });
+  }
+
+  private async searchRules(args: SearchRulesArgs) {
+    const { query, category, tags, limit = 5 } = args;
+
+    let filteredRules = this.rules;
+
+    // Apply filters
+    if (category) {
+      filteredRules = filteredRules.filter(r =>
+        r.category.toLowerCase().includes(category.toLowerCase())
+      );
+    }
+
+    if (tags && tags.length > 0) {
+      filteredRules = filteredRules.filter(r =>
+        tags.some((tag: string) =>
+          r.tags.some(ruleTag => ruleTag.toLowerCase().includes(tag.toLowerCase()))
+        )
+      );
+    }
+
+    // Calculate similarity scores
+    const results = filteredRules
+      .map(rule => ({
+        rule,
+        similarity: this.calculateSimilarity(query, rule),
+      }))
+      .filter(result => result.similarity > 0)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+
+    if (results.length === 0) {
+      return toolResult(`No rules found for query: "${query}"`, { query, results });
+    }
+
+    const resultsText = results.map((result, index) =>
+      `${index + 1}. [Score: ${result.similarity}] ${result.rule.title} (${result.rule.id})
+   Category: ${result.rule.category}
+   Tags: ${result.rule.tags.join(", ")}
+   Description: ${result.rule.description}
+
+   ${result.rule.content}
+
+   Examples:
+   ${result.rule.examples.map(ex => `   - ${ex}`).join("\n")}
+`).join("\n---\n\n");
+
+    return toolResult(`Found ${results.length} relevant rules for "${query}":
+
+${resultsText}`, { query, results });
+  }
+
+  /**
+   * Uses the rules search_rules finds for the task; when nothing matches,
+   * falls back to every rule in the category, or every rule at all.
+   */
+  private async applyRulesPrompt(args: Record<string, string>): Promise<string> {
+    const { task, query, category } = args;
+
+    const search = await this.searchRules({ query: query || task, category, limit: 10 });
+    let rulesText = search.content[0].text;
+    if ((search.structuredContent!.results as unknown[]).length === 0) {
+      const rules = category
+        ? this.rules.filter(r => r.category.toLowerCase().includes(category.toLowerCase()))
+        : this.rules;
+      rulesText = rules.length > 0
+        ? rules.map(rule => `${rule.title} (${rule.id})\n${rule.content}`).join("\n\n")
+        : "No rules are stored yet.";
+    }
+
+    return `Apply our team's rules to the following task.
+
+Task:
+${task}
+
+Rules:
+${rulesText}
+
+Follow these rules while working on the task. If a rule conflicts with the task, point out the conflict instead of ignoring the rule.`;
+  }
+
+  private async getRuleById(args: RuleIdArgs) {
+    const { id } = args;
+    const rule = this.rules.find(r => r.id === id);
+
+    if (!rule) {
+      throw new Error(`Rule not found: ${id}`);
+    }
+
+    const related = rule.relatedRules
+      .map(relatedId => this.rules.find(r => r.id === relatedId))
+      .filter((r): r is Rule => r !== undefined);
+    const relatedRules = related.map(r => `${r.id}: ${r.title}`).join("\n   ");
+
+    return toolResult(`Rule: ${rule.title} (${rule.id})
+
+Category: ${rule.category}
+Description: ${rule.description}
+Tags: ${rule.tags.join(", ")}
+Version: ${rule.version}
+Created: ${new Date(rule.timestamp).toLocaleDateString()}
+
+Content:
+${rule.content}
+
+Examples:
+${rule.examples.map(ex => `- ${ex}`).join("\n")}
+
+${relatedRules ? `Related Rules:\n   ${relatedRules}` : ""}`, { rule, relatedRules: related });
+  }
+
+  private async updateRule(args: UpdateRuleArgs) {
+    const { id, ...updates } = args;
+    const ruleIndex = this.rules.findIndex(r => r.id === id);
+
+    if (ruleIndex === -1) {
+      throw new Error(`Rule not found: ${id}`);
+    }
+
+    this.rules[ruleIndex] = {
+      ...this.rules[ruleIndex],
+      ...updates,
+      timestamp: new Date().toISOString(),
+    };
+
+    await this.saveRules();
+
+    return toolResult(`Rule ${id} updated successfully!`, { rule: this.rules[ruleIndex] });
+  }
+
+  private async deleteRule(args: RuleIdArgs) {
+    const { id } = args;
+    const ruleIndex = this.rules.findIndex(r => r.id === id);
+
+    if (ruleIndex === -1) {
+      throw new Error(`Rule not found: ${id}`);
+    }
+
+    const rule = this.rules[ruleIndex];
+    this.rules.splice(ruleIndex, 1);
+
+    // Update category
+    const category = this.categories.find(c => c.name === rule.category);
+    if (category) {
+      category.rules = category.rules.filter(ruleId => ruleId !== id);
+    }
+
+    await this.saveRules();
+
+    return toolResult(`Rule ${id} deleted successfully!`, { deletedId: id });
+  }
+
+  private async listCategories() {
+    const categoryList = this.categories.map(category =>
+      `${category.name}: ${category.description}
+   Rules: ${category.rules.length}
+   Rule IDs: ${category.rules.join(", ")}`
+    ).join("\n\n");
+
+    return toolResult(`Rule Categories (${this.categories.length}):
+
+${categoryList}`, { categories: this.categories });
+  }
+
+  private async createCategory(args: CreateCategoryArgs) {
+    const { name, description = `Rules for ${name}` } = args;
+
+    if (this.categories.find(c => c.name === name)) {
+      throw new Error(`Category already exists: ${name}`);
+    }
+
+    const category: RuleCategory = {
+      name,
+      description,
+      rules: [],
+    };
+
+    this.categories.push(category);
+    await this.saveRules();
+
+    return toolResult(`Category '${name}' created successfully!`, { category });
+  }
+
+  private async getRulesByCategory(args: GetRulesByCategoryArgs) {
+    const { category } = args;
+
+    const rules = this.rules.filter(r =>
+      r.category.toLowerCase().includes(category.toLowerCase())
+    );
+
+    if (rules.length === 0) {
+      return toolResult(`No rules found in category: ${category}`, { category, rules });
+    }
+
+    const rulesList = rules.map(rule =>
+      `${rule.id}: ${rule.title}
+   Description: ${rule.description}
+   Tags: ${rule.tags.join(", ")}`
+    ).join("\n\n");
+
+    return toolResult(`Rules in category '${category}' (${rules.length}):
+
+${rulesList}`, { category, rules });
+  }
+
+  private async exportRules(args: ExportRulesArgs, signal: AbortSignal) {
+    const { format = "json", category } = args;
+
+    let rulesToExport = this.rules;
+    if (category) {
+      rulesToExport = this.rules.filter(r =>
+        r.category.toLowerCase().includes(category.toLowerCase())
+      );
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const filename = `rules_export_${timestamp}.${format}`;
+    const filePath = join(this.rulesPath, filename);
+
+    if (format === "json") {
+      await writeFile(filePath, JSON.stringify(rulesToExport, null, 2), { signal });
+    } else if (format === "markdown") {
+      const markdown = rulesToExport.map(rule =>
+        `# ${rule.title} (${rule.id})
+
+**Category:** ${rule.category}
+**Tags:** ${rule.tags.join(", ")}
+**Version:** ${rule.version}
+**Created:** ${new Date(rule.timestamp).toLocaleDateString()}
+
+## Description
+${rule.description}
+
+## Content
+${rule.content}
+
+## Examples
+${rule.examples.map(ex => `- ${ex}`).join("\n")}
+
+---
+`).join("\n");
+
+      await writeFile(filePath, markdown, { signal });
+    }
+
+    return toolResult(`Rules exported successfully!
+File: ${filePath}
+Format: ${format}
+Rules exported: ${rulesToExport.length}`, { filePath, format, count: rulesToExport.length });
+  }
+
+  private async importRules(args: ImportRulesArgs, runtime: ToolRuntime) {
+    const { filePath, format = "json" } = args;
+
+    if (!existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+
+    const data = await readFile(filePath, { encoding: "utf-8", signal: runtime.signal });
+    let importedRules: Rule[] = [];
+
+    if (format === "json") {
+      importedRules = JSON.parse(data);
+    } else {
+      throw new Error("Markdown import not yet implemented");
+    }
+
+    // Validate and update rules; nothing is stored before every entry is done
+    for (const [index, rule] of importedRules.entries()) {
+      runtime.signal.throwIfAborted();
+      if (!rule.id) {
+        rule.id = this.generateId(rule.category);
+      }
+      if (!rule.timestamp) {
+        rule.timestamp = new Date().toISOString();
+      }
+      await runtime.progress(index + 1, importedRules.length);
+    }
+
+    this.rules.push(...importedRules);
+
+    // Update categories
+    importedRules.forEach(rule => {
+      let category = this.categories.find(c => c.name === rule.category);
+      if (!category) {
+        category = {
+          name: rule.category,
+          description: `Rules for ${rule.category}`,
+          rules: [],
+        };
+        this.categories.push(category);
+      }
+      if (!category.rules.includes(rule.id)) {
+        category.rules.push(rule.id);
+      }
+    });
+
+    await this.saveRules();
+
+    return toolResult(`Rules imported successfully!
+File: ${filePath}
+Imported: ${importedRules.length} rules
+Total rules: ${this.rules.length}`, {
+      filePath,
+      format,
+      imported: importedRules.length,
+      total: this.rules.length,
+      ids: importedRules.map(rule => rule.id),
+    });
+  }
+}
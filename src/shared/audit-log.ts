@@ -0,0 +1,137 @@
+import { existsSync } from "fs";
+import { appendFile, mkdir, open, readFile } from "fs/promises";
+import { dirname } from "path";
+import { Logger } from "./logger.js";
+import { isSecretKey, REDACTED } from "./secrets.js";
+
+/** Something a tool call created or changed, e.g. `{ type: "issue", id: "42" }`. */
+export interface AffectedObject {
+  type: string;
+  id: string;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  server: string;
+  tool: string;
+  /** Arguments as received, with secrets redacted and long strings truncated. */
+  arguments: unknown;
+  durationMs: number;
+  outcome: "success" | "error";
+  error?: string;
+  affected: AffectedObject[];
+  client?: { name: string; version: string };
+  /** HTTP session the call arrived on; absent for stdio. */
+  sessionId?: string;
+}
+
+export interface AuditQuery {
+  server?: string;
+  tool?: string;
+  outcome?: AuditEntry["outcome"];
+  /** Only entries at or after this ISO timestamp. */
+  since?: string;
+  /** Only entries that affected an object with this ID. */
+  object?: string;
+  limit?: number;
+}
+
+const MAX_STRING_LENGTH = 500;
+
+/**
+ * Prepares tool arguments for the audit log: values under secret-looking keys
+ * are replaced and long strings (issue bodies, memory content) are cut short.
+ */
+export function redactArguments(value: unknown, key = ""): unknown {
+  if (key && isSecretKey(key)) {
+    return REDACTED;
+  }
+  if (typeof value === "string" && value.length > MAX_STRING_LENGTH) {
+    return `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length - MAX_STRING_LENGTH} more characters)`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactArguments(item));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactArguments(v, k)]));
+  }
+  return value;
+}
+
+/**
+ * Filters entries and returns the newest first.
+ */
+export function queryAuditEntries(entries: AuditEntry[], query: AuditQuery = {}): AuditEntry[] {
+  const since = query.since ? Date.parse(query.since) : undefined;
+
+  return entries
+    .filter(entry =>
+      (!query.server || entry.server === query.server) &&
+      (!query.tool || entry.tool === query.tool) &&
+      (!query.outcome || entry.outcome === query.outcome) &&
+      (since === undefined || Date.parse(entry.timestamp) >= since) &&
+      (!query.object || entry.affected.some(object => object.id === query.object || object.id.startsWith(query.object!)))
+    )
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, query.limit ?? entries.length);
+}
+
+/**
+ * Append-only JSONL log of tool invocations. Writes are serialized so that
+ * concurrent calls never interleave within a line.
+ */
+export class AuditLog {
+  private pending: Promise<void> = Promise.resolve();
+  private tailChecked = false;
+
+  constructor(readonly filePath: string, private readonly logger: Logger) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    this.pending = this.pending
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        const separator = this.tailChecked ? "" : await this.separatorAfterTail();
+        this.tailChecked = true;
+        await appendFile(this.filePath, separator + JSON.stringify(entry) + "\n");
+      })
+      .catch(error => this.logger.error("Failed to write audit log", { file: this.filePath, error }));
+    return this.pending;
+  }
+
+  /**
+   * A write cut short by a crash leaves the file without a final newline;
+   * start the next entry on its own line so that only the damaged one is lost.
+   */
+  private async separatorAfterTail(): Promise<string> {
+    if (!existsSync(this.filePath)) return "";
+    const file = await open(this.filePath, "r");
+    try {
+      const { size } = await file.stat();
+      if (size === 0) return "";
+      const { buffer } = await file.read(Buffer.alloc(1), 0, 1, size - 1);
+      return buffer[0] === 0x0a ? "" : "\n";
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * Reads every entry in file order. Lines that do not parse, e.g. one cut
+   * short by a crash, are skipped.
+   */
+  async read(): Promise<AuditEntry[]> {
+    await this.pending;
+    if (!existsSync(this.filePath)) return [];
+
+    const entries: AuditEntry[] = [];
+    for (const line of (await readFile(this.filePath, "utf-8")).split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip the damaged line and keep the rest of the history readable.
+      }
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,784 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  Prompt,
+  PromptArgument,
+  ReadResourceRequestSchema,
+  Resource,
+  RootsListChangedNotificationSchema,
+  ServerCapabilities,
+  SetLevelRequestSchema,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { join } from "path";
+import { AffectedObject, AuditEntry, AuditLog, AuditQuery, queryAuditEntries, redactArguments } from "./audit-log.js";
+import { redactConfig, ResolvedConfig } from "./config.js";
+import { HttpServerHandle, serveHttp } from "./http-server.js";
+import { isLevelEnabled, Logger, LogLevel, LogRecord } from "./logger.js";
+import { enforcePolicy, isToolHidden } from "./policy.js";
+import { rootPaths } from "./roots.js";
+import { TransportOptions } from "./transport-options.js";
+import {
+  ArgumentValidator,
+  compileArgumentValidator,
+  compileOutputValidator,
+  OutputValidator,
+  SchemaLiteral,
+  SchemaValue,
+} from "./validation.js";
+
+export interface ServerInfo {
+  name: string;
+  version: string;
+  displayName: string;
+}
+
+export interface ToolResult {
+  content: { type: string; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export type OutputSchema = NonNullable<Tool["outputSchema"]>;
+
+export interface ToolDefinition<Args = unknown, Result = Record<string, unknown>> {
+  name: string;
+  description: string;
+  inputSchema: Tool["inputSchema"];
+  /** Shape of the structuredContent returned next to the text result. */
+  outputSchema: OutputSchema;
+  /** Receives arguments that already passed inputSchema validation, with defaults applied. */
+  handler(args: Args, runtime: ToolRuntime): Promise<ToolResult>;
+  /** Objects a successful call created or changed, for the audit log. */
+  affects?(args: Args, structuredContent: Result): AffectedObject[];
+  /** True when the tool only reads state; read-only mode hides every other tool. */
+  readOnly?: boolean;
+  /** Why a call is dangerous, if it is. Such calls need `confirm: true` by default. */
+  dangerous?(args: Args): string | undefined;
+  /** Values besides the arguments that policy rules can match, e.g. the branch being pushed. */
+  policyValues?(args: Args, runtime: ToolRuntime): Promise<Record<string, unknown>>;
+}
+
+/** A tool whose handler arguments and result are typed from its schemas; see defineTool. */
+export type TypedToolDefinition<Input extends SchemaLiteral, Output extends SchemaLiteral> = Omit<
+  ToolDefinition<SchemaValue<Input>, SchemaValue<Output>>,
+  "inputSchema" | "outputSchema"
+> & { inputSchema: Input; outputSchema: Output };
+
+/**
+ * Declares a tool for registerTools. The schemas are read as literals, so
+ * the handler receives the arguments the input schema describes and
+ * `affects` the result the output schema describes: reading an argument
+ * the schema lacks, or passing one on as the wrong type, fails to compile.
+ */
+export function defineTool<const Input extends SchemaLiteral, const Output extends SchemaLiteral>(
+  tool: TypedToolDefinition<Input, Output>
+): ToolDefinition {
+  // Literal schemas are readonly; the SDK's schema types are not
+  return tool as unknown as ToolDefinition;
+}
+
+/**
+ * Output schema of an export or import tool: the file, its format, the
+ * given counts as integers and any `extra` properties, all required.
+ */
+export const fileTransferSchema = <const Extra extends Record<string, object> = {}>(countKeys: string[], extra = {} as Extra) => ({
+  type: "object" as const,
+  properties: {
+    filePath: { type: "string" as const },
+    format: { type: "string" as const, enum: ["json", "markdown"] as const },
+    ...(Object.fromEntries(countKeys.map(key => [key, { type: "integer" as const }])) as Record<string, { type: "integer" }>),
+    ...extra,
+  },
+  required: ["filePath", "format", ...countKeys, ...Object.keys(extra)],
+});
+
+/** What a running tool uses to report back to its caller. */
+export interface ToolRuntime {
+  /** Aborted when the client cancels the call; pass it on to commands and check it in loops. */
+  signal: AbortSignal;
+  /** Sends a progress notification if the client asked for them; frequent updates are throttled. */
+  progress(progress: number, total?: number, message?: string): Promise<void>;
+  /** Forwards a line of command output to the client as a log message. */
+  output(line: string): void;
+  /** Directories the client works in, from roots/list; empty when it has none. See resolveWorkspace. */
+  roots: string[];
+  /** The client's name and version from initialize, when the call came over a connection. */
+  client?: { name: string; version: string };
+  /**
+   * Asks the client's model for a completion through sampling/createMessage
+   * and returns its text. Undefined when the client does not offer sampling.
+   */
+  sample?: (request: SamplingRequest) => Promise<string>;
+}
+
+/** A single-turn request to the client's model. */
+export interface SamplingRequest {
+  prompt: string;
+  systemPrompt?: string;
+  maxTokens: number;
+}
+
+/** Who made a tool call, as far as the connection can tell. */
+export interface CallContext {
+  client?: { name: string; version: string };
+  sessionId?: string;
+}
+
+export interface ResourceDefinition {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  read: () => Promise<string>;
+}
+
+/** A reusable instruction template, filled in from the server's data when a client requests it. */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments?: PromptArgument[];
+  /** Receives the arguments after required ones were checked, and the client's roots; returns the user message text. */
+  get: (args: Record<string, string>, roots: string[]) => Promise<string>;
+}
+
+export const CONFIG_RESOURCE_URI = "config://effective";
+export const AUDIT_RESOURCE_URI = "audit://recent";
+export const AUDIT_TOOL_NAME = "query_audit_log";
+export const CONFIRM_ARGUMENT = "confirm";
+
+const PROGRESS_INTERVAL_MS = 100;
+
+/** Clients may ask the user to approve a sampling request, so it gets longer than the SDK's default. */
+const SAMPLING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Warnings and errors kept while no client is connected, replayed to the next one. */
+const MAX_UNDELIVERED_LOGS = 50;
+
+/** For calls made outside a client request: nothing to report to and never cancelled. */
+const DETACHED_RUNTIME: ToolRuntime = {
+  signal: new AbortController().signal,
+  progress: async () => {},
+  output: () => {},
+  roots: [],
+};
+
+/** What the server keeps per connection. */
+interface Connection {
+  /** Least severe level the client wants log messages for. */
+  logLevel: LogLevel;
+  /** Refreshed when the client reports that its roots changed. */
+  roots: Promise<string[]>;
+}
+
+const RECENT_AUDIT_ENTRIES = 50;
+
+const auditEntrySchema = {
+  type: "object",
+  properties: {
+    timestamp: { type: "string" },
+    server: { type: "string" },
+    tool: { type: "string" },
+    arguments: {},
+    durationMs: { type: "number" },
+    outcome: { type: "string", enum: ["success", "error"] },
+    error: { type: "string" },
+    affected: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { type: { type: "string" }, id: { type: "string" } },
+        required: ["type", "id"],
+      },
+    },
+    client: {
+      type: "object",
+      properties: { name: { type: "string" }, version: { type: "string" } },
+    },
+    sessionId: { type: "string" },
+  },
+  required: ["timestamp", "server", "tool", "durationMs", "outcome", "affected"],
+};
+
+/**
+ * Builds a tool result carrying both a human-readable text block and the
+ * machine-readable structuredContent described by the tool's outputSchema.
+ */
+export function toolResult(text: string, structuredContent: object): ToolResult {
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: structuredContent as Record<string, unknown>,
+  };
+}
+
+export function errorResult(error: unknown): ToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Common foundation for the MCP servers in this collection.
+ *
+ * Subclasses declare their tools and resources once through registerTools and
+ * registerResources; the ListTools/CallTool and ListResources/ReadResource
+ * handlers are derived from those declarations.
+ *
+ * Tool state lives on the instance and is shared by every connection, while
+ * each connection (the stdio pipe, or one HTTP session) gets its own protocol
+ * Server.
+ *
+ * Every tool call, including rejected ones, is appended to the server's audit
+ * log, which clients can read through query_audit_log and audit://recent.
+ *
+ * The policy from the configuration decides per client which tools are listed
+ * and which calls may run; tools that change state accept a `confirm` argument
+ * for calls the policy wants confirmed.
+ *
+ * Diagnostics go through the server's logger, which also sends them to every
+ * client as log messages at the level the client chose with logging/setLevel.
+ *
+ * Clients that declare the roots capability are asked for their roots once
+ * initialized and again whenever they report a change; tools and prompts
+ * receive them to decide which repository to act on.
+ */
+export abstract class BaseMCPServer {
+  private tools = new Map<string, ToolDefinition>();
+  private validators = new Map<string, ArgumentValidator>();
+  private outputValidators = new Map<string, OutputValidator>();
+  private resources = new Map<string, ResourceDefinition>();
+  private prompts = new Map<string, PromptDefinition>();
+  private connections = new Map<Server, Connection>();
+  private undeliveredLogs: LogRecord[] = [];
+  private httpServer: HttpServerHandle | null = null;
+  private started = false;
+  private shuttingDown = false;
+  readonly auditLog: AuditLog;
+  readonly logger: Logger;
+
+  constructor(
+    protected readonly info: ServerInfo,
+    protected readonly config: ResolvedConfig
+  ) {
+    const { level, file, maxFileSize, maxFiles } = config.logging;
+    this.logger = new Logger(info.name, {
+      level,
+      file: file ? { path: file, maxBytes: maxFileSize * 1024 * 1024, maxFiles } : undefined,
+    });
+    this.logger.subscribe(record => this.sendLog(record));
+    this.auditLog = new AuditLog(join(config.audit.storagePath, `${info.name}.jsonl`), this.logger);
+
+    this.registerTools([
+      defineTool({
+        name: AUDIT_TOOL_NAME,
+        description: "Query the audit log of tool calls, newest first",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: { type: "string", description: "Filter by server name, e.g. git-runner-mcp" },
+            tool: { type: "string", description: "Filter by tool name" },
+            outcome: { type: "string", enum: ["success", "error"] },
+            since: { type: "string", description: "Only calls at or after this ISO timestamp" },
+            object: { type: "string", description: "Only calls that affected this object ID (commit SHA prefix, issue number, rule ID)" },
+            limit: { type: "integer", minimum: 1, default: RECENT_AUDIT_ENTRIES },
+          },
+        },
+        outputSchema: {
+          type: "object",
+          properties: { entries: { type: "array", items: auditEntrySchema } },
+          required: ["entries"],
+        },
+        handler: (args) => this.queryAuditLog(args),
+        readOnly: true,
+      }),
+    ]);
+
+    this.registerResources([
+      {
+        uri: CONFIG_RESOURCE_URI,
+        name: "Effective Configuration",
+        description: "Configuration after applying config files, environment variables and CLI flags",
+        mimeType: "application/json",
+        read: async () => JSON.stringify(redactConfig(this.config), null, 2),
+      },
+      {
+        uri: AUDIT_RESOURCE_URI,
+        name: "Recent Tool Calls",
+        description: `The latest ${RECENT_AUDIT_ENTRIES} entries of the audit log, newest first`,
+        mimeType: "application/json",
+        read: async () =>
+          JSON.stringify(queryAuditEntries(await this.readAuditLog(), { limit: RECENT_AUDIT_ENTRIES }), null, 2),
+      },
+    ]);
+  }
+
+  /**
+   * Tool arguments are closed by default: unless a schema sets
+   * additionalProperties itself, unknown arguments are rejected.
+   */
+  protected registerTools(tools: ToolDefinition[]): void {
+    for (const tool of tools) {
+      if (this.tools.has(tool.name)) {
+        throw new Error(`Tool already registered: ${tool.name}`);
+      }
+      const inputSchema = { additionalProperties: false, ...tool.inputSchema };
+      if (!tool.readOnly) {
+        inputSchema.properties = {
+          ...inputSchema.properties,
+          [CONFIRM_ARGUMENT]: {
+            type: "boolean",
+            description: "Confirm a dangerous operation; required when the server's policy asks for it",
+          },
+        };
+      }
+      this.tools.set(tool.name, { ...tool, inputSchema });
+      this.validators.set(tool.name, compileArgumentValidator(tool.name, inputSchema));
+      this.outputValidators.set(tool.name, compileOutputValidator(tool.name, tool.outputSchema));
+    }
+  }
+
+  protected registerResources(resources: ResourceDefinition[]): void {
+    for (const resource of resources) {
+      if (this.resources.has(resource.uri)) {
+        throw new Error(`Resource already registered: ${resource.uri}`);
+      }
+      this.resources.set(resource.uri, resource);
+    }
+  }
+
+  protected registerPrompts(prompts: PromptDefinition[]): void {
+    for (const prompt of prompts) {
+      if (this.prompts.has(prompt.name)) {
+        throw new Error(`Prompt already registered: ${prompt.name}`);
+      }
+      this.prompts.set(prompt.name, prompt);
+    }
+  }
+
+  get serverInfo(): ServerInfo {
+    return this.info;
+  }
+
+  getTools(): ToolDefinition[] {
+    return [...this.tools.values()];
+  }
+
+  getResources(): ResourceDefinition[] {
+    return [...this.resources.values()];
+  }
+
+  getPrompts(): PromptDefinition[] {
+    return [...this.prompts.values()];
+  }
+
+  protected hasResource(uri: string): boolean {
+    return this.resources.has(uri);
+  }
+
+  protected hasTool(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * The log a call to `toolName` is recorded in, and the server and tool names
+   * that are recorded and that policy rules match.
+   */
+  protected callTarget(toolName: string): { log: AuditLog; server: string; tool: string } {
+    return { log: this.auditLog, server: this.info.name, tool: toolName };
+  }
+
+  /**
+   * Every entry that query_audit_log and audit://recent can see.
+   */
+  protected async readAuditLog(): Promise<AuditEntry[]> {
+    return this.auditLog.read();
+  }
+
+  private async queryAuditLog(args: AuditQuery) {
+    const entries = queryAuditEntries(await this.readAuditLog(), args);
+
+    const lines = entries.map(entry => {
+      const affected = entry.affected.map(object => `${object.type} ${object.id}`).join(", ");
+      return `${entry.timestamp} ${entry.server} ${entry.tool} ${entry.outcome} (${entry.durationMs}ms)` +
+        `${affected ? ` → ${affected}` : ""}${entry.error ? `\n  ${entry.error}` : ""}`;
+    });
+
+    return toolResult(
+      entries.length > 0 ? `Audit log (${entries.length} entries):\n\n${lines.join("\n")}` : "No matching audit log entries",
+      { entries }
+    );
+  }
+
+  /**
+   * Sends a log record to every client that asked for its level. Warnings and
+   * errors logged while no client is connected, such as a store that failed
+   * to load at startup, are held for the next client.
+   */
+  protected sendLog(record: LogRecord): void {
+    if (this.connections.size === 0) {
+      if (isLevelEnabled(record.level, "warning")) {
+        this.undeliveredLogs = [...this.undeliveredLogs, record].slice(-MAX_UNDELIVERED_LOGS);
+      }
+      return;
+    }
+
+    for (const server of this.connections.keys()) {
+      this.sendLogTo(server, record);
+    }
+  }
+
+  private sendLogTo(server: Server, record: LogRecord): void {
+    if (!isLevelEnabled(record.level, this.connections.get(server)?.logLevel ?? this.config.logging.level)) {
+      return;
+    }
+    const { level, logger, message, data } = record;
+    // A failed send is not logged again: that could loop for as long as the connection is broken.
+    server
+      .sendLoggingMessage({ level, logger, data: data ? { message, ...data } : message })
+      .catch(() => {});
+  }
+
+  /**
+   * Hook for loading persisted state before the server accepts requests.
+   */
+  protected async onStart(): Promise<void> {}
+
+  /**
+   * Hook for releasing timers or other state before the server closes.
+   */
+  protected async onShutdown(): Promise<void> {}
+
+  private createServer(): Server {
+    // Tools forward command output as log messages.
+    const capabilities: ServerCapabilities = { tools: {}, logging: {} };
+    if (this.resources.size > 0) {
+      capabilities.resources = {};
+    }
+    if (this.prompts.size > 0) {
+      capabilities.prompts = {};
+    }
+
+    const server = new Server(
+      { name: this.info.name, version: this.info.version },
+      { capabilities }
+    );
+    server.onerror = (error) => this.logger.error("Protocol error", { error });
+
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      const connection = this.connections.get(server);
+      if (connection) {
+        connection.logLevel = request.params.level;
+      }
+      return {};
+    });
+
+    this.setupToolHandlers(server);
+    if (this.resources.size > 0) {
+      this.setupResourceHandlers(server);
+    }
+    if (this.prompts.size > 0) {
+      this.setupPromptHandlers(server);
+    }
+
+    return server;
+  }
+
+  private setupToolHandlers(server: Server): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [...this.tools.values()]
+        .filter(tool => !this.isHidden(tool, server.getClientVersion()?.name))
+        .map(
+          ({ name, description, inputSchema, outputSchema, readOnly, dangerous }): Tool => ({
+            name,
+            description,
+            inputSchema,
+            outputSchema,
+            annotations: { readOnlyHint: Boolean(readOnly), destructiveHint: Boolean(dangerous) },
+          })
+        ),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args, _meta } = request.params;
+      const progressToken = _meta?.progressToken;
+      let lastProgress = 0;
+
+      const runtime: ToolRuntime = {
+        signal: extra.signal,
+        progress: async (progress, total, message) => {
+          const now = Date.now();
+          if (progressToken === undefined || (now - lastProgress < PROGRESS_INTERVAL_MS && progress !== total)) {
+            return;
+          }
+          lastProgress = now;
+          await extra
+            .sendNotification({ method: "notifications/progress", params: { progressToken, progress, total, message } })
+            .catch(error => this.logger.warning("Failed to report progress", { tool: name, error }));
+        },
+        output: (line) => {
+          this.sendLogTo(server, { timestamp: new Date().toISOString(), level: "info", logger: name, message: line });
+        },
+        roots: await this.rootsOf(server),
+        client: server.getClientVersion(),
+        sample: server.getClientCapabilities()?.sampling
+          ? async ({ prompt, systemPrompt, maxTokens }) => {
+              const { content } = await server.createMessage(
+                {
+                  messages: [{ role: "user", content: { type: "text", text: prompt } }],
+                  systemPrompt,
+                  maxTokens,
+                  includeContext: "none",
+                },
+                { signal: extra.signal, timeout: SAMPLING_TIMEOUT_MS }
+              );
+              if (content.type !== "text") {
+                throw new Error(`The client's model answered with ${content.type} content instead of text`);
+              }
+              return content.text;
+            }
+          : undefined,
+      };
+
+      return this.callTool(name, args, { client: runtime.client, sessionId: extra.sessionId }, runtime);
+    });
+  }
+
+  private isHidden(tool: ToolDefinition, client: string | undefined): boolean {
+    const { server, tool: toolName } = this.callTarget(tool.name);
+    return isToolHidden(this.config.policy, { server, tool: toolName, readOnly: Boolean(tool.readOnly), client });
+  }
+
+  /**
+   * Validates the arguments, applies the policy, runs the tool and checks its
+   * structured result. Failures become an isError result; either way the call
+   * is audited.
+   */
+  async callTool(
+    name: string,
+    args: unknown,
+    context: CallContext = {},
+    runtime: ToolRuntime = DETACHED_RUNTIME
+  ): Promise<CallToolResult> {
+    const started = Date.now();
+    const tool = this.tools.get(name);
+    const target = this.callTarget(name);
+    let validArgs: Record<string, unknown> | undefined;
+    let result: ToolResult;
+
+    try {
+      if (!tool) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+      validArgs = this.validators.get(tool.name)!(args);
+      const { [CONFIRM_ARGUMENT]: confirmed, ...toolArgs } = validArgs;
+      enforcePolicy(this.config.policy, {
+        server: target.server,
+        tool: target.tool,
+        readOnly: Boolean(tool.readOnly),
+        client: context.client?.name,
+        values: { ...toolArgs, ...(await tool.policyValues?.(toolArgs, runtime)) },
+        danger: tool.dangerous?.(toolArgs),
+        confirmed: confirmed === true,
+      });
+      runtime.signal.throwIfAborted();
+      result = await tool.handler(toolArgs, runtime);
+      if (!result.isError) {
+        this.outputValidators.get(tool.name)!(result.structuredContent);
+      }
+    } catch (error) {
+      result = errorResult(error);
+    }
+
+    let affected: AffectedObject[] = [];
+    if (tool?.affects && validArgs && !result.isError) {
+      try {
+        affected = tool.affects(validArgs, result.structuredContent ?? {});
+      } catch (error) {
+        this.logger.warning("Failed to describe affected objects", { tool: name, error });
+      }
+    }
+
+    await target.log.append({
+      timestamp: new Date(started).toISOString(),
+      server: target.server,
+      tool: target.tool,
+      arguments: redactArguments(validArgs ?? args ?? {}),
+      durationMs: Date.now() - started,
+      outcome: result.isError ? "error" : "success",
+      ...(result.isError && { error: result.content[0]?.text }),
+      affected,
+      ...context,
+    });
+
+    return result as CallToolResult;
+  }
+
+  private setupResourceHandlers(server: Server): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: [...this.resources.values()].map(
+        ({ uri, name, description, mimeType }): Resource => ({ uri, name, description, mimeType })
+      ),
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      try {
+        const uri = request.params.uri;
+        const resource = this.resources.get(uri);
+        if (!resource) {
+          throw new Error(`Unknown resource: ${uri}`);
+        }
+
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: resource.mimeType,
+              text: await resource.read(),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(`Failed to read resource: ${error}`);
+      }
+    });
+  }
+
+  private setupPromptHandlers(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: [...this.prompts.values()].map(
+        ({ name, description, arguments: args }): Prompt => ({ name, description, arguments: args })
+      ),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      this.getPrompt(request.params.name, request.params.arguments, await this.rootsOf(server))
+    );
+  }
+
+  /**
+   * Checks the arguments against the prompt's declared ones and renders it as
+   * a single user message.
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}, roots: string[] = []): Promise<GetPromptResult> {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const declared = prompt.arguments ?? [];
+    const unknown = Object.keys(args).filter(key => !declared.some(arg => arg.name === key));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown argument for prompt ${name}: ${unknown.join(", ")}`);
+    }
+    const missing = declared.filter(arg => arg.required && !args[arg.name]?.trim());
+    if (missing.length > 0) {
+      throw new Error(`Missing required argument for prompt ${name}: ${missing.map(arg => arg.name).join(", ")}`);
+    }
+
+    return {
+      description: prompt.description,
+      messages: [{ role: "user", content: { type: "text", text: await prompt.get(args, roots) } }],
+    };
+  }
+
+  /**
+   * Serves this server's tools, resources and prompts over a new connection.
+   */
+  async connect(transport: Transport): Promise<Server> {
+    const server = this.createServer();
+    const connection: Connection = { logLevel: this.config.logging.level, roots: Promise.resolve([]) };
+    this.connections.set(server, connection);
+    server.onclose = () => {
+      this.connections.delete(server);
+    };
+    server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+      connection.roots = this.listRoots(server);
+    });
+    server.oninitialized = () => {
+      if (server.getClientCapabilities()?.roots) {
+        connection.roots = this.listRoots(server);
+      }
+
+      const undelivered = this.undeliveredLogs;
+      this.undeliveredLogs = [];
+      for (const record of undelivered) {
+        this.sendLogTo(server, record);
+      }
+    };
+
+    await server.connect(transport);
+    return server;
+  }
+
+  private async rootsOf(server: Server): Promise<string[]> {
+    return (await this.connections.get(server)?.roots) ?? [];
+  }
+
+  /**
+   * Asks the client for its roots. A client that fails to answer is treated
+   * as having none, so tools fall back to the working directory.
+   */
+  private async listRoots(server: Server): Promise<string[]> {
+    try {
+      const roots = rootPaths((await server.listRoots()).roots);
+      this.logger.debug("Client roots", { roots });
+      return roots;
+    } catch (error) {
+      this.logger.warning("Failed to list the client's roots", { error });
+      return [];
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+    await this.onStart();
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.shuttingDown) return;
+    this.shuttingDown = true;
+
+    try {
+      await this.onShutdown();
+    } finally {
+      await Promise.allSettled([...this.connections.keys()].map(server => server.close()));
+      await this.httpServer?.close();
+      await this.logger.flush();
+    }
+  }
+
+  async run(options: TransportOptions = { type: "stdio" }): Promise<void> {
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+      process.on(signal, async () => {
+        await this.shutdown();
+        process.exit(0);
+      });
+    }
+
+    await this.start();
+
+    if (options.type === "http") {
+      this.httpServer = await serveHttp(this, options);
+      this.logger.info(`${this.info.displayName} running on ${this.httpServer.url}`);
+      return;
+    }
+
+    await this.connect(new StdioServerTransport());
+    this.logger.info(`${this.info.displayName} running on stdio`);
+  }
+}
@@ -0,0 +1,226 @@
+import { spawn } from "child_process";
+import { accessSync, constants, statSync } from "fs";
+import { delimiter, isAbsolute, join } from "path";
+import { StringDecoder } from "string_decoder";
+
+export const DEFAULT_COMMAND_TIMEOUT_MS = 60_000;
+export const DEFAULT_MAX_BUFFER_BYTES = 10 * 1024 * 1024;
+
+export interface RunCommandOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  /** Written to the child's stdin, e.g. an issue body passed with `--body-file -`. */
+  input?: string;
+  /** Kills the child after this many milliseconds; 0 disables the timeout. */
+  timeoutMs?: number;
+  /** Kills the child once stdout or stderr grows beyond this many bytes. */
+  maxBuffer?: number;
+  /** Kills the child when aborted, e.g. because the client cancelled the tool call. */
+  signal?: AbortSignal;
+  /**
+   * Receives each line of output as it arrives. git reports progress with
+   * carriage returns, so those end a line too.
+   */
+  onOutput?: (line: string, stream: "stdout" | "stderr") => void;
+}
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+export interface CommandErrorDetails {
+  command: string;
+  args: string[];
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stderr: string;
+  reason: "exit" | "timeout" | "maxBuffer" | "aborted" | "notFound" | "spawn";
+}
+
+export class CommandError extends Error {
+  readonly command: string;
+  readonly args: string[];
+  readonly exitCode: number | null;
+  readonly signal: NodeJS.Signals | null;
+  readonly stdout: string;
+  readonly stderr: string;
+  readonly reason: CommandErrorDetails["reason"];
+
+  constructor(message: string, details: CommandErrorDetails) {
+    super(message);
+    this.name = "CommandError";
+    this.command = details.command;
+    this.args = details.args;
+    this.exitCode = details.exitCode;
+    this.signal = details.signal;
+    this.stdout = details.stdout;
+    this.stderr = details.stderr;
+    this.reason = details.reason;
+  }
+}
+
+function describe(command: string, args: string[]): string {
+  return [command, ...args].map(arg => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : JSON.stringify(arg))).join(" ");
+}
+
+/**
+ * Runs a command without a shell. Arguments are passed to the child verbatim,
+ * so quotes, backticks and `$()` in titles, bodies or file names are inert.
+ * Rejects with a CommandError carrying the exit code and stderr when the
+ * command fails, times out or produces more output than allowed.
+ */
+export function runCommand(
+  command: string,
+  args: string[],
+  options: RunCommandOptions = {}
+): Promise<CommandResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS;
+  const maxBuffer = options.maxBuffer ?? DEFAULT_MAX_BUFFER_BYTES;
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      const details = { command, args, exitCode: null, signal: null, stdout: "", stderr: "" };
+      return reject(new CommandError(`${describe(command, args)} was cancelled`, { ...details, reason: "aborted" }));
+    }
+
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env ?? process.env,
+      stdio: ["pipe", "pipe", "pipe"],
+      windowsHide: true,
+    });
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let stdoutSize = 0;
+    let stderrSize = 0;
+    let failure: CommandErrorDetails["reason"] | null = null;
+    let settled = false;
+
+    const output = () => ({
+      stdout: Buffer.concat(stdout).toString("utf-8"),
+      stderr: Buffer.concat(stderr).toString("utf-8"),
+    });
+
+    const fail = (reason: CommandErrorDetails["reason"], message: string, exitCode: number | null, signal: NodeJS.Signals | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      reject(new CommandError(message, { command, args, exitCode, signal, reason, ...output() }));
+    };
+
+    const abort = (reason: "timeout" | "maxBuffer" | "aborted") => {
+      if (failure) return;
+      failure = reason;
+      child.kill("SIGTERM");
+    };
+
+    const timer = timeoutMs > 0 ? setTimeout(() => abort("timeout"), timeoutMs) : undefined;
+    const onAbort = () => abort("aborted");
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    const lineStream = (stream: "stdout" | "stderr") => {
+      const decoder = new StringDecoder("utf8");
+      let partial = "";
+      const emit = (text: string, final: boolean) => {
+        if (!options.onOutput) return;
+        const lines = (partial + text).split(/\r\n|\r|\n/);
+        partial = final ? "" : lines.pop()!;
+        for (const line of lines) {
+          if (line.trim()) options.onOutput(line, stream);
+        }
+      };
+      return { write: (chunk: Buffer) => emit(decoder.write(chunk), false), end: () => emit(decoder.end(), true) };
+    };
+    const stdoutLines = lineStream("stdout");
+    const stderrLines = lineStream("stderr");
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdoutSize += chunk.length;
+      if (stdoutSize > maxBuffer) return abort("maxBuffer");
+      stdout.push(chunk);
+      stdoutLines.write(chunk);
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderrSize += chunk.length;
+      if (stderrSize > maxBuffer) return abort("maxBuffer");
+      stderr.push(chunk);
+      stderrLines.write(chunk);
+    });
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") {
+        fail("notFound", `Command not found: ${command}`, null, null);
+      } else {
+        fail("spawn", `Failed to run ${describe(command, args)}: ${error.message}`, null, null);
+      }
+    });
+
+    child.on("close", (exitCode, signal) => {
+      stdoutLines.end();
+      stderrLines.end();
+      if (failure === "timeout") {
+        return fail("timeout", `${describe(command, args)} timed out after ${timeoutMs}ms`, exitCode, signal);
+      }
+      if (failure === "aborted") {
+        return fail("aborted", `${describe(command, args)} was cancelled`, exitCode, signal);
+      }
+      if (failure === "maxBuffer") {
+        return fail("maxBuffer", `${describe(command, args)} exceeded the output limit of ${maxBuffer} bytes`, exitCode, signal);
+      }
+      if (exitCode !== 0) {
+        const details = output().stderr.trim() || output().stdout.trim();
+        const status = exitCode === null ? `signal ${signal}` : `exit code ${exitCode}`;
+        return fail("exit", `${describe(command, args)} failed with ${status}${details ? `: ${details}` : ""}`, exitCode, signal);
+      }
+
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      resolve({ ...output(), exitCode: 0 });
+    });
+
+    // The child may exit before reading its input; that surfaces through "close".
+    child.stdin.on("error", () => {});
+    child.stdin.end(options.input ?? "");
+  });
+}
+
+/**
+ * Rejects values that git or gh would parse as an option rather than as the
+ * branch name, ref or label they are meant to be.
+ */
+export function assertNotOption(value: string, label: string): string {
+  if (value.startsWith("-")) {
+    throw new Error(`Invalid ${label}: ${value} (must not start with "-")`);
+  }
+  return value;
+}
+
+/**
+ * The file PATH resolves `command` to, the way a shell would, or null when it
+ * is not installed. On Windows the PATHEXT extensions are tried as well.
+ */
+export function findExecutable(command: string, env: NodeJS.ProcessEnv = process.env): string | null {
+  const extensions = process.platform === "win32" ? ["", ...(env.PATHEXT ?? ".EXE;.CMD;.BAT").split(";")] : [""];
+  const dirs = isAbsolute(command) ? [""] : (env.PATH ?? "").split(delimiter).filter(Boolean);
+
+  for (const dir of dirs) {
+    for (const extension of extensions) {
+      const candidate = dir ? join(dir, command + extension) : command + extension;
+      try {
+        if (!statSync(candidate).isFile()) continue;
+        accessSync(candidate, constants.X_OK);
+        return candidate;
+      } catch {
+        // Not here, or not executable
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,98 @@
+import { AuditEntry, AuditLog } from "./audit-log.js";
+import { BaseMCPServer } from "./base-server.js";
+import { ResolvedConfig } from "./config.js";
+
+export interface HostedServer {
+  namespace: string;
+  server: BaseMCPServer;
+}
+
+export const NAMESPACE_SEPARATOR = "__";
+
+export function namespacedToolName(namespace: string, tool: string): string {
+  return `${namespace.replace(/-/g, "_")}${NAMESPACE_SEPARATOR}${tool}`;
+}
+
+/**
+ * Hosts several servers behind a single MCP connection.
+ *
+ * Tool and prompt names are prefixed with the hosted server's namespace so
+ * that names shared by different servers cannot clash. Resource URIs already
+ * carry a per-server scheme and are exposed unchanged.
+ *
+ * Calls are audited in the log of the server that owns the tool, so a server's
+ * history is the same whether it runs alone or combined; query_audit_log and
+ * audit://recent read all of the hosted servers' logs. Policy rules likewise
+ * match the owning server and the unprefixed tool name.
+ *
+ * Log messages of the hosted servers reach the combined server's clients,
+ * named after the server that logged them.
+ */
+export class CompositeMCPServer extends BaseMCPServer {
+  private readonly routes = new Map<string, { server: BaseMCPServer; tool: string }>();
+
+  constructor(private readonly hosted: HostedServer[], config: ResolvedConfig) {
+    super(
+      {
+        name: "ais-mcpserver",
+        version: "1.0.0",
+        displayName: `AIS MCP Server (${hosted.map(h => h.namespace).join(", ")})`,
+      },
+      config
+    );
+
+    for (const { namespace, server } of hosted) {
+      server.logger.subscribe(record => this.sendLog(record));
+
+      // Tools every server shares, like query_audit_log, are served once and unprefixed.
+      const tools = server.getTools().filter(tool => !this.hasTool(tool.name));
+      for (const tool of tools) {
+        this.routes.set(namespacedToolName(namespace, tool.name), { server, tool: tool.name });
+      }
+
+      this.registerTools(
+        tools.map(tool => ({
+          ...tool,
+          name: namespacedToolName(namespace, tool.name),
+          description: `[${server.serverInfo.displayName}] ${tool.description}`,
+        }))
+      );
+
+      this.registerPrompts(
+        server.getPrompts().map(prompt => ({
+          ...prompt,
+          name: namespacedToolName(namespace, prompt.name),
+          description: `[${server.serverInfo.displayName}] ${prompt.description}`,
+        }))
+      );
+
+      // Every server exposes the shared config and audit resources; keep a single copy.
+      this.registerResources(server.getResources().filter(resource => !this.hasResource(resource.uri)));
+    }
+  }
+
+  protected callTarget(toolName: string): { log: AuditLog; server: string; tool: string } {
+    const route = this.routes.get(toolName);
+    if (!route) {
+      return super.callTarget(toolName);
+    }
+    return { log: route.server.auditLog, server: route.server.serverInfo.name, tool: route.tool };
+  }
+
+  protected async readAuditLog(): Promise<AuditEntry[]> {
+    const logs = [this.auditLog, ...this.hosted.map(({ server }) => server.auditLog)];
+    return (await Promise.all(logs.map(log => log.read()))).flat();
+  }
+
+  protected async onStart(): Promise<void> {
+    for (const { server } of this.hosted) {
+      await server.start();
+    }
+  }
+
+  protected async onShutdown(): Promise<void> {
+    for (const { server } of this.hosted) {
+      await server.shutdown();
+    }
+  }
+}
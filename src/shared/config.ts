@@ -0,0 +1,430 @@
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, extname, isAbsolute, join, resolve } from "path";
+import { parseArgs, ParseArgsConfig } from "util";
+import YAML from "yaml";
+import { LOG_LEVELS, LogLevel } from "./logger.js";
+import { parsePolicyRules, PolicyConfig } from "./policy.js";
+import { DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT, TransportOptions } from "./transport-options.js";
+
+// Object types rather than interfaces, so a config is also a Record<string, unknown> for getPath and setPath
+export type AppConfig = {
+  transport: {
+    type: TransportOptions["type"];
+    host: string;
+    port: number;
+    authToken?: string;
+  };
+  /** Servers hosted by the combined entrypoint; empty means all of them. */
+  servers: string[];
+  memory: {
+    storagePath: string;
+  };
+  rules: {
+    storagePath: string;
+  };
+  gitRunner: {
+    autoCommit: boolean;
+    commitInterval: number;
+  };
+  github: {
+    defaultBase: string;
+    listLimit: number;
+  };
+  audit: {
+    /** Directory holding one JSONL audit log per server. */
+    storagePath: string;
+  };
+  policy: PolicyConfig;
+  logging: {
+    /** Least severe level written to stderr and the log file, and sent to clients by default. */
+    level: LogLevel;
+    /** Log file to append to besides stderr; unset means stderr only. */
+    file?: string;
+    /** Size in megabytes at which the log file is rotated. */
+    maxFileSize: number;
+    /** Rotated log files to keep. */
+    maxFiles: number;
+  };
+  licenses: {
+    /** SPDX identifiers dependencies may be licensed under; empty turns the check off. */
+    allowed: string[];
+  };
+};
+
+export type ResolvedConfig = AppConfig & {
+  /** Config files that contributed to this configuration, lowest precedence first. */
+  sources: string[];
+};
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/** Permissive licenses that need no review before a dependency is added. */
+export const DEFAULT_ALLOWED_LICENSES = [
+  "MIT",
+  "ISC",
+  "BSD-2-Clause",
+  "BSD-3-Clause",
+  "Apache-2.0",
+  "0BSD",
+  "Unlicense",
+  "CC0-1.0",
+  "Zlib",
+  "BlueOak-1.0.0",
+  "Python-2.0",
+];
+
+export const CONFIG_DIR_NAME = "ais-mcpserver";
+export const USER_CONFIG_FILES = ["config.json", "config.yaml", "config.yml"];
+export const PROJECT_CONFIG_FILES = ["ais-mcp.config.json", "ais-mcp.config.yaml", "ais-mcp.config.yml"];
+
+type FieldKind =
+  | "string"
+  | "path"
+  | "boolean"
+  | "positiveNumber"
+  | "positiveInteger"
+  | "port"
+  | "transport"
+  | "list"
+  | "policyRules"
+  | "logLevel";
+
+/** Dotted path of a setting, e.g. "transport.port"; sections are one level deep. */
+type ConfigPath = {
+  [Section in keyof AppConfig]: AppConfig[Section] extends unknown[] | string | number | boolean
+    ? Section
+    : `${Section}.${keyof AppConfig[Section] & string}`;
+}[keyof AppConfig];
+
+interface ConfigField {
+  path: ConfigPath;
+  kind: FieldKind;
+  /** Fields without one, like policy rules, can only be set in a config file. */
+  env?: string;
+  flag?: string;
+  secret?: boolean;
+}
+
+const CONFIG_FIELDS: ConfigField[] = [
+  { path: "transport.type", kind: "transport", env: "AIS_MCP_TRANSPORT", flag: "transport" },
+  { path: "transport.host", kind: "string", env: "AIS_MCP_HOST", flag: "host" },
+  { path: "transport.port", kind: "port", env: "AIS_MCP_PORT", flag: "port" },
+  { path: "transport.authToken", kind: "string", env: "AIS_MCP_AUTH_TOKEN", flag: "auth-token", secret: true },
+  { path: "servers", kind: "list", env: "AIS_MCP_SERVERS" },
+  { path: "memory.storagePath", kind: "path", env: "AIS_MCP_MEMORY_PATH", flag: "memory-path" },
+  { path: "rules.storagePath", kind: "path", env: "AIS_MCP_RULES_PATH", flag: "rules-path" },
+  { path: "gitRunner.autoCommit", kind: "boolean", env: "AIS_MCP_GIT_AUTO_COMMIT" },
+  { path: "gitRunner.commitInterval", kind: "positiveNumber", env: "AIS_MCP_GIT_INTERVAL", flag: "git-interval" },
+  { path: "github.defaultBase", kind: "string", env: "AIS_MCP_GITHUB_BASE", flag: "github-base" },
+  { path: "github.listLimit", kind: "positiveInteger", env: "AIS_MCP_GITHUB_LIMIT" },
+  { path: "audit.storagePath", kind: "path", env: "AIS_MCP_AUDIT_PATH", flag: "audit-path" },
+  { path: "policy.readOnly", kind: "boolean", env: "AIS_MCP_READ_ONLY", flag: "read-only" },
+  { path: "policy.confirmDangerous", kind: "boolean", env: "AIS_MCP_CONFIRM_DANGEROUS" },
+  { path: "policy.rules", kind: "policyRules" },
+  { path: "logging.level", kind: "logLevel", env: "AIS_MCP_LOG_LEVEL", flag: "log-level" },
+  { path: "logging.file", kind: "path", env: "AIS_MCP_LOG_FILE", flag: "log-file" },
+  { path: "logging.maxFileSize", kind: "positiveNumber", env: "AIS_MCP_LOG_MAX_SIZE" },
+  { path: "logging.maxFiles", kind: "positiveInteger", env: "AIS_MCP_LOG_MAX_FILES" },
+  { path: "licenses.allowed", kind: "list", env: "AIS_MCP_ALLOWED_LICENSES" },
+];
+
+export const CONFIG_USAGE = `Configuration options:
+  --config <file>           Config file to load (env AIS_MCP_CONFIG)
+  --transport <stdio|http>  Transport to serve on (default: stdio, env AIS_MCP_TRANSPORT)
+  --host <host>             HTTP bind address (default: ${DEFAULT_HTTP_HOST}, env AIS_MCP_HOST)
+  --port <port>             HTTP port (default: ${DEFAULT_HTTP_PORT}, env AIS_MCP_PORT)
+  --auth-token <token>      Require this bearer token on HTTP requests (env AIS_MCP_AUTH_TOKEN)
+  --memory-path <dir>       Memory storage directory (env AIS_MCP_MEMORY_PATH)
+  --rules-path <dir>        Rules storage directory (env AIS_MCP_RULES_PATH)
+  --git-interval <minutes>  Default auto-commit interval (env AIS_MCP_GIT_INTERVAL)
+  --github-base <branch>    Default base branch for PRs and new branches (env AIS_MCP_GITHUB_BASE)
+  --audit-path <dir>        Audit log directory (env AIS_MCP_AUDIT_PATH)
+  --read-only               Hide and refuse tools that change state (env AIS_MCP_READ_ONLY)
+  --log-level <level>       Least severe level to log, e.g. debug or warning (default: info, env AIS_MCP_LOG_LEVEL)
+  --log-file <file>         Also write logs to this file, rotated by size (env AIS_MCP_LOG_FILE)`;
+
+export const configArgOptions = {
+  config: { type: "string" },
+  ...Object.fromEntries(
+    CONFIG_FIELDS.filter(field => field.flag).map(field => [
+      field.flag,
+      { type: field.kind === "boolean" ? ("boolean" as const) : ("string" as const) },
+    ])
+  ),
+} satisfies ParseArgsConfig["options"];
+
+function dataHome(env: NodeJS.ProcessEnv): string {
+  return env.XDG_DATA_HOME || join(homedir(), ".local", "share");
+}
+
+function configHome(env: NodeJS.ProcessEnv): string {
+  return env.XDG_CONFIG_HOME || join(homedir(), ".config");
+}
+
+export function defaultConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const storageRoot = join(dataHome(env), CONFIG_DIR_NAME);
+
+  return {
+    transport: {
+      type: "stdio",
+      host: DEFAULT_HTTP_HOST,
+      port: DEFAULT_HTTP_PORT,
+    },
+    servers: [],
+    memory: {
+      storagePath: join(storageRoot, "Memory"),
+    },
+    rules: {
+      storagePath: join(storageRoot, "Rules"),
+    },
+    gitRunner: {
+      autoCommit: false,
+      commitInterval: 30,
+    },
+    github: {
+      defaultBase: "main",
+      listLimit: 10,
+    },
+    audit: {
+      storagePath: join(storageRoot, "Audit"),
+    },
+    policy: {
+      readOnly: false,
+      confirmDangerous: true,
+      rules: [],
+    },
+    logging: {
+      level: "info",
+      maxFileSize: 10,
+      maxFiles: 5,
+    },
+    licenses: {
+      allowed: [...DEFAULT_ALLOWED_LICENSES],
+    },
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function getPath(target: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>((node, key) => (isObject(node) ? node[key] : undefined), target);
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  let node = target;
+  for (const key of keys) {
+    const next = node[key];
+    node = isObject(next) ? next : (node[key] = {});
+  }
+  node[last] = value;
+}
+
+function expandPath(value: string, baseDir: string): string {
+  if (value === "~" || value.startsWith("~/")) {
+    return join(homedir(), value.slice(1));
+  }
+  return isAbsolute(value) ? value : resolve(baseDir, value);
+}
+
+/**
+ * Validates a single value. File values keep their JSON/YAML types, while
+ * environment variables and value flags are strings and get coerced.
+ */
+function coerceValue(field: ConfigField, raw: unknown, source: string, baseDir: string): unknown {
+  const fail = (expected: string): never => {
+    throw new ConfigError(`Invalid ${field.path} from ${source}: expected ${expected}, got ${JSON.stringify(raw)}`);
+  };
+  const fromString = typeof raw === "string";
+
+  switch (field.kind) {
+    case "string":
+      if (typeof raw !== "string" || !raw.trim()) fail("a non-empty string");
+      return (raw as string).trim();
+    case "path":
+      if (typeof raw !== "string" || !raw.trim()) fail("a non-empty path");
+      return expandPath((raw as string).trim(), baseDir);
+    case "transport":
+      if (raw !== "stdio" && raw !== "http") fail('"stdio" or "http"');
+      return raw;
+    case "boolean":
+      if (typeof raw === "boolean") return raw;
+      if (fromString && /^(true|1|yes|on)$/i.test(raw as string)) return true;
+      if (fromString && /^(false|0|no|off)$/i.test(raw as string)) return false;
+      return fail("a boolean");
+    case "positiveNumber":
+    case "positiveInteger":
+    case "port": {
+      const value = fromString && (raw as string).trim() !== "" ? Number(raw) : raw;
+      if (typeof value !== "number" || !Number.isFinite(value)) fail("a number");
+      const number = value as number;
+      if (field.kind === "port" && (!Number.isInteger(number) || number < 0 || number > 65535)) {
+        fail("a port between 0 and 65535");
+      }
+      if (field.kind === "positiveInteger" && (!Number.isInteger(number) || number < 1)) {
+        fail("a positive integer");
+      }
+      if (field.kind === "positiveNumber" && number <= 0) fail("a positive number");
+      return number;
+    }
+    case "list":
+      if (fromString) {
+        return (raw as string).split(",").map(item => item.trim()).filter(Boolean);
+      }
+      if (!Array.isArray(raw) || raw.some(item => typeof item !== "string")) fail("a list of strings");
+      return raw;
+    case "policyRules":
+      try {
+        return parsePolicyRules(raw);
+      } catch (error) {
+        throw new ConfigError(`Invalid ${field.path} from ${source}: ${error instanceof Error ? error.message : error}`);
+      }
+    case "logLevel":
+      if (!LOG_LEVELS.includes(raw as LogLevel)) fail(`one of ${LOG_LEVELS.join(", ")}`);
+      return raw;
+  }
+}
+
+function checkUnknownKeys(data: Record<string, unknown>, source: string, prefix = ""): void {
+  for (const [key, value] of Object.entries(data)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const isSection = CONFIG_FIELDS.some(field => field.path.startsWith(`${path}.`));
+
+    if (isSection) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new ConfigError(`Invalid ${path} from ${source}: expected an object`);
+      }
+      checkUnknownKeys(value as Record<string, unknown>, source, path);
+    } else if (!CONFIG_FIELDS.some(field => field.path === path)) {
+      throw new ConfigError(`Unknown config key ${path} in ${source}`);
+    }
+  }
+}
+
+function readConfigFile(filePath: string): Record<string, unknown> {
+  let data: unknown;
+  try {
+    const text = readFileSync(filePath, "utf-8");
+    data = extname(filePath) === ".json" ? JSON.parse(text) : YAML.parse(text);
+  } catch (error) {
+    throw new ConfigError(`Failed to read config file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (data === null || data === undefined) return {};
+  if (typeof data !== "object" || Array.isArray(data)) {
+    throw new ConfigError(`Config file ${filePath} must contain an object`);
+  }
+  checkUnknownKeys(data as Record<string, unknown>, filePath);
+  return data as Record<string, unknown>;
+}
+
+function findFirst(dir: string, names: string[]): string | undefined {
+  return names.map(name => join(dir, name)).find(path => existsSync(path));
+}
+
+/**
+ * Config files in precedence order: the user file under XDG_CONFIG_HOME, then
+ * the project file in the working directory. An explicit file replaces both.
+ */
+export function findConfigFiles(explicit: string | undefined, env: NodeJS.ProcessEnv, cwd: string): string[] {
+  if (explicit) {
+    const filePath = expandPath(explicit, cwd);
+    if (!existsSync(filePath)) {
+      throw new ConfigError(`Config file not found: ${filePath}`);
+    }
+    return [filePath];
+  }
+
+  return [
+    findFirst(join(configHome(env), CONFIG_DIR_NAME), USER_CONFIG_FILES),
+    findFirst(cwd, PROJECT_CONFIG_FILES),
+  ].filter((path): path is string => Boolean(path));
+}
+
+export interface LoadConfigOptions {
+  flags?: Record<string, unknown>;
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+}
+
+/**
+ * Resolves the effective configuration. Precedence, lowest first: built-in
+ * defaults, config files, AIS_MCP_* environment variables, CLI flags.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): ResolvedConfig {
+  const env = options.env ?? process.env;
+  const cwd = options.cwd ?? process.cwd();
+  const flags = options.flags ?? {};
+
+  const config = defaultConfig(env);
+  const explicit = (flags.config as string | undefined) ?? env.AIS_MCP_CONFIG;
+  const sources = findConfigFiles(explicit, env, cwd);
+
+  for (const filePath of sources) {
+    const data = readConfigFile(filePath);
+    for (const field of CONFIG_FIELDS) {
+      const raw = getPath(data, field.path);
+      if (raw !== undefined) {
+        setPath(config, field.path, coerceValue(field, raw, filePath, dirname(filePath)));
+      }
+    }
+  }
+
+  for (const field of CONFIG_FIELDS) {
+    const raw = field.env ? env[field.env] : undefined;
+    if (raw !== undefined && raw !== "") {
+      setPath(config, field.path, coerceValue(field, raw, `$${field.env}`, cwd));
+    }
+  }
+
+  for (const field of CONFIG_FIELDS) {
+    const raw = field.flag ? flags[field.flag] : undefined;
+    if (raw !== undefined) {
+      setPath(config, field.path, coerceValue(field, raw, `--${field.flag}`, cwd));
+    }
+  }
+
+  return { ...config, sources };
+}
+
+/**
+ * Parses the configuration flags of a single-server entrypoint.
+ */
+export function parseConfigArgs(argv: string[]): ResolvedConfig {
+  const { values } = parseArgs({ args: argv, options: configArgOptions, strict: true });
+  return loadConfig({ flags: values });
+}
+
+export function toTransportOptions(config: AppConfig): TransportOptions {
+  if (config.transport.type === "http") {
+    return {
+      type: "http",
+      host: config.transport.host,
+      port: config.transport.port,
+      authToken: config.transport.authToken,
+    };
+  }
+  return { type: "stdio" };
+}
+
+/**
+ * Returns a copy of the configuration that is safe to show to clients.
+ */
+export function redactConfig(config: ResolvedConfig): ResolvedConfig {
+  const copy: ResolvedConfig = JSON.parse(JSON.stringify(config));
+  for (const field of CONFIG_FIELDS) {
+    if (field.secret && getPath(copy, field.path) !== undefined) {
+      setPath(copy, field.path, "[redacted]");
+    }
+  }
+  return copy;
+}
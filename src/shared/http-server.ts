@@ -0,0 +1,209 @@
+import { randomUUID, timingSafeEqual } from "crypto";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { BaseMCPServer } from "./base-server.js";
+import { HttpTransportOptions } from "./transport-options.js";
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export const STREAMABLE_HTTP_PATH = "/mcp";
+export const SSE_PATH = "/sse";
+export const SSE_MESSAGES_PATH = "/messages";
+
+export interface HttpServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new HttpError(400, "Parse error: request body is not valid JSON");
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: status === 400 ? -32700 : -32000, message },
+      id: null,
+    })
+  );
+}
+
+function isAuthorized(req: IncomingMessage, authToken: string | undefined): boolean {
+  if (!authToken) return true;
+
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const expected = Buffer.from(authToken);
+  const actual = Buffer.from(match[1].trim());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Serves a server over the Streamable HTTP transport at /mcp, with the older
+ * HTTP+SSE transport (GET /sse, POST /messages) as a fallback for clients that
+ * do not support it yet. Each client session gets its own protocol connection
+ * to the shared server instance.
+ */
+export async function serveHttp(
+  mcpServer: BaseMCPServer,
+  options: HttpTransportOptions
+): Promise<HttpServerHandle> {
+  const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = headerValue(req.headers["mcp-session-id"]);
+
+    if (req.method === "POST") {
+      const body = await readJsonBody(req);
+      let transport = sessionId ? streamableSessions.get(sessionId) : undefined;
+
+      if (!transport) {
+        if (sessionId || !isInitializeRequest(body)) {
+          throw new HttpError(400, "Bad Request: no valid session ID provided");
+        }
+
+        const created = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            streamableSessions.set(id, created);
+          },
+        });
+        created.onclose = () => {
+          if (created.sessionId) {
+            streamableSessions.delete(created.sessionId);
+          }
+        };
+        await mcpServer.connect(created);
+        transport = created;
+      }
+
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      const transport = sessionId ? streamableSessions.get(sessionId) : undefined;
+      if (!transport) {
+        throw new HttpError(400, "Bad Request: no valid session ID provided");
+      }
+      await transport.handleRequest(req, res);
+      return;
+    }
+
+    throw new HttpError(405, "Method not allowed");
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== "GET") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sseSessions.set(transport.sessionId, transport);
+    res.on("close", () => {
+      sseSessions.delete(transport.sessionId);
+    });
+    await mcpServer.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const transport = sseSessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!transport) {
+      throw new HttpError(400, "Bad Request: no transport found for sessionId");
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    try {
+      if (!isAuthorized(req, options.authToken)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        throw new HttpError(401, "Unauthorized");
+      }
+
+      const url = new URL(req.url ?? "/", "http://localhost");
+      switch (url.pathname) {
+        case STREAMABLE_HTTP_PATH:
+          return await handleStreamable(req, res);
+        case SSE_PATH:
+          return await handleSse(req, res);
+        case SSE_MESSAGES_PATH:
+          return await handleSseMessage(req, res, url);
+        default:
+          throw new HttpError(404, "Not found");
+      }
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        mcpServer.logger.error("HTTP request failed", { method: req.method, url: req.url, error });
+      }
+      sendJsonRpcError(
+        res,
+        error instanceof HttpError ? error.status : 500,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}${STREAMABLE_HTTP_PATH}`,
+    close: async () => {
+      const transports = [...streamableSessions.values(), ...sseSessions.values()];
+      await Promise.allSettled(transports.map(transport => transport.close()));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -0,0 +1,164 @@
+import { LoggingLevel, LoggingLevelSchema } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync } from "fs";
+import { appendFile, mkdir, rename, stat } from "fs/promises";
+import { dirname } from "path";
+
+export type LogLevel = LoggingLevel;
+
+export const LOG_LEVELS: readonly LogLevel[] = LoggingLevelSchema.options;
+
+export interface LogRecord {
+  timestamp: string;
+  level: LogLevel;
+  /** Name of the server (or tool, for forwarded command output) that logged it. */
+  logger: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export interface LogFileOptions {
+  path: string;
+  /** The file is rotated once it grows beyond this size. */
+  maxBytes: number;
+  /** Rotated files kept next to the current one: path.1 (newest) to path.N. */
+  maxFiles: number;
+}
+
+export interface LoggerOptions {
+  /** Least severe level written to stderr and the log file. */
+  level: LogLevel;
+  file?: LogFileOptions;
+}
+
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Turns Error instances into their message so that records stay JSON.
+ */
+function serializable(data: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, value instanceof Error ? value.message : value])
+  );
+}
+
+function formatRecord(record: LogRecord): string {
+  const data = record.data ? ` ${JSON.stringify(record.data)}` : "";
+  return `${record.timestamp} ${record.level.toUpperCase()} [${record.logger}] ${record.message}${data}`;
+}
+
+/**
+ * Append-only log file that is rotated by size. Servers hosted in one process
+ * share the file, so there is one instance per path and writes are serialized.
+ */
+class RotatingLogFile {
+  private static readonly instances = new Map<string, RotatingLogFile>();
+  private pending: Promise<void> = Promise.resolve();
+
+  private constructor(private readonly options: LogFileOptions) {}
+
+  static for(options: LogFileOptions): RotatingLogFile {
+    let file = RotatingLogFile.instances.get(options.path);
+    if (!file) {
+      file = new RotatingLogFile(options);
+      RotatingLogFile.instances.set(options.path, file);
+    }
+    return file;
+  }
+
+  write(line: string): Promise<void> {
+    this.pending = this.pending
+      .then(async () => {
+        await mkdir(dirname(this.options.path), { recursive: true });
+        await this.rotateIfFull();
+        await appendFile(this.options.path, line + "\n");
+      })
+      // Logging must never take the server down; stderr is the last resort.
+      .catch(error => {
+        process.stderr.write(`Failed to write log file ${this.options.path}: ${error}\n`);
+      });
+    return this.pending;
+  }
+
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  private async rotateIfFull(): Promise<void> {
+    const { path, maxBytes, maxFiles } = this.options;
+    if (!existsSync(path) || (await stat(path)).size < maxBytes) return;
+
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (existsSync(`${path}.${index}`)) {
+        await rename(`${path}.${index}`, `${path}.${index + 1}`);
+      }
+    }
+    await rename(path, `${path}.1`);
+  }
+}
+
+/**
+ * Diagnostics for one server. Records at or above the configured level go to
+ * stderr, never stdout, which carries the stdio JSON-RPC stream, and to the
+ * rotating log file if there is one. Subscribers see every record and apply
+ * their own level, which is how clients that asked for debug messages get them.
+ */
+export class Logger {
+  private readonly listeners = new Set<(record: LogRecord) => void>();
+  private readonly file?: RotatingLogFile;
+
+  constructor(readonly name: string, private readonly options: LoggerOptions) {
+    this.file = options.file ? RotatingLogFile.for(options.file) : undefined;
+  }
+
+  /**
+   * Resolves once every record logged so far is in the log file.
+   */
+  async flush(): Promise<void> {
+    await this.file?.flush();
+  }
+
+  /**
+   * Receives every record regardless of level. Returns a function that
+   * unsubscribes.
+   */
+  subscribe(listener: (record: LogRecord) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  log(level: LogLevel, message: string, data?: Record<string, unknown>): void {
+    const record: LogRecord = {
+      timestamp: new Date().toISOString(),
+      level,
+      logger: this.name,
+      message,
+      ...(data && { data: serializable(data) }),
+    };
+    if (isLevelEnabled(level, this.options.level)) {
+      const line = formatRecord(record);
+      process.stderr.write(line + "\n");
+      void this.file?.write(line);
+    }
+    for (const listener of this.listeners) {
+      listener(record);
+    }
+  }
+
+  debug(message: string, data?: Record<string, unknown>): void {
+    this.log("debug", message, data);
+  }
+
+  info(message: string, data?: Record<string, unknown>): void {
+    this.log("info", message, data);
+  }
+
+  warning(message: string, data?: Record<string, unknown>): void {
+    this.log("warning", message, data);
+  }
+
+  error(message: string, data?: Record<string, unknown>): void {
+    this.log("error", message, data);
+  }
+}
@@ -0,0 +1,183 @@
+export type PolicyEffect = "allow" | "deny" | "confirm";
+
+/**
+ * One entry of the policy rule list. Every condition that is set must match;
+ * the first matching rule decides.
+ */
+export interface PolicyRule {
+  /** Tool names without the combined-mode prefix; `*` matches any characters. */
+  tools?: string[];
+  /** Server names, e.g. `github-mcp` or `git-*`. */
+  servers?: string[];
+  /** Client names as sent in the MCP initialize request; the client chooses its name, so this is advisory only. */
+  clients?: string[];
+  /** Only tools that change state ("write") or only those that do not ("read"). */
+  access?: "read" | "write";
+  /**
+   * Argument values the call must have, plus any values the tool provides for
+   * policies (the branch git_push pushes to). A list matches any of its items.
+   */
+  when?: Record<string, unknown>;
+  effect: PolicyEffect;
+  reason?: string;
+}
+
+export interface PolicyConfig {
+  /** Hide and refuse every tool that changes state. */
+  readOnly: boolean;
+  /** Ask for `confirm: true` before calls the tool itself marks as dangerous. */
+  confirmDangerous: boolean;
+  rules: PolicyRule[];
+}
+
+/** A tool as seen by one client. */
+export interface PolicySubject {
+  server: string;
+  tool: string;
+  readOnly: boolean;
+  client?: string;
+}
+
+export interface PolicyCall extends PolicySubject {
+  values: Record<string, unknown>;
+  /** Why the tool considers this call dangerous, if it does. */
+  danger?: string;
+  confirmed: boolean;
+}
+
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PolicyError";
+  }
+}
+
+const RULE_KEYS = ["tools", "servers", "clients", "access", "when", "effect", "reason"];
+
+function matchesPattern(pattern: string, value: string): boolean {
+  const regex = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${regex}$`).test(value);
+}
+
+function matchesAny(patterns: string[] | undefined, value: string | undefined): boolean {
+  return !patterns || (value !== undefined && patterns.some(pattern => matchesPattern(pattern, value)));
+}
+
+function matchesValue(expected: unknown, actual: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return expected.some(item => matchesValue(item, actual));
+  }
+  if (typeof expected === "string" && typeof actual === "string") {
+    return matchesPattern(expected, actual);
+  }
+  return expected === actual;
+}
+
+function matchesSubject(rule: PolicyRule, subject: PolicySubject): boolean {
+  return (
+    matchesAny(rule.tools, subject.tool) &&
+    matchesAny(rule.servers, subject.server) &&
+    matchesAny(rule.clients, subject.client) &&
+    (!rule.access || (rule.access === "read") === subject.readOnly)
+  );
+}
+
+function matchesCall(rule: PolicyRule, call: PolicyCall): boolean {
+  return (
+    matchesSubject(rule, call) &&
+    Object.entries(rule.when ?? {}).every(([key, expected]) => matchesValue(expected, call.values[key]))
+  );
+}
+
+/**
+ * Whether a tool is left out of tools/list. A tool stays listed while any
+ * call to it could still be allowed, e.g. when only force pushes are denied.
+ */
+export function isToolHidden(policy: PolicyConfig, subject: PolicySubject): boolean {
+  if (policy.readOnly && !subject.readOnly) {
+    return true;
+  }
+
+  for (const rule of policy.rules) {
+    if (!matchesSubject(rule, subject)) continue;
+    if (!rule.when) return rule.effect === "deny";
+    if (rule.effect !== "deny") return false;
+  }
+  return false;
+}
+
+/**
+ * Throws a PolicyError unless the call may run. Read-only mode always wins;
+ * otherwise the first matching rule decides, and without one dangerous calls
+ * need confirmation.
+ */
+export function enforcePolicy(policy: PolicyConfig, call: PolicyCall): void {
+  if (policy.readOnly && !call.readOnly) {
+    throw new PolicyError(`${call.tool} changes state and the server is in read-only mode`);
+  }
+
+  const rule = policy.rules.find(rule => matchesCall(rule, call));
+  const effect = rule?.effect ?? (call.danger && policy.confirmDangerous ? "confirm" : "allow");
+  const reason = rule?.reason ?? call.danger;
+
+  if (effect === "deny") {
+    throw new PolicyError(`${call.tool} is denied by policy${reason ? `: ${reason}` : ""}`);
+  }
+  if (effect === "confirm" && !call.confirmed) {
+    throw new PolicyError(
+      `${call.tool} needs confirmation${reason ? `: ${reason}` : ""}. Call it again with confirm: true to proceed.`
+    );
+  }
+}
+
+function stringList(value: unknown, field: string): string[] {
+  const list = typeof value === "string" ? [value] : value;
+  if (!Array.isArray(list) || list.some(item => typeof item !== "string")) {
+    throw new Error(`${field} must be a string or a list of strings`);
+  }
+  return list;
+}
+
+/**
+ * Validates the rule list from a config file.
+ */
+export function parsePolicyRules(raw: unknown): PolicyRule[] {
+  if (!Array.isArray(raw)) {
+    throw new Error("expected a list of rules");
+  }
+
+  return raw.map((entry, index) => {
+    const at = `rule ${index + 1}`;
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      throw new Error(`${at} must be an object`);
+    }
+    const unknown = Object.keys(entry).filter(key => !RULE_KEYS.includes(key));
+    if (unknown.length > 0) {
+      throw new Error(`${at} has unknown key ${unknown[0]}`);
+    }
+
+    const { tools, servers, clients, access, when, effect, reason } = entry as Record<string, unknown>;
+    if (effect !== "allow" && effect !== "deny" && effect !== "confirm") {
+      throw new Error(`${at}: effect must be "allow", "deny" or "confirm"`);
+    }
+    if (access !== undefined && access !== "read" && access !== "write") {
+      throw new Error(`${at}: access must be "read" or "write"`);
+    }
+    if (when !== undefined && (typeof when !== "object" || when === null || Array.isArray(when))) {
+      throw new Error(`${at}: when must map argument names to values`);
+    }
+    if (reason !== undefined && typeof reason !== "string") {
+      throw new Error(`${at}: reason must be a string`);
+    }
+
+    return {
+      ...(tools !== undefined && { tools: stringList(tools, `${at}: tools`) }),
+      ...(servers !== undefined && { servers: stringList(servers, `${at}: servers`) }),
+      ...(clients !== undefined && { clients: stringList(clients, `${at}: clients`) }),
+      ...(access !== undefined && { access }),
+      ...(when !== undefined && { when: when as Record<string, unknown> }),
+      effect,
+      ...(reason !== undefined && { reason }),
+    };
+  });
+}
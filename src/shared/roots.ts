@@ -0,0 +1,65 @@
+import { Root } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, realpathSync, statSync } from "fs";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "path";
+import { fileURLToPath } from "url";
+
+export const REPO_PATH_ARGUMENT = "repoPath";
+
+/** Input schema property of tools that act on a repository or project directory. */
+export const repoPathProperty = {
+  type: "string",
+  description:
+    "Directory to act on, absolute or relative to the client's first root. It must lie inside one of the client's roots. Defaults to the only root, or to the server's working directory when the client has none.",
+} as const;
+
+/**
+ * The directories among the client's roots. Roots that are not file:// URIs
+ * cannot be worked in and are left out.
+ */
+export function rootPaths(roots: Root[]): string[] {
+  return roots.filter(root => root.uri.startsWith("file://")).map(root => fileURLToPath(root.uri));
+}
+
+/** Resolves symlinks in the part of a path that exists; the rest is appended as written. */
+function realPath(path: string): string {
+  try {
+    return realpathSync(path);
+  } catch {
+    const parent = dirname(path);
+    return parent === path ? path : join(realPath(parent), basename(path));
+  }
+}
+
+/**
+ * Whether `path` is `root` or lies below it, once symlinks are resolved, so
+ * a link inside a root cannot lead out of it. Names that merely start with
+ * two dots, like `..cache`, are inside.
+ */
+export function isInside(root: string, path: string): boolean {
+  const fromRoot = relative(realPath(root), realPath(path));
+  return fromRoot === "" || (fromRoot !== ".." && !fromRoot.startsWith(`..${sep}`) && !isAbsolute(fromRoot));
+}
+
+/**
+ * The directory a tool runs its commands in. Without roots it is the requested
+ * path or the server's working directory. With roots the requested path must
+ * lie inside one of them; without a request there must be a single root,
+ * because guessing between several open folders commits to the wrong one.
+ */
+export function resolveWorkspace(roots: string[], requested?: string): string {
+  if (!requested) {
+    if (roots.length > 1) {
+      throw new Error(`The client has ${roots.length} roots open; pass ${REPO_PATH_ARGUMENT} to choose one of: ${roots.join(", ")}`);
+    }
+    return roots[0] ?? process.cwd();
+  }
+
+  const path = resolve(roots[0] ?? process.cwd(), requested);
+  if (roots.length > 0 && !roots.some(root => isInside(root, path))) {
+    throw new Error(`${requested} is outside the client's roots: ${roots.join(", ")}`);
+  }
+  if (!existsSync(path) || !statSync(path).isDirectory()) {
+    throw new Error(`Not a directory: ${path}`);
+  }
+  return path;
+}
@@ -0,0 +1,16 @@
+export interface StdioTransportOptions {
+  type: "stdio";
+}
+
+export interface HttpTransportOptions {
+  type: "http";
+  host: string;
+  port: number;
+  /** When set, every HTTP request must carry `Authorization: Bearer <authToken>`. */
+  authToken?: string;
+}
+
+export type TransportOptions = StdioTransportOptions | HttpTransportOptions;
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3000;
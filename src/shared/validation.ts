@@ -0,0 +1,140 @@
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export class ToolArgumentError extends Error {
+  constructor(readonly toolName: string, readonly issues: string[]) {
+    super(`Invalid arguments for ${toolName}:\n${issues.map(issue => `- ${issue}`).join("\n")}`);
+    this.name = "ToolArgumentError";
+  }
+}
+
+const ajv = new Ajv({ allErrors: true, useDefaults: true, verbose: true, strict: false });
+
+function fieldPath(error: ErrorObject): string {
+  const path = error.instancePath
+    .split("/")
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .map(segment => (/^\d+$/.test(segment) ? `[${segment}]` : `.${segment}`))
+    .join("")
+    .replace(/^\./, "");
+
+  const child = error.params.missingProperty ?? error.params.additionalProperty;
+  if (child !== undefined) {
+    return path ? `${path}.${child}` : String(child);
+  }
+  return path || "(arguments)";
+}
+
+function describeError(error: ErrorObject): string {
+  const field = fieldPath(error);
+
+  switch (error.keyword) {
+    case "required":
+      return `${field}: is required`;
+    case "additionalProperties":
+      return `${field}: is not a known argument`;
+    case "type":
+      return `${field}: must be ${error.params.type}, got ${describeValue(error.data)}`;
+    case "enum":
+      return `${field}: must be one of ${(error.params.allowedValues as unknown[]).map(v => JSON.stringify(v)).join(", ")}`;
+    default:
+      return `${field}: ${error.message}`;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+export type ArgumentValidator = (args: unknown) => Record<string, unknown>;
+
+/**
+ * Compiles a validator for a tool's input schema. The validator fills in
+ * schema defaults and throws a ToolArgumentError listing every invalid field.
+ */
+export function compileArgumentValidator(toolName: string, schema: Tool["inputSchema"]): ArgumentValidator {
+  const validate: ValidateFunction = ajv.compile(schema);
+
+  return (args) => {
+    const value = args ?? {};
+    if (!validate(value)) {
+      const issues = (validate.errors ?? []).map(describeError);
+      throw new ToolArgumentError(toolName, [...new Set(issues)]);
+    }
+    return value as Record<string, unknown>;
+  };
+}
+
+export type OutputValidator = (structuredContent: unknown) => void;
+
+/**
+ * Compiles a check that a tool's structuredContent matches its outputSchema,
+ * so that a handler cannot silently drift from the schema it advertises.
+ */
+export function compileOutputValidator(toolName: string, schema: Tool["inputSchema"]): OutputValidator {
+  const validate: ValidateFunction = ajv.compile(schema);
+
+  return (structuredContent) => {
+    if (structuredContent === undefined) {
+      throw new Error(`Tool ${toolName} returned no structured content`);
+    }
+    if (!validate(structuredContent)) {
+      const issues = (validate.errors ?? []).map(describeError);
+      throw new Error(`Tool ${toolName} returned structured content that does not match its outputSchema: ${issues.join("; ")}`);
+    }
+  };
+}
+
+/** The parts of a JSON schema that SchemaValue reads, as they are inferred from a literal. */
+export interface SchemaLiteral {
+  type: "object";
+  properties?: { [name: string]: unknown };
+  required?: readonly string[];
+}
+
+type JsonTypeName = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ValueOfType<Name, Schema> = Name extends "string"
+  ? string
+  : Name extends "number" | "integer"
+    ? number
+    : Name extends "boolean"
+      ? boolean
+      : Name extends "null"
+        ? null
+        : Name extends "array"
+          ? Schema extends { items: infer Items } ? SchemaValue<Items>[] : unknown[]
+          : Name extends "object"
+            ? ObjectValue<Schema>
+            : unknown;
+
+/** Properties a validated value always has: required ones, and those the validator fills from a default. */
+type PresentKeys<Schema, Properties> =
+  | (Schema extends { required: readonly (infer Name)[] } ? Name : never)
+  | { [K in keyof Properties]: Properties[K] extends { default: unknown } ? K : never }[keyof Properties];
+
+type ObjectValue<Schema> = Schema extends { properties: infer Properties }
+  ? Simplify<
+      { -readonly [K in keyof Properties as K extends PresentKeys<Schema, Properties> ? K : never]: SchemaValue<Properties[K]> } & {
+        -readonly [K in keyof Properties as K extends PresentKeys<Schema, Properties> ? never : K]?: SchemaValue<Properties[K]>;
+      }
+    >
+  : Record<string, unknown>;
+
+/**
+ * The type of a value that passed validation against `Schema`, read from a
+ * schema written as a literal: type (or a list of types), enum, properties,
+ * required, items and default. Anything else, such as a schema typed only as
+ * OutputSchema, gives unknown.
+ */
+export type SchemaValue<Schema> = Schema extends { enum: readonly (infer Value)[] }
+  ? Value
+  : Schema extends { type: infer Name extends JsonTypeName }
+    ? ValueOfType<Name, Schema>
+    : Schema extends { type: readonly (infer Name extends JsonTypeName)[] }
+      ? ValueOfType<Name, Schema>
+      : unknown;
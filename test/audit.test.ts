@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { appendFile, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { GitRunnerMCPServer } from "../src/servers/git-runner/server.js";
+import { RulesMCPServer } from "../src/servers/rules/server.js";
+import { AuditEntry, queryAuditEntries, redactArguments } from "../src/shared/audit-log.js";
+import { CompositeMCPServer } from "../src/shared/composite-server.js";
+import { callTool, cleanup, connect, git, gitRepo, readResource, tempDir, testConfig } from "./harness.js";
+
+async function rulesServer() {
+  const auditPath = await tempDir();
+  const config = await testConfig({
+    AIS_MCP_AUDIT_PATH: auditPath,
+    AIS_MCP_RULES_PATH: join(await tempDir(), "rules"),
+  });
+  return { auditPath, config, ...(await connect(new RulesMCPServer(config))) };
+}
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    timestamp: "2024-11-01T10:00:00.000Z",
+    server: "rules-mcp",
+    tool: "create_rule",
+    arguments: {},
+    durationMs: 1,
+    outcome: "success",
+    affected: [],
+    ...overrides,
+  };
+}
+
+describe("audit log", () => {
+  afterEach(cleanup);
+
+  it("redacts secrets and truncates long strings in arguments", () => {
+    const redacted = redactArguments({
+      title: "t",
+      apiKey: "sk-123",
+      nested: { authToken: "abc", values: ["x".repeat(600)] },
+    }) as any;
+
+    expect(redacted.title).toBe("t");
+    expect(redacted.apiKey).toBe("[redacted]");
+    expect(redacted.nested.authToken).toBe("[redacted]");
+    expect(redacted.nested.values[0]).toBe(`${"x".repeat(500)}… (100 more characters)`);
+  });
+
+  it("filters entries and returns the newest first", () => {
+    const entries = [
+      entry({ timestamp: "2024-11-01T10:00:00.000Z", affected: [{ type: "commit", id: "5f3a1c2d9e" }] }),
+      entry({ timestamp: "2024-11-03T10:00:00.000Z", tool: "delete_rule", outcome: "error" }),
+      entry({ timestamp: "2024-11-02T10:00:00.000Z", server: "git-runner-mcp" }),
+    ];
+
+    expect(queryAuditEntries(entries).map(e => e.timestamp.slice(0, 10))).toEqual(["2024-11-03", "2024-11-02", "2024-11-01"]);
+    expect(queryAuditEntries(entries, { outcome: "error" })).toHaveLength(1);
+    expect(queryAuditEntries(entries, { server: "git-runner-mcp" })).toHaveLength(1);
+    expect(queryAuditEntries(entries, { since: "2024-11-02T00:00:00Z" })).toHaveLength(2);
+    expect(queryAuditEntries(entries, { object: "5f3a" })).toHaveLength(1);
+    expect(queryAuditEntries(entries, { limit: 1 })[0].tool).toBe("delete_rule");
+  });
+
+  it("records every call with its outcome, caller and affected objects", async () => {
+    const { client, auditPath } = await rulesServer();
+
+    const created = await callTool(client, "create_rule", { title: "T", category: "coding", content: "C" });
+    await callTool(client, "delete_rule", { id: created.structured.rule.id, confirm: true });
+    await callTool(client, "delete_rule", { id: "missing-001", confirm: true });
+
+    const lines = (await readFile(join(auditPath, "rules-mcp.jsonl"), "utf-8")).trim().split("\n");
+    const [create, remove, failed] = lines.map(line => JSON.parse(line));
+
+    expect(create).toMatchObject({
+      server: "rules-mcp",
+      tool: "create_rule",
+      arguments: { title: "T", category: "coding", content: "C" },
+      outcome: "success",
+      affected: [{ type: "rule", id: "cod-002" }],
+      client: { name: "ais-mcp-test", version: "1.0.0" },
+    });
+    expect(create.durationMs).toBeGreaterThanOrEqual(0);
+    expect(remove.affected).toEqual([{ type: "rule", id: "cod-002" }]);
+    expect(failed).toMatchObject({ outcome: "error", error: "Error: Rule not found: missing-001", affected: [] });
+  });
+
+  it("records rejected arguments and unknown tools", async () => {
+    const { client } = await rulesServer();
+
+    await callTool(client, "create_rule", { title: 1 });
+    await callTool(client, "no_such_tool");
+
+    const { structured } = await callTool(client, "query_audit_log", { outcome: "error" });
+    expect(structured.entries.map((e: AuditEntry) => e.tool)).toEqual(["no_such_tool", "create_rule"]);
+    expect(structured.entries[1].arguments).toEqual({ title: 1 });
+    expect(structured.entries[1].error).toContain("Invalid arguments for create_rule");
+  });
+
+  it("finds the calls that touched an object", async () => {
+    const { client } = await rulesServer();
+
+    await callTool(client, "update_rule", { id: "git-001", title: "Renamed" });
+    await callTool(client, "get_rule_by_id", { id: "git-001" });
+    await callTool(client, "delete_rule", { id: "git-001", confirm: true });
+
+    const { structured, text } = await callTool(client, "query_audit_log", { object: "git-001" });
+    expect(structured.entries.map((e: AuditEntry) => e.tool)).toEqual(["delete_rule", "update_rule"]);
+    expect(text).toContain("rules-mcp delete_rule success");
+    expect(text).toContain("→ rule git-001");
+  });
+
+  it("recovers from an entry cut short by a crash", async () => {
+    const { client, config, auditPath } = await rulesServer();
+
+    await callTool(client, "list_categories");
+    await appendFile(join(auditPath, "rules-mcp.jsonl"), '{"timestamp": "2024-');
+
+    const { client: restarted } = await connect(new RulesMCPServer(config));
+    await callTool(restarted, "list_categories");
+
+    const recent = await readResource(restarted, "audit://recent");
+    expect(recent.map((e: AuditEntry) => e.tool)).toEqual(["list_categories", "list_categories"]);
+  });
+
+  it("keeps history across restarts", async () => {
+    const { client, config } = await rulesServer();
+    await callTool(client, "list_categories");
+
+    const { client: restarted } = await connect(new RulesMCPServer(config));
+    const { structured } = await callTool(restarted, "query_audit_log");
+    expect(structured.entries).toHaveLength(1);
+  });
+
+  it("records the commit and the pushed head", async () => {
+    const repo = await gitRepo();
+    const { client } = await connect(new GitRunnerMCPServer(await testConfig()));
+
+    await writeFile(join(repo.path, "file.txt"), "x\n");
+    const commit = await callTool(client, "git_commit_with_ai");
+    await callTool(client, "git_push", { force: true, confirm: true });
+
+    const sha = await git(repo.path, "rev-parse", "HEAD");
+    expect(commit.structured.sha).toBe(sha);
+
+    const { structured } = await callTool(client, "query_audit_log", { object: sha.slice(0, 7) });
+    expect(structured.entries.map((e: AuditEntry) => [e.tool, e.arguments, e.affected])).toEqual([
+      ["git_push", { force: true, confirm: true }, [{ type: "branch", id: "main" }, { type: "commit", id: sha }]],
+      ["git_commit_with_ai", {}, [{ type: "commit", id: sha }]],
+    ]);
+  });
+
+  it("logs combined calls per hosted server and queries them together", async () => {
+    const auditPath = await tempDir();
+    const config = await testConfig({
+      AIS_MCP_AUDIT_PATH: auditPath,
+      AIS_MCP_RULES_PATH: join(await tempDir(), "rules"),
+    });
+    const rules = new RulesMCPServer(config);
+    const { client } = await connect(new CompositeMCPServer([{ namespace: "rules", server: rules }], config));
+
+    const { tools } = await client.listTools();
+    expect(tools.filter(tool => tool.name.endsWith("query_audit_log")).map(tool => tool.name)).toEqual(["query_audit_log"]);
+
+    await callTool(client, "rules__list_categories");
+    await callTool(client, "query_audit_log");
+
+    const rulesLog = await readFile(join(auditPath, "rules-mcp.jsonl"), "utf-8");
+    expect(JSON.parse(rulesLog)).toMatchObject({ server: "rules-mcp", tool: "list_categories" });
+
+    const { structured } = await callTool(client, "query_audit_log");
+    expect(structured.entries.map((e: AuditEntry) => `${e.server} ${e.tool}`)).toEqual([
+      "ais-mcpserver query_audit_log",
+      "rules-mcp list_categories",
+    ]);
+  });
+});
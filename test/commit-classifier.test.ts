@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { readFile } from "fs/promises";
+import { classifyCommit, declaredSymbols, inferScope, parseDiff } from "../src/servers/git-runner/commit-classifier.js";
+
+function fixture(name: string): Promise<string> {
+  return readFile(new URL(`./fixtures/diffs/${name}.diff`, import.meta.url), "utf-8");
+}
+
+describe("commit classifier", () => {
+  it("parses files, renames, binaries and quoted paths", () => {
+    const files = parseDiff(`diff --git a/old name.ts b/new name.ts
+similarity index 90%
+rename from old name.ts
+rename to new name.ts
+index 1111111..2222222 100644
+--- a/old name.ts
++++ b/new name.ts
+@@ -1,3 +1,3 @@ export function run() {
+ const a = 1;
+-const b = 2;
++const b = 3;
+diff --git "a/caf\\303\\251.png" "b/caf\\303\\251.png"
+index 3333333..4444444 100644
+Binary files "a/caf\\303\\251.png" and "b/caf\\303\\251.png" differ
+diff --git a/gone.md b/gone.md
+deleted file mode 100644
+index 5555555..0000000
+--- a/gone.md
++++ /dev/null
+@@ -1 +0,0 @@
+-# Gone
+`);
+
+    expect(files).toEqual([
+      {
+        path: "new name.ts",
+        oldPath: "old name.ts",
+        status: "renamed",
+        binary: false,
+        hunks: [
+          {
+            context: "export function run() {",
+            added: ["const b = 3;"],
+            removed: ["const b = 2;"],
+            lines: [" const a = 1;", "-const b = 2;", "+const b = 3;"],
+          },
+        ],
+      },
+      { path: "café.png", oldPath: null, status: "modified", binary: true, hunks: [] },
+      { path: "gone.md", oldPath: null, status: "deleted", binary: false, hunks: [{ context: "", added: [], removed: ["# Gone"], lines: ["-# Gone"] }] },
+    ]);
+  });
+
+  it("recognizes declarations per language", () => {
+    expect(declaredSymbols("a.ts", "export async function load(path: string) {")).toEqual([
+      { name: "load", kind: "function", exported: true },
+    ]);
+    expect(declaredSymbols("a.ts", "export { parse, format as formatValue } from './x.js';")).toEqual([
+      { name: "parse", kind: "export", exported: true },
+      { name: "formatValue", kind: "export", exported: true },
+    ]);
+    expect(declaredSymbols("a.ts", "  private async flush(force = false): Promise<void> {")).toEqual([
+      { name: "flush", kind: "method", exported: false },
+    ]);
+    expect(declaredSymbols("a.ts", "  if (ready) {")).toEqual([]);
+    expect(declaredSymbols("a.py", "def _helper(x):")).toEqual([{ name: "_helper", kind: "function", exported: false }]);
+    expect(declaredSymbols("a.go", "func (s *Server) Start() error {")).toEqual([{ name: "Start", kind: "method", exported: true }]);
+    expect(declaredSymbols("a.rs", "pub(crate) struct Cache {")).toEqual([{ name: "Cache", kind: "struct", exported: false }]);
+    expect(declaredSymbols("a.txt", "function nothing() {")).toEqual([]);
+  });
+
+  it("infers the scope from the package or the shared directory", () => {
+    expect(inferScope(["packages/api/src/users.ts", "packages/api/test/users.test.ts"])).toBe("api");
+    expect(inferScope(["src/servers/git-runner/server.ts", "src/servers/git-runner/commit-classifier.ts"])).toBe("git-runner");
+    expect(inferScope(["src/config.ts"])).toBe("config");
+    expect(inferScope(["src/a.ts", "src/b.ts"])).toBeNull();
+    expect(inferScope(["README.md"])).toBeNull();
+    expect(inferScope(["src/my file.ts"])).toBe("my-file");
+    expect(inferScope(["src/commitClassifier.ts"])).toBe("commit-classifier");
+    expect(inferScope(["packages/My_Pkg/index.ts"])).toBe("my-pkg");
+  });
+
+  it("classifies a new module as a feature", async () => {
+    const commit = classifyCommit(await fixture("feat"));
+    expect(commit.message).toBe(`feat(parser): add parseExpression and ParseOptions
+
+- src/parser/expression.ts: new file; added parseExpression, ParseOptions
+- src/parser/index.ts: added parseExpression
+- test/expression.test.ts: new file`);
+    expect(commit.breaking).toBe(false);
+  });
+
+  it("classifies an added guard as a fix of the function it is in", async () => {
+    expect(classifyCommit(await fixture("fix")).message).toBe("fix(config): fix loadPort\n\n- src/config/port.ts: +3 -0");
+  });
+
+  it("credits only the declarations whose bodies hold changed lines", () => {
+    const commit = classifyCommit(`diff --git a/src/retry.ts b/src/retry.ts
+--- a/src/retry.ts
++++ b/src/retry.ts
+@@ -3,9 +3,10 @@ export function delay(ms: number) {
+   return new Promise(resolve => setTimeout(resolve, ms));
+ }
+ 
+ export function retry(task: () => Promise<void>) {
+-  return task();
++  if (!task) throw new Error("no task");
++  return task().catch(() => task());
+ }
+ 
+ export function backoff(attempt: number) {
+`);
+    expect(commit.files[0].touchedSymbols).toEqual(["retry"]);
+    expect(commit.subject).toBe("fix(retry): fix retry");
+  });
+
+  it("pairs a removed and an added declaration as a rename only when they are similar", () => {
+    const diff = (added: string[]) => `diff --git a/src/jobs.ts b/src/jobs.ts
+--- a/src/jobs.ts
++++ b/src/jobs.ts
+@@ -1,6 +1,6 @@
+-export function scheduleJob(name: string) {
+-  queue.push({ name, at: Date.now() });
+-}
+${added.map(line => `+${line}`).join("\n")}
+`;
+    const unrelated = classifyCommit(diff(["export function purgeQueue() {", "  queue.length = 0;", "}"]));
+    expect(unrelated.files[0]).toMatchObject({
+      renamedSymbols: [],
+      removedSymbols: [{ name: "scheduleJob" }],
+      addedSymbols: [{ name: "purgeQueue" }],
+    });
+
+    const sameBody = classifyCommit(diff(["export function enqueue(name: string) {", "  queue.push({ name, at: Date.now() });", "}"]));
+    expect(sameBody.files[0].renamedSymbols).toEqual([
+      { from: { name: "scheduleJob", kind: "function", exported: true }, to: { name: "enqueue", kind: "function", exported: true } },
+    ]);
+
+    const closeName = classifyCommit(diff(["export function scheduleJobs(names: string[]) {", "  queue.push(...names);", "}"]));
+    expect(closeName.files[0].renamedSymbols.map(({ to }) => to.name)).toEqual(["scheduleJobs"]);
+  });
+
+  it("marks removed and renamed exports as a breaking change", async () => {
+    const commit = classifyCommit(await fixture("breaking"));
+    expect(commit).toMatchObject({ type: "refactor", scope: "api", breaking: true });
+    expect(commit.message).toBe(`refactor(api)!: rename fetchUser to getUser and remove fetchLegacyUser
+
+- packages/api/src/users.ts: removed fetchLegacyUser; renamed fetchUser → getUser
+
+BREAKING CHANGE: removes the exports fetchLegacyUser, fetchUser`);
+  });
+
+  it("classifies docs, dependency and formatting changes", async () => {
+    expect(classifyCommit(await fixture("docs")).subject).toBe("docs: update README and setup docs");
+    expect(classifyCommit(await fixture("build")).subject).toBe("build: update dependencies");
+    expect(classifyCommit(await fixture("style")).subject).toBe("style(math): format math");
+  });
+
+  it("classifies workflow and caching changes", async () => {
+    expect(classifyCommit(await fixture("ci")).message).toBe("ci(test): update test workflow\n\n- .github/workflows/test.yml: +1 -1");
+    expect(classifyCommit(await fixture("perf")).message).toBe("perf(users): speed up findUser\n\n- src/users/lookup.ts: added cache");
+  });
+
+  it("describes a moved file with the other files in the body", async () => {
+    const commit = classifyCommit(await fixture("rename"));
+    expect(commit.subject).toBe("refactor(files): rename io.py to files.py");
+    expect(commit.body).toBe("- app/files.py: renamed from app/io.py\n- notes.txt: +1 -1");
+  });
+
+  it("refuses an empty diff", () => {
+    expect(() => classifyCommit("")).toThrow("The diff changes no files");
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { join } from "path";
+import { serverFactories } from "../src/servers/registry.js";
+import { CompositeMCPServer } from "../src/shared/composite-server.js";
+import { callTool, cleanup, connect, getPrompt, readResource, tempDir, testConfig } from "./harness.js";
+
+describe("Combined server", () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const config = await testConfig({
+      AIS_MCP_MEMORY_PATH: await tempDir(),
+      AIS_MCP_RULES_PATH: join(await tempDir(), "rules"),
+    });
+    const hosted = (["memory", "rules"] as const).map(namespace => ({
+      namespace,
+      server: serverFactories[namespace](config),
+    }));
+    ({ client } = await connect(new CompositeMCPServer(hosted, config)));
+  });
+
+  afterEach(cleanup);
+
+  it("namespaces the tools of every hosted server", async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map(tool => tool.name);
+
+    expect(names).toContain("memory__store_experience");
+    expect(names).toContain("rules__create_rule");
+    expect(tools.find(tool => tool.name === "rules__create_rule")!.description).toBe("[Rules MCP Server] Create a new rule");
+  });
+
+  it("routes calls to the hosted server", async () => {
+    const stored = await callTool(client, "memory__store_experience", {
+      project: "p",
+      category: "c",
+      title: "Routed",
+      content: "x",
+    });
+    expect(stored.structured.memory.title).toBe("Routed");
+
+    const { structured } = await callTool(client, "rules__get_rule_by_id", { id: "git-001" });
+    expect(structured.rule.category).toBe("git");
+  });
+
+  it("namespaces the prompts of every hosted server", async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(["memory__recall_experiences", "rules__apply_rules"]);
+
+    const text = await getPrompt(client, "rules__apply_rules", { task: "Write a commit", query: "commit" });
+    expect(text).toContain("git-001");
+  });
+
+  it("validates arguments against the hosted tool's schema", async () => {
+    const result = await callTool(client, "memory__search_memories", {});
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("Invalid arguments for memory__search_memories");
+  });
+
+  it("serves the resources of every hosted server once", async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual([
+      "config://effective",
+      "audit://recent",
+      "memory://experiences",
+      "memory://projects",
+      "rules://all",
+      "rules://categories",
+    ]);
+    expect(await readResource(client, "rules://all")).toHaveLength(3);
+  });
+});
@@ -0,0 +1,229 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { inventoryDependencies, isLicenseAllowed } from "../src/servers/info/dependencies.js";
+import { InfoMCPServer } from "../src/servers/info/server.js";
+import { callTool, cleanup, connect, tempDir, testConfig, writeFiles } from "./harness.js";
+
+const MIT = "Permission is hereby granted, free of charge, to any person obtaining a copy";
+
+describe("dependency inventory", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    return cleanup();
+  });
+
+  it("lists npm dependencies with licenses, duplicates and violations", async () => {
+    const project = await tempDir();
+    await writeFiles(project, {
+      "package-lock.json": JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          "": { name: "app", dependencies: { express: "^4.0.0" }, devDependencies: { "gpl-tool": "^1.0.0" } },
+          "node_modules/express": { version: "4.19.2", license: "MIT" },
+          "node_modules/debug": { version: "4.3.4", license: "MIT" },
+          "node_modules/express/node_modules/debug": { version: "2.6.9" },
+          "node_modules/gpl-tool": { version: "1.0.0", license: "GPL-3.0-only", dev: true },
+          "node_modules/gpl-tool/node_modules/debug": { version: "4.3.4" },
+          "node_modules/dual": { version: "1.0.0", license: "(MIT OR GPL-3.0)" },
+        },
+      }),
+      "node_modules/express/node_modules/debug/package.json": JSON.stringify({ version: "2.6.9", license: "MIT" }),
+    });
+
+    const { client } = await connect(new InfoMCPServer(await testConfig({ AIS_MCP_ALLOWED_LICENSES: "MIT,ISC" })));
+    const { structured, text } = await callTool(client, "get_dependency_inventory", { repoPath: project });
+
+    expect(structured).toMatchObject({ lockfiles: ["package-lock.json"], allowedLicenses: ["MIT", "ISC"], total: 5, direct: 2 });
+    expect(structured.dependencies).toEqual([
+      { name: "express", version: "4.19.2", ecosystem: "npm", direct: true, license: "MIT", lockfile: "package-lock.json" },
+      { name: "debug", version: "4.3.4", ecosystem: "npm", direct: false, license: "MIT", lockfile: "package-lock.json" },
+      { name: "debug", version: "2.6.9", ecosystem: "npm", direct: false, license: "MIT", lockfile: "package-lock.json" },
+      { name: "gpl-tool", version: "1.0.0", ecosystem: "npm", direct: true, license: "GPL-3.0-only", lockfile: "package-lock.json" },
+      { name: "dual", version: "1.0.0", ecosystem: "npm", direct: false, license: "(MIT OR GPL-3.0)", lockfile: "package-lock.json" },
+    ]);
+    expect(structured.duplicates).toEqual([{ ecosystem: "npm", name: "debug", versions: ["2.6.9", "4.3.4"] }]);
+    expect(structured.licenseViolations.map((dependency: { name: string }) => dependency.name)).toEqual(["gpl-tool"]);
+    expect(text).toContain("- gpl-tool@1.0.0 (npm): GPL-3.0-only");
+
+    const direct = await callTool(client, "get_dependency_inventory", { repoPath: project, directOnly: true });
+    expect(direct.structured.dependencies.map((dependency: { name: string }) => dependency.name)).toEqual(["express", "gpl-tool"]);
+  });
+
+  it("skips lockfile entries with malformed fields", async () => {
+    const project = await tempDir();
+    await writeFiles(project, {
+      "package-lock.json": JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          "": { dependencies: ["not", "a", "map"] },
+          "node_modules/ok": { version: "1.0.0", name: 42, license: "MIT" },
+          "node_modules/numeric": { version: 2 },
+          "node_modules/broken": null,
+        },
+      }),
+    });
+
+    expect((await inventoryDependencies(project, [])).dependencies).toEqual([
+      { name: "ok", version: "1.0.0", ecosystem: "npm", direct: false, license: "MIT", lockfile: "package-lock.json" },
+    ]);
+  });
+
+  it("reads pnpm and yarn lockfiles", async () => {
+    const pnpm = await tempDir();
+    await writeFiles(pnpm, {
+      "pnpm-lock.yaml": [
+        "lockfileVersion: '9.0'",
+        "importers:",
+        "  .:",
+        "    dependencies:",
+        "      '@scope/ui':",
+        "        specifier: ^2.0.0",
+        "        version: 2.1.0(react@18.3.1)",
+        "packages:",
+        "  '@scope/ui@2.1.0':",
+        "    resolution: {integrity: sha512-x}",
+        "  react@18.3.1:",
+        "    resolution: {integrity: sha512-y}",
+        "",
+      ].join("\n"),
+      "node_modules/.pnpm/@scope+ui@2.1.0/node_modules/@scope/ui/package.json": JSON.stringify({ version: "2.1.0", license: "ISC" }),
+    });
+    expect((await inventoryDependencies(pnpm, [])).dependencies).toEqual([
+      { name: "@scope/ui", version: "2.1.0", ecosystem: "npm", direct: true, license: "ISC", lockfile: "pnpm-lock.yaml" },
+      { name: "react", version: "18.3.1", ecosystem: "npm", direct: false, license: null, lockfile: "pnpm-lock.yaml" },
+    ]);
+
+    const classic = await tempDir();
+    await writeFiles(classic, {
+      "package.json": JSON.stringify({ dependencies: { lodash: "^4.17.0" } }),
+      "yarn.lock": '# yarn lockfile v1\n\n"lodash@^4.17.0", lodash@^4.17.21:\n  version "4.17.21"\n  resolved "https://registry.yarnpkg.com/lodash/-/lodash-4.17.21.tgz"\n\n"@babel/core@^7.0.0":\n  version "7.24.0"\n',
+      "node_modules/lodash/package.json": JSON.stringify({ version: "4.17.21", license: "MIT" }),
+    });
+    const berry = await tempDir();
+    await writeFiles(berry, {
+      "yarn.lock": '__metadata:\n  version: 8\n\n"lodash@npm:^4.17.0":\n  version: 4.17.21\n\n"app@workspace:.":\n  version: 0.0.0-use.local\n',
+    });
+
+    const fromClassic = (await inventoryDependencies(classic, [])).dependencies;
+    expect(fromClassic.map(({ name, version, direct, license }) => [name, version, direct, license])).toEqual([
+      ["lodash", "4.17.21", true, "MIT"],
+      ["@babel/core", "7.24.0", false, null],
+    ]);
+    expect((await inventoryDependencies(berry, [])).dependencies.map(({ name, version }) => `${name}@${version}`)).toEqual([
+      "lodash@4.17.21",
+    ]);
+  });
+
+  it("reads Python requirements and lockfiles with licenses from the virtualenv", async () => {
+    const project = await tempDir();
+    await writeFiles(project, {
+      "requirements.txt": [
+        "certifi==2024.2.2",
+        "    # via requests",
+        "requests==2.31.0 \\",
+        "    --hash=sha256:abc",
+        "    # via -r requirements.in",
+        "",
+      ].join("\n"),
+      "pyproject.toml": '[project]\nname = "app"\nauthors = [{ name = "A" }]\ndependencies = [\n  "Flask[async]>=3",\n]\n',
+      "poetry.lock": '[[package]]\nname = "flask"\nversion = "3.0.2"\n\n[package.dependencies]\nwerkzeug = ">=3"\n\n[[package]]\nname = "Werkzeug"\nversion = "3.0.1"\n',
+      ".venv/lib/python3.12/site-packages/requests-2.31.0.dist-info/METADATA": "Metadata-Version: 2.1\nName: requests\nLicense: Apache 2.0\n\nlong description\n",
+      ".venv/lib/python3.12/site-packages/flask-3.0.2.dist-info/METADATA": "Metadata-Version: 2.1\nName: Flask\nClassifier: License :: OSI Approved :: BSD License\n",
+      ".venv/lib/python3.12/site-packages/werkzeug-3.0.1.dist-info/METADATA": "Metadata-Version: 2.4\nName: Werkzeug\nLicense-Expression: BSD-3-Clause\n",
+    });
+
+    const inventory = await inventoryDependencies(project, ["BSD-3-Clause", "Apache-2.0"]);
+    expect(inventory.lockfiles).toEqual(["poetry.lock", "requirements.txt"]);
+    expect(inventory.dependencies.map(({ name, version, direct, license }) => [name, version, direct, license])).toEqual([
+      ["flask", "3.0.2", true, "BSD License"],
+      ["werkzeug", "3.0.1", false, "BSD-3-Clause"],
+      ["certifi", "2024.2.2", false, null],
+      ["requests", "2.31.0", true, "Apache 2.0"],
+    ]);
+    expect(inventory.licenseViolations.map(dependency => dependency.name)).toEqual(["flask", "requests"]);
+    expect(inventory.unknownLicenses).toBe(1);
+  });
+
+  it("does not flag requirement ranges next to a locked version as duplicates", async () => {
+    const project = await tempDir();
+    await writeFiles(project, {
+      "requirements.txt": "flask>=2.0\nwerkzeug\n",
+      "poetry.lock": '[[package]]\nname = "flask"\nversion = "3.0.2"\n\n[[package]]\nname = "werkzeug"\nversion = "3.0.1"\n',
+    });
+
+    const inventory = await inventoryDependencies(project, []);
+    expect(inventory.dependencies.map(({ name, version }) => `${name}@${version}`)).toEqual([
+      "flask@3.0.2",
+      "werkzeug@3.0.1",
+      "flask@>=2.0",
+      "werkzeug@*",
+    ]);
+    expect(inventory.duplicates).toEqual([]);
+  });
+
+  it("reads Cargo.lock and go.sum with licenses from vendored sources", async () => {
+    const cargoHome = await tempDir();
+    vi.stubEnv("CARGO_HOME", cargoHome);
+    vi.stubEnv("GOMODCACHE", await tempDir());
+    const project = await tempDir();
+    await writeFiles(project, {
+      "Cargo.lock": [
+        "version = 3",
+        "",
+        "[[package]]",
+        'name = "app"',
+        'version = "0.1.0"',
+        "dependencies = [",
+        ' "serde",',
+        "]",
+        "",
+        "[[package]]",
+        'name = "serde"',
+        'version = "1.0.197"',
+        'source = "registry+https://github.com/rust-lang/crates.io-index"',
+        "dependencies = [",
+        ' "serde_derive",',
+        "]",
+        "",
+        "[[package]]",
+        'name = "serde_derive"',
+        'version = "1.0.197"',
+        'source = "registry+https://github.com/rust-lang/crates.io-index"',
+        "",
+      ].join("\n"),
+      "vendor/serde/Cargo.toml": '[package]\nname = "serde"\nversion = "1.0.197"\nlicense = "MIT OR Apache-2.0"\n',
+      "go.mod": "module example.com/app\n\ngo 1.22\n\nrequire (\n\tgithub.com/BurntSushi/toml v1.3.2\n\tgolang.org/x/sys v0.18.0 // indirect\n)\n",
+      "go.sum": [
+        "github.com/BurntSushi/toml v1.3.2 h1:abc=",
+        "github.com/BurntSushi/toml v1.3.2/go.mod h1:def=",
+        "golang.org/x/sys v0.18.0 h1:ghi=",
+        "golang.org/x/sys v0.18.0/go.mod h1:jkl=",
+        "golang.org/x/sys v0.17.0/go.mod h1:mno=",
+        "",
+      ].join("\n"),
+      "vendor/github.com/BurntSushi/toml/COPYING": `The MIT License (MIT)\n\n${MIT}\n`,
+    });
+    await writeFiles(cargoHome, {
+      "registry/src/index.crates.io-6f17d22bba15001f/serde_derive-1.0.197/Cargo.toml":
+        '[package]\nname = "serde_derive"\nversion = "1.0.197"\nlicense = "MIT/Apache-2.0"\n',
+    });
+
+    const { dependencies } = await inventoryDependencies(project, []);
+    expect(dependencies.map(({ name, version, direct, license, ecosystem }) => [ecosystem, name, version, direct, license])).toEqual([
+      ["cargo", "serde", "1.0.197", true, "MIT OR Apache-2.0"],
+      ["cargo", "serde_derive", "1.0.197", false, "MIT OR Apache-2.0"],
+      ["go", "github.com/BurntSushi/toml", "v1.3.2", true, "MIT"],
+      ["go", "golang.org/x/sys", "v0.18.0", false, null],
+    ]);
+  });
+
+  it("evaluates SPDX expressions against the allowlist", () => {
+    const allowed = ["MIT", "Apache-2.0"];
+    expect(isLicenseAllowed("MIT", allowed)).toBe(true);
+    expect(isLicenseAllowed("mit", allowed)).toBe(true);
+    expect(isLicenseAllowed("(MIT OR GPL-3.0)", allowed)).toBe(true);
+    expect(isLicenseAllowed("MIT AND GPL-3.0", allowed)).toBe(false);
+    expect(isLicenseAllowed("(MIT AND Apache-2.0) OR GPL-3.0", allowed)).toBe(true);
+    expect(isLicenseAllowed("Apache-2.0 WITH LLVM-exception", allowed)).toBe(true);
+    expect(isLicenseAllowed("SEE LICENSE IN LICENSE.md", allowed)).toBe(false);
+  });
+});
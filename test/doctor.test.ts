@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { chmod, utimes } from "fs/promises";
+import { join } from "path";
+import { checkBuild, checkWritable, ghScopes } from "../src/servers/info/doctor.js";
+import { COLLECTION_SERVERS } from "../src/servers/info/mcp-clients.js";
+import { InfoMCPServer } from "../src/servers/info/server.js";
+import { callTool, cleanup, connect, fakeGh, gitRepo, tempDir, testConfig, writeFiles } from "./harness.js";
+
+const AUTH_STATUS = `github.com
+  ✓ Logged in to github.com account octocat (keyring)
+  - Active account: true
+  - Git operations protocol: https
+  - Token: gho_************************************
+  - Token scopes: 'gist', 'read:org', 'repo', 'workflow'
+`;
+
+type Check = { server: string; name: string; status: string; message: string; fix?: string };
+
+function find(checks: Check[], server: string, name: string): Check | undefined {
+  return checks.find(check => check.server === server && check.name === name);
+}
+
+describe("doctor", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    return cleanup();
+  });
+
+  it("passes a repository with an authenticated gh and intact storage", async () => {
+    const gh = await fakeGh();
+    await gh.record("auth-status.txt", AUTH_STATUS);
+    const repo = await gitRepo();
+    const config = await testConfig();
+    await writeFiles(config.memory.storagePath, { "memories.json": JSON.stringify([{ id: "1" }]) });
+
+    const { client } = await connect(new InfoMCPServer(config));
+    const { structured, text } = await callTool(client, "run_doctor");
+
+    const checks = structured.checks.filter((check: Check) => check.name !== "Build output");
+    expect(checks.filter((check: Check) => check.status !== "pass")).toEqual([]);
+    expect(find(structured.checks, "git-runner", "Identity")?.message).toBe("Test User <test@example.com>");
+    expect(find(structured.checks, "git-runner", "Remote")?.message).toContain("remote.git");
+    expect(find(structured.checks, "github", "Authentication")?.message).toBe("octocat");
+    expect(find(structured.checks, "github", "Token scopes")?.message).toBe("gist, read:org, repo, workflow");
+    expect(find(structured.checks, "memory", "Memories")?.message).toContain("1 entries");
+    expect(structured.workspace).toBe(repo.path);
+    expect(text).toContain("Git Runner:\n  ✓ git: git version");
+  });
+
+  it("fails with fixes when prerequisites are missing", async () => {
+    const gh = await fakeGh();
+    await gh.record("auth-status.error", "You are not logged into any GitHub hosts. To log in, run: gh auth login\n");
+    const home = await tempDir();
+    vi.stubEnv("HOME", home);
+    vi.stubEnv("XDG_CONFIG_HOME", join(home, ".config"));
+    vi.stubEnv("GIT_CONFIG_NOSYSTEM", "1");
+    vi.stubEnv("GIT_CONFIG_GLOBAL", undefined);
+    const workspace = await tempDir();
+    const config = await testConfig();
+    await writeFiles(config.memory.storagePath, { "memories.json": "[{ broken" });
+    await writeFiles(config.rules.storagePath, { "rules.json": "{}" });
+
+    const { client } = await connect(new InfoMCPServer(config));
+    const { structured, text } = await callTool(client, "run_doctor", { repoPath: workspace });
+
+    expect(structured.healthy).toBe(false);
+    expect(find(structured.checks, "git-runner", "Repository")).toMatchObject({
+      status: "fail",
+      fix: "Run git init, or pass the repository as repoPath",
+    });
+    expect(find(structured.checks, "git-runner", "Remote")).toBeUndefined();
+    expect(find(structured.checks, "git-runner", "Identity")).toMatchObject({
+      status: "fail",
+      message: "user.name and user.email not set; git_commit will fail",
+    });
+    expect(find(structured.checks, "github", "Authentication")).toMatchObject({ status: "fail", fix: "Run gh auth login" });
+    expect(find(structured.checks, "memory", "Memories")).toMatchObject({ status: "fail" });
+    expect(find(structured.checks, "memory", "Memories")?.message).toContain("is not valid JSON");
+    expect(find(structured.checks, "rules", "Rules")?.message).toContain("does not hold a JSON array");
+    expect(find(structured.checks, "rules", "Categories")).toMatchObject({ status: "pass" });
+    expect(structured.summary.fail).toBeGreaterThanOrEqual(5);
+    expect(text).toContain("    Fix: Run gh auth login");
+  });
+
+  it("checks the build output against the sources", async () => {
+    const root = await tempDir();
+    expect(await checkBuild(root)).toMatchObject({ status: "fail", message: "6 of 6 entry points missing in dist/" });
+
+    await writeFiles(root, {
+      "dist/index.js": "",
+      ...Object.fromEntries(COLLECTION_SERVERS.map(server => [`dist/servers/${server}/index.js`, ""])),
+      "src/servers/info/server.ts": "",
+    });
+    const past = new Date(Date.now() - 60_000);
+    await utimes(join(root, "src/servers/info/server.ts"), past, past);
+    expect(await checkBuild(root)).toMatchObject({ status: "pass" });
+
+    await utimes(join(root, "src/servers/info/server.ts"), new Date(Date.now() + 60_000), new Date(Date.now() + 60_000));
+    expect(await checkBuild(root)).toMatchObject({ status: "warn", fix: "Run npm run build to pick up the latest changes" });
+  });
+
+  it.skipIf(process.getuid?.() === 0)("fails on storage it cannot write", async () => {
+    const dir = await tempDir();
+    await chmod(dir, 0o500);
+    try {
+      expect(await checkWritable("Storage", join(dir, "Memory"), "memory.storagePath")).toMatchObject({
+        status: "fail",
+        fix: `Fix the permissions of ${dir} or point memory.storagePath elsewhere`,
+      });
+    } finally {
+      await chmod(dir, 0o700);
+    }
+  });
+
+  it("reads token scopes from gh auth status", () => {
+    expect(ghScopes(AUTH_STATUS)).toEqual(["gist", "read:org", "repo", "workflow"]);
+    expect(ghScopes("  - Token scopes: none")).toEqual([]);
+    expect(ghScopes("✓ Logged in to github.com account octocat (GITHUB_TOKEN)")).toBeNull();
+  });
+});
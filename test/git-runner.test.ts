@@ -0,0 +1,309 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { CreateMessageRequest, LoggingMessageNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { unlink, writeFile } from "fs/promises";
+import { join } from "path";
+import { GitRunnerMCPServer } from "../src/servers/git-runner/server.js";
+import { callTool, cleanup, connect, getPrompt, git, GitRepo, gitRepo, testConfig } from "./harness.js";
+
+describe("Git Runner MCP server", () => {
+  let client: Client;
+  let repo: GitRepo;
+
+  beforeEach(async () => {
+    repo = await gitRepo();
+    ({ client } = await connect(new GitRunnerMCPServer(await testConfig())));
+  });
+
+  afterEach(cleanup);
+
+  it("lists its tools with input and output schemas", async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual([
+      "query_audit_log",
+      "start_git_runner",
+      "stop_git_runner",
+      "git_commit_with_ai",
+      "git_push",
+      "get_git_status",
+      "get_runner_status",
+    ]);
+    for (const tool of tools) {
+      expect(tool.outputSchema).toBeDefined();
+    }
+  });
+
+  it("counts every kind of change in the status", async () => {
+    await writeFile(join(repo.path, "README.md"), "# Changed\n");
+    await writeFile(join(repo.path, "staged.txt"), "new\n");
+    await git(repo.path, "add", "staged.txt");
+    await writeFile(join(repo.path, "staged.txt"), "new, then edited\n");
+    await writeFile(join(repo.path, "untracked.txt"), "?\n");
+
+    const { structured } = await callTool(client, "get_git_status");
+    expect(structured).toMatchObject({
+      branch: "main",
+      remote: repo.remote,
+      modified: 2,
+      added: 1,
+      deleted: 0,
+      untracked: 1,
+      total: 3,
+    });
+    expect(structured.files).toContainEqual({ path: "staged.txt", index: "A", worktree: "M" });
+  });
+
+  it("counts staged modifications, deletions and renames", async () => {
+    await writeFile(join(repo.path, "a.txt"), "a\n");
+    await writeFile(join(repo.path, "b.txt"), "b\n");
+    await git(repo.path, "add", ".");
+    await git(repo.path, "commit", "-m", "Add files");
+
+    await writeFile(join(repo.path, "README.md"), "# Staged\n");
+    await git(repo.path, "mv", "a.txt", "renamed.txt");
+    await unlink(join(repo.path, "b.txt"));
+    await git(repo.path, "add", "-A");
+
+    const { structured } = await callTool(client, "get_git_status");
+    expect(structured).toMatchObject({ modified: 1, deleted: 1, renamed: 1, total: 3 });
+    expect(structured.files).toContainEqual({ path: "renamed.txt", index: "R", worktree: " " });
+  });
+
+  it("reports a repository without a remote", async () => {
+    await git(repo.path, "remote", "remove", "origin");
+    const { structured, text } = await callTool(client, "get_git_status");
+    expect(structured.remote).toBeNull();
+    expect(text).toContain("Remote: None");
+  });
+
+  it("commits all changes with a generated message", async () => {
+    await writeFile(join(repo.path, "feature.ts"), "export const answer = 42;\n");
+
+    const { structured } = await callTool(client, "git_commit_with_ai");
+    expect(structured).toMatchObject({
+      committed: true,
+      files: ["feature.ts"],
+      message: "feat(feature): add answer\n\n- feature.ts: new file; added answer",
+      messageSource: "heuristic",
+    });
+    expect(await git(repo.path, "log", "-1", "--format=%B")).toBe(structured.message);
+    expect(await git(repo.path, "status", "--porcelain")).toBe("");
+  });
+
+  it("classifies the staged diff when git is set to always colour its output", async () => {
+    await git(repo.path, "config", "color.ui", "always");
+    await writeFile(join(repo.path, "feature.ts"), "export const answer = 42;\n");
+
+    const { structured } = await callTool(client, "git_commit_with_ai");
+    expect(structured).toMatchObject({
+      message: "feat(feature): add answer\n\n- feature.ts: new file; added answer",
+      messageSource: "heuristic",
+    });
+  });
+
+  it("asks the client's model for the commit message", async () => {
+    const requests: CreateMessageRequest["params"][] = [];
+    ({ client } = await connect(new GitRunnerMCPServer(await testConfig()), {
+      sample: async (params) => {
+        requests.push(params);
+        return "```\nfeat: add the answer\n\nExports the answer to everything.\n```";
+      },
+    }));
+    await writeFile(join(repo.path, "feature.ts"), "export const answer = 42;\n");
+
+    const { structured, text } = await callTool(client, "git_commit_with_ai");
+    expect(structured).toMatchObject({
+      committed: true,
+      message: "feat: add the answer\n\nExports the answer to everything.",
+      messageSource: "sampling",
+    });
+    expect(text).toContain("Written by: the client's model");
+    expect(await git(repo.path, "log", "-1", "--format=%B")).toBe(structured.message);
+
+    const [{ messages, systemPrompt, maxTokens }] = requests;
+    expect(systemPrompt).toContain("Reply with the commit message only");
+    expect(maxTokens).toBeGreaterThan(0);
+    expect(messages[0].content).toMatchObject({ type: "text", text: expect.stringContaining("+export const answer = 42;") });
+    expect(messages[0].content).toMatchObject({ text: expect.stringContaining("feature.ts | 1 +") });
+  });
+
+  it("sends a plain diff to the client's model when git is set to always colour its output", async () => {
+    let prompt = "";
+    ({ client } = await connect(new GitRunnerMCPServer(await testConfig()), {
+      sample: async ({ messages }) => {
+        prompt = String(messages[0].content.text);
+        return "feat: add the answer";
+      },
+    }));
+    await git(repo.path, "config", "color.ui", "always");
+    await writeFile(join(repo.path, "feature.ts"), "export const answer = 42;\n");
+
+    await callTool(client, "git_commit_with_ai");
+    expect(prompt).toContain("feature.ts | 1 +");
+    expect(prompt).toContain("\n+export const answer = 42;");
+    expect(prompt).not.toContain("\x1b[");
+  });
+
+  it("truncates large diffs per file in the sampling request", async () => {
+    let prompt = "";
+    ({ client } = await connect(new GitRunnerMCPServer(await testConfig()), {
+      sample: async ({ messages }) => {
+        prompt = String(messages[0].content.text);
+        return "chore: regenerate fixtures";
+      },
+    }));
+    const lines = Array.from({ length: 2000 }, (_, i) => `line ${i} of a generated fixture`);
+    await writeFile(join(repo.path, "huge.txt"), `${lines.join("\n")}\n`);
+    await writeFile(join(repo.path, "small.ts"), "export const small = true;\n");
+
+    await callTool(client, "git_commit_with_ai");
+    expect(prompt).toContain("+export const small = true;");
+    expect(prompt).toContain("+line 0 of a generated fixture");
+    expect(prompt).not.toContain("+line 1999 of a generated fixture");
+    expect(prompt).toMatch(/\.\.\. \(\d+ more lines of this file's diff omitted\)/);
+    expect(prompt.length).toBeLessThan(25_000);
+  });
+
+  it("falls back to the heuristic when sampling fails", async () => {
+    ({ client } = await connect(new GitRunnerMCPServer(await testConfig()), {
+      sample: async () => {
+        throw new Error("User rejected sampling request");
+      },
+    }));
+    await writeFile(join(repo.path, "feature.ts"), "export const answer = 42;\n");
+
+    const { structured, text } = await callTool(client, "git_commit_with_ai");
+    expect(structured).toMatchObject({
+      committed: true,
+      message: expect.stringMatching(/^feat\(feature\): add answer\n/),
+      messageSource: "heuristic",
+    });
+    expect(text).toContain("Written by: heuristic");
+  });
+
+  it("commits only the requested files, even with shell metacharacters in their names", async () => {
+    const name = `odd "$(touch pwned)" name.txt`;
+    await writeFile(join(repo.path, name), "x\n");
+    await writeFile(join(repo.path, "other.txt"), "y\n");
+
+    const { structured } = await callTool(client, "git_commit_with_ai", { files: [name] });
+    expect(structured.files).toEqual([name]);
+    expect(await git(repo.path, "status", "--porcelain")).toBe("?? other.txt");
+  });
+
+  it("embeds the staged diff in the commit message prompt", async () => {
+    await writeFile(join(repo.path, "feature.ts"), "export const answer = 42;\n");
+    await writeFile(join(repo.path, "unstaged.ts"), "export {};\n");
+    await git(repo.path, "add", "feature.ts");
+
+    const text = await getPrompt(client, "write_commit_message", { guidance: "Closes #7" });
+    expect(text).toContain("Also consider: Closes #7");
+    expect(text).toContain("+export const answer = 42;");
+    expect(text).toContain("Recent commit subjects, for style:\nInitial commit");
+    expect(text).not.toContain("unstaged.ts");
+  });
+
+  it("refuses the commit message prompt without staged changes", async () => {
+    await expect(getPrompt(client, "write_commit_message")).rejects.toThrow("No staged changes");
+  });
+
+  it("does nothing without changes", async () => {
+    const result = await callTool(client, "git_commit_with_ai");
+    expect(result.text).toBe("No changes to commit");
+    expect(result.structured).toEqual({ committed: false, files: [] });
+  });
+
+  it("pushes to the remote", async () => {
+    await writeFile(join(repo.path, "pushed.txt"), "x\n");
+    await callTool(client, "git_commit_with_ai");
+
+    const { structured } = await callTool(client, "git_push");
+    expect(structured).toMatchObject({ pushed: true, force: false });
+    expect(await git(repo.remote, "log", "-1", "--format=%H", "main")).toBe(await git(repo.path, "rev-parse", "HEAD"));
+  });
+
+  it("streams push output and progress", async () => {
+    await writeFile(join(repo.path, "pushed.txt"), "x\n");
+    await callTool(client, "git_commit_with_ai");
+
+    const lines: string[] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, ({ params }) => {
+      if (params.logger === "git_push") lines.push(String(params.data));
+    });
+    const progress: number[] = [];
+    const result = await client.callTool({ name: "git_push", arguments: {} }, undefined, {
+      onprogress: ({ progress: percent }) => progress.push(percent),
+    });
+
+    expect(lines.some(line => line.startsWith("Writing objects:"))).toBe(true);
+    expect(progress.at(-1)).toBe(100);
+    expect((result.structuredContent as any).output).not.toContain("\r");
+  });
+
+  it("reports a failed push", async () => {
+    await git(repo.path, "remote", "set-url", "origin", join(repo.path, "missing.git"));
+    const result = await callTool(client, "git_push");
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("Failed to push");
+  });
+
+  it("starts, reports and stops the runner", async () => {
+    const started = await callTool(client, "start_git_runner", { autoCommit: false, interval: 5 });
+    expect(started.structured).toEqual({
+      started: true,
+      status: { isRunning: true, autoCommit: false, commitInterval: 5, lastCommit: null },
+    });
+
+    const again = await callTool(client, "start_git_runner");
+    expect(again.structured.started).toBe(false);
+
+    const status = await callTool(client, "get_runner_status");
+    expect(status.structured).toMatchObject({ isRunning: true, commitInterval: 5 });
+
+    const stopped = await callTool(client, "stop_git_runner");
+    expect(stopped.structured).toMatchObject({ stopped: true, status: { isRunning: false } });
+
+    const notRunning = await callTool(client, "stop_git_runner");
+    expect(notRunning.structured.stopped).toBe(false);
+  });
+
+  it("tells the client about auto-commits", async () => {
+    vi.spyOn(process.stderr, "write").mockReturnValue(true);
+    const messages: unknown[] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, ({ params }) => {
+      messages.push(params.data);
+    });
+    await writeFile(join(repo.path, "auto.txt"), "x\n");
+
+    await callTool(client, "start_git_runner", { autoCommit: true, interval: 0.001 });
+    await vi.waitFor(() => expect(messages).toHaveLength(1), { timeout: 5000 });
+    await callTool(client, "stop_git_runner");
+
+    expect(messages[0]).toEqual({
+      message: "Auto-commit performed",
+      repoPath: repo.path,
+      sha: await git(repo.path, "rev-parse", "HEAD"),
+      files: ["auto.txt"],
+    });
+    vi.restoreAllMocks();
+  });
+
+  it("records the last commit time", async () => {
+    await writeFile(join(repo.path, "x.txt"), "x\n");
+    const commit = await callTool(client, "git_commit_with_ai");
+
+    const { structured } = await callTool(client, "get_runner_status");
+    expect(structured.lastCommit).toBe(commit.structured.timestamp);
+  });
+
+  it("rejects a non-positive interval", async () => {
+    const result = await callTool(client, "start_git_runner", { interval: 0 });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("interval: must be > 0");
+  });
+
+  it("exposes its configuration and audit log as resources", async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual(["config://effective", "audit://recent"]);
+  });
+});
@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { GitHubMCPServer } from "../src/servers/github/server.js";
+import { callTool, cleanup, connect, FakeGh, fakeGh, getPrompt, git, GitRepo, gitRepo, testConfig } from "./harness.js";
+
+describe("GitHub MCP server", () => {
+  let client: Client;
+  let gh: FakeGh;
+  let repo: GitRepo;
+
+  const lastCall = async () => (await gh.calls()).at(-1)!;
+
+  beforeEach(async () => {
+    gh = await fakeGh();
+    repo = await gitRepo();
+    ({ client } = await connect(new GitHubMCPServer(await testConfig({ AIS_MCP_GITHUB_LIMIT: "20" }))));
+  });
+
+  afterEach(cleanup);
+
+  it("lists its tools with input and output schemas", async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual([
+      "query_audit_log",
+      "list_issues",
+      "create_issue",
+      "update_issue",
+      "list_pull_requests",
+      "create_pull_request",
+      "get_repository_info",
+      "list_branches",
+      "create_branch",
+      "search_code",
+      "get_release_info",
+    ]);
+    for (const tool of tools) {
+      expect(tool.outputSchema).toBeDefined();
+    }
+  });
+
+  it("lists issues with author, label and assignee names", async () => {
+    const { structured, text } = await callTool(client, "list_issues", { label: "bug" });
+
+    expect(structured.issues[0]).toMatchObject({
+      number: 42,
+      author: "monalisa",
+      labels: ["bug", "auth"],
+      assignees: ["octocat"],
+    });
+    expect(text).toContain("Labels: bug, auth");
+    expect((await lastCall()).args).toEqual([
+      "issue", "list", "--state", "open", "--limit", "20",
+      "--json", "number,title,body,state,author,labels,assignees,createdAt,updatedAt",
+      "--label", "bug",
+    ]);
+  });
+
+  it("fills the triage prompt from the open issues", async () => {
+    const text = await getPrompt(client, "triage_issues", { label: "bug", limit: "5" });
+    expect(text).toContain('Triage these open issues labeled "bug".');
+    expect(text).toContain("#42:");
+    expect((await lastCall()).args).toEqual([
+      "issue", "list", "--state", "open", "--limit", "5",
+      "--json", "number,title,body,state,author,labels,assignees,createdAt,updatedAt",
+      "--label", "bug",
+    ]);
+
+    await expect(getPrompt(client, "triage_issues", { limit: "many" })).rejects.toThrow("Invalid limit: many");
+  });
+
+  it("reports when there are no issues", async () => {
+    await gh.record("issue-list.json", "[]");
+    const result = await callTool(client, "list_issues");
+    expect(result.text).toBe("No issues found with the specified criteria.");
+    expect(result.structured).toEqual({ issues: [] });
+  });
+
+  it("creates an issue with the body on stdin", async () => {
+    const body = "Steps:\n1. `rm -rf /`\n2. $(whoami)";
+    const { structured } = await callTool(client, "create_issue", { title: "Bug", body, labels: ["bug"] });
+
+    expect(structured).toEqual({
+      url: "https://github.com/octo-org/hello-world/issues/43",
+      number: 43,
+      title: "Bug",
+      assignees: [],
+      labels: ["bug"],
+    });
+    expect(await lastCall()).toEqual({
+      args: ["issue", "create", "--title", "Bug", "--body-file", "-", "--label", "bug"],
+      stdin: body,
+    });
+  });
+
+  it("updates and closes an issue", async () => {
+    const { structured } = await callTool(client, "update_issue", { number: 42, title: "New title", state: "closed", confirm: true });
+    expect(structured).toEqual({ number: 42, updated: ["title", "state"], state: "closed" });
+
+    const calls = await gh.calls();
+    expect(calls.map(call => call.args)).toEqual([
+      ["issue", "edit", "42", "--title", "New title"],
+      ["issue", "close", "42"],
+    ]);
+  });
+
+  it("skips the edit call when only the state changes", async () => {
+    await callTool(client, "update_issue", { number: 42, state: "open" });
+    expect((await gh.calls()).map(call => call.args)).toEqual([["issue", "reopen", "42"]]);
+  });
+
+  it("lists pull requests with their branches", async () => {
+    const { structured, text } = await callTool(client, "list_pull_requests", { base: "main" });
+    expect(structured.pullRequests[0]).toMatchObject({
+      number: 44,
+      author: "monalisa",
+      headRefName: "fix/sso-redirect",
+      baseRefName: "main",
+    });
+    expect(text).toContain("Branch: fix/sso-redirect → main");
+  });
+
+  it("creates a pull request against the default base", async () => {
+    const { structured } = await callTool(client, "create_pull_request", { title: "Fix", head: "fix/x", draft: true });
+    expect(structured).toEqual({
+      url: "https://github.com/octo-org/hello-world/pull/44",
+      number: 44,
+      title: "Fix",
+      head: "fix/x",
+      base: "main",
+      draft: true,
+    });
+    expect((await lastCall()).args).toEqual([
+      "pr", "create", "--title", "Fix", "--body-file", "-", "--head", "fix/x", "--base", "main", "--draft",
+    ]);
+  });
+
+  it("gets repository information", async () => {
+    const { structured } = await callTool(client, "get_repository_info");
+    expect(structured).toEqual({
+      name: "hello-world",
+      owner: "octo-org",
+      description: "My first repository on GitHub!",
+      url: "https://github.com/octo-org/hello-world",
+      defaultBranch: "main",
+      visibility: "PUBLIC",
+      createdAt: "2011-01-26T19:01:12Z",
+      pushedAt: "2024-11-06T09:12:45Z",
+      stars: 2710,
+      forks: 2403,
+      openIssues: 12,
+      openPullRequests: 3,
+    });
+  });
+
+  it("lists local and remote branches", async () => {
+    await git(repo.path, "branch", "feature");
+
+    const local = await callTool(client, "list_branches");
+    expect(local.structured).toEqual({ branches: ["feature", "main"], current: "main", includesRemote: false });
+
+    await git(repo.path, "fetch", "origin");
+    const all = await callTool(client, "list_branches", { remote: true });
+    expect(all.structured.branches).toContain("remotes/origin/main");
+  });
+
+  it("creates and checks out a branch", async () => {
+    const { structured } = await callTool(client, "create_branch", { name: "feature/x", confirm: true });
+    expect(structured).toEqual({ name: "feature/x", source: "main" });
+    expect(await git(repo.path, "branch", "--show-current")).toBe("feature/x");
+  });
+
+  it("refuses branch names that look like options", async () => {
+    const result = await callTool(client, "create_branch", { name: "--orphan", confirm: true });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('Invalid branch name: --orphan (must not start with "-")');
+  });
+
+  it("searches code", async () => {
+    const { structured } = await callTool(client, "search_code", { query: "-sso", language: "typescript" });
+    expect(structured.results).toEqual([
+      {
+        path: "src/auth/sso.ts",
+        repository: "octo-org/hello-world",
+        url: "https://github.com/octo-org/hello-world/blob/5f3a1c2/src/auth/sso.ts",
+      },
+    ]);
+    expect((await lastCall()).args.slice(-3)).toEqual(["typescript", "--", "-sso"]);
+  });
+
+  it("lists releases", async () => {
+    const { structured, text } = await callTool(client, "get_release_info", { limit: 2 });
+    expect(structured.releases.map((release: any) => release.tagName)).toEqual(["v1.2.0", "v1.2.0-rc.1"]);
+    expect(text).toContain("v1.2.0: v1.2.0 (latest)");
+    expect(text).toContain("v1.2.0-rc.1: No title (pre-release)");
+  });
+
+  it("kills gh when the client cancels the call", async () => {
+    await gh.record("search-code.hang", "");
+    const controller = new AbortController();
+    const call = client.callTool({ name: "search_code", arguments: { query: "x" } }, undefined, { signal: controller.signal });
+
+    const pidFile = join(process.env.FAKE_GH_FIXTURES!, "search-code.pid");
+    await vi.waitFor(() => readFile(pidFile, "utf-8"));
+    const pid = Number(await readFile(pidFile, "utf-8"));
+    controller.abort();
+
+    await expect(call).rejects.toThrow();
+    await vi.waitFor(() => expect(() => process.kill(pid, 0)).toThrow());
+
+    await vi.waitFor(async () => {
+      const { structured } = await callTool(client, "query_audit_log", { tool: "search_code" });
+      expect(structured.entries[0].error).toContain("was cancelled");
+    });
+  });
+
+  it("surfaces gh failures as tool errors", async () => {
+    await gh.record("repo-view.error", "GraphQL: Could not resolve to a Repository\n");
+    const result = await callTool(client, "get_repository_info");
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("Could not resolve to a Repository");
+  });
+});
@@ -0,0 +1,262 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  CreateMessageRequest,
+  CreateMessageRequestSchema,
+  ListRootsRequestSchema,
+  LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { cp, mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import { delimiter, dirname, join } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { BaseMCPServer } from "../src/shared/base-server.js";
+import { runCommand } from "../src/shared/command-runner.js";
+import { loadConfig, ResolvedConfig } from "../src/shared/config.js";
+
+const FIXTURES_DIR = fileURLToPath(new URL("./fixtures", import.meta.url));
+
+const cleanups: (() => Promise<void>)[] = [];
+
+/**
+ * Runs every cleanup registered by the helpers below, newest first. Call it
+ * from afterEach.
+ */
+export async function cleanup(): Promise<void> {
+  while (cleanups.length > 0) {
+    await cleanups.pop()!();
+  }
+}
+
+export async function tempDir(prefix = "ais-mcp-test-"): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), prefix));
+  cleanups.push(() => rm(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+/**
+ * Resolves configuration the way the entrypoints do, but isolated from the
+ * developer's own config files and AIS_MCP_* variables: storage lives in a
+ * fresh temporary directory unless `env` says otherwise.
+ */
+export async function testConfig(env: Record<string, string> = {}): Promise<ResolvedConfig> {
+  const home = await tempDir();
+  return loadConfig({
+    env: {
+      XDG_CONFIG_HOME: join(home, "config"),
+      XDG_DATA_HOME: join(home, "data"),
+      ...env,
+    },
+    cwd: home,
+  });
+}
+
+export interface Connection {
+  client: Client;
+  server: BaseMCPServer;
+  /** Replaces the client's roots and tells the server they changed. */
+  setRoots(paths: string[]): Promise<void>;
+}
+
+export interface ConnectOptions {
+  clientName?: string;
+  /** Receives log messages from the start, including those replayed on connect. */
+  onLog?: (message: LoggingMessageNotification["params"]) => void;
+  /** Directories the client offers as roots; without them it has no roots capability. */
+  roots?: string[];
+  /** Answers sampling/createMessage requests with text; without it the client has no sampling capability. */
+  sample?: (params: CreateMessageRequest["params"]) => Promise<string>;
+}
+
+/**
+ * Starts a server and connects an MCP client to it over an in-memory
+ * transport. The server is shut down by cleanup().
+ */
+export async function connect(server: BaseMCPServer, options: ConnectOptions = {}): Promise<Connection> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.start();
+  await server.connect(serverTransport);
+
+  let roots = options.roots ?? [];
+  const client = new Client(
+    { name: options.clientName ?? "ais-mcp-test", version: "1.0.0" },
+    {
+      capabilities: {
+        ...(options.roots ? { roots: { listChanged: true } } : {}),
+        ...(options.sample ? { sampling: {} } : {}),
+      },
+    }
+  );
+  if (options.onLog) {
+    const onLog = options.onLog;
+    client.setNotificationHandler(LoggingMessageNotificationSchema, ({ params }) => onLog(params));
+  }
+  if (options.roots) {
+    client.setRequestHandler(ListRootsRequestSchema, async () => ({
+      roots: roots.map(path => ({ uri: pathToFileURL(path).href })),
+    }));
+  }
+  if (options.sample) {
+    const sample = options.sample;
+    client.setRequestHandler(CreateMessageRequestSchema, async ({ params }) => ({
+      model: "test-model",
+      role: "assistant",
+      content: { type: "text", text: await sample(params) },
+    }));
+  }
+  await client.connect(clientTransport);
+
+  cleanups.push(async () => {
+    await client.close();
+    await server.shutdown();
+  });
+  const setRoots = async (paths: string[]) => {
+    roots = paths;
+    await client.sendRootsListChanged();
+  };
+  return { client, server, setRoots };
+}
+
+export interface CallResult {
+  text: string;
+  structured: any;
+  isError: boolean;
+}
+
+export async function callTool(client: Client, name: string, args: Record<string, unknown> = {}): Promise<CallResult> {
+  const result = await client.callTool({ name, arguments: args });
+  const content = result.content as { type: string; text?: string }[];
+  return {
+    text: content.map(block => block.text ?? "").join("\n"),
+    structured: result.structuredContent,
+    isError: Boolean(result.isError),
+  };
+}
+
+export async function readResource(client: Client, uri: string): Promise<any> {
+  const { contents } = await client.readResource({ uri });
+  return JSON.parse(contents[0].text as string);
+}
+
+/**
+ * Renders a prompt and returns the text of its single user message.
+ */
+export async function getPrompt(client: Client, name: string, args: Record<string, string> = {}): Promise<string> {
+  const { messages } = await client.getPrompt({ name, arguments: args });
+  return messages.map(message => (message.content.type === "text" ? message.content.text : "")).join("\n");
+}
+
+export async function git(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await runCommand("git", args, { cwd });
+  return stdout.trim();
+}
+
+export interface GitRepo {
+  path: string;
+  /** Bare repository configured as `origin`. */
+  remote: string;
+}
+
+/** Writes files given by their path relative to `root`, creating directories on the way. */
+export async function writeFiles(root: string, files: Record<string, string>): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), content);
+  }
+}
+
+/**
+ * Creates a repository on `main` with one pushed commit and a local bare
+ * remote, and makes it the working directory until cleanup().
+ */
+export async function gitRepo(): Promise<GitRepo> {
+  const root = await tempDir("ais-mcp-git-");
+  const path = join(root, "work");
+  const remote = join(root, "remote.git");
+
+  await runCommand("git", ["init", "--bare", "--initial-branch", "main", remote]);
+  await runCommand("git", ["init", "--initial-branch", "main", path]);
+  await git(path, "config", "user.name", "Test User");
+  await git(path, "config", "user.email", "test@example.com");
+  await git(path, "config", "commit.gpgsign", "false");
+  await git(path, "remote", "add", "origin", remote);
+
+  await writeFile(join(path, "README.md"), "# Test\n");
+  await git(path, "add", "README.md");
+  await git(path, "commit", "-m", "Initial commit");
+  await git(path, "push", "-u", "origin", "main");
+
+  const previous = process.cwd();
+  process.chdir(path);
+  cleanups.push(async () => process.chdir(previous));
+
+  return { path, remote };
+}
+
+export interface GhCall {
+  args: string[];
+  stdin: string;
+}
+
+export interface FakeGh {
+  /** Replaces the recorded output for a command, e.g. record("issue-list.json", "[]"). */
+  record(fixture: string, output: string): Promise<void>;
+  /** Invocations so far, oldest first. */
+  calls(): Promise<GhCall[]>;
+}
+
+/**
+ * Puts a fake `gh` first on PATH that replays the recorded output in
+ * test/fixtures/gh. See test/fixtures/bin/gh for how commands map to files.
+ */
+export async function fakeGh(): Promise<FakeGh> {
+  const dir = await tempDir("ais-mcp-gh-");
+  const fixtures = join(dir, "fixtures");
+  const log = join(dir, "calls.jsonl");
+  await cp(join(FIXTURES_DIR, "gh"), fixtures, { recursive: true });
+
+  const saved = {
+    PATH: process.env.PATH,
+    FAKE_GH_FIXTURES: process.env.FAKE_GH_FIXTURES,
+    FAKE_GH_LOG: process.env.FAKE_GH_LOG,
+  };
+  process.env.PATH = [join(FIXTURES_DIR, "bin"), process.env.PATH].join(delimiter);
+  process.env.FAKE_GH_FIXTURES = fixtures;
+  process.env.FAKE_GH_LOG = log;
+  cleanups.push(async () => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  return {
+    record: (fixture, output) => writeFile(join(fixtures, fixture), output),
+    calls: async () => {
+      if (!existsSync(log)) return [];
+      const lines = (await readFile(log, "utf-8")).trim().split("\n");
+      return lines.map(line => JSON.parse(line));
+    },
+  };
+}
+
+/**
+ * Replaces PATH with a directory of fake commands that print the given
+ * banner, e.g. `{ node: "v20.11.0" }`. Nothing else is on PATH, so results
+ * do not depend on what the machine has installed.
+ */
+export async function fakeCommands(banners: Record<string, string>): Promise<string> {
+  const dir = await tempDir("ais-mcp-bin-");
+  for (const [command, banner] of Object.entries(banners)) {
+    await writeFile(join(dir, command), `#!/bin/sh\necho '${banner}'\n`, { mode: 0o755 });
+  }
+
+  const saved = process.env.PATH;
+  process.env.PATH = dir;
+  cleanups.push(async () => {
+    process.env.PATH = saved;
+  });
+  return dir;
+}
@@ -0,0 +1,398 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { existsSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import { availableParallelism, hostname } from "os";
+import { join } from "path";
+import { KNOWN_AGENTS } from "../src/servers/info/agents.js";
+import { gitignoreMatcher, justRecipes, makeTargets } from "../src/servers/info/project-analysis.js";
+import { InfoMCPServer } from "../src/servers/info/server.js";
+import { detectCi, detectContainer, detectWsl } from "../src/servers/info/system-report.js";
+import { checkConstraints, parseVersion, readVersionConstraints } from "../src/servers/info/toolchains.js";
+import {
+  callTool,
+  cleanup,
+  connect,
+  fakeCommands,
+  FakeGh,
+  fakeGh,
+  git,
+  GitRepo,
+  gitRepo,
+  tempDir,
+  testConfig,
+  writeFiles,
+} from "./harness.js";
+
+describe("INFO MCP server", () => {
+  let client: Client;
+  let gh: FakeGh;
+  let repo: GitRepo;
+
+  beforeEach(async () => {
+    gh = await fakeGh();
+    repo = await gitRepo();
+    ({ client } = await connect(new InfoMCPServer(await testConfig())));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    return cleanup();
+  });
+
+  it("lists its tools with input and output schemas", async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual([
+      "query_audit_log",
+      "get_system_info",
+      "detect_toolchains",
+      "check_gh_status",
+      "check_available_agents",
+      "get_environment_info",
+      "analyze_project",
+      "get_dependency_inventory",
+      "inspect_env",
+      "inspect_processes",
+      "list_mcp_client_configs",
+      "register_mcp_servers",
+      "run_doctor",
+    ]);
+    for (const tool of tools) {
+      expect(tool.outputSchema).toBeDefined();
+    }
+  });
+
+  it("reports system information", async () => {
+    const { structured, text } = await callTool(client, "get_system_info");
+    expect(structured).toMatchObject({
+      hostname: hostname(),
+      platform: process.platform,
+      arch: process.arch,
+      nodeVersion: process.version,
+      cpu: { cores: availableParallelism() },
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+    expect(structured.loadAverage).toHaveLength(3);
+    expect(structured.memory.availableBytes).toBeLessThanOrEqual(structured.memory.totalBytes);
+    expect(structured.disks.map((disk: { label: string }) => disk.label)).toEqual(["workspace", "memory", "rules"]);
+    expect(structured.disks[0]).toMatchObject({ path: repo.path });
+    expect(structured.disks[0].totalBytes).toBeGreaterThan(0);
+    expect(text).toContain("Disk Space:\n- workspace");
+  });
+
+  it("recognizes containers, WSL and CI", () => {
+    expect(detectContainer({ env: {}, files: ["/.dockerenv"], cgroup: "" })).toBe("docker");
+    expect(detectContainer({ env: { KUBERNETES_SERVICE_HOST: "10.0.0.1" }, files: [], cgroup: "" })).toBe("kubernetes");
+    expect(detectContainer({ env: {}, files: [], cgroup: "0::/system.slice/containerd.service\n" })).toBe("containerd");
+    expect(detectContainer({ env: {}, files: [], cgroup: "0::/init.scope\n" })).toBeNull();
+
+    expect(detectWsl("linux", "5.15.153.1-microsoft-standard-WSL2", {})).toBe(true);
+    expect(detectWsl("linux", "6.8.0-49-generic", {})).toBe(false);
+
+    expect(detectCi({ CI: "true", GITHUB_ACTIONS: "true" })).toBe("GitHub Actions");
+    expect(detectCi({ CI: "true" })).toBe("CI");
+    expect(detectCi({ CI: "false" })).toBeNull();
+  });
+
+  it("checks installed toolchains against the project's constraints", async () => {
+    await fakeCommands({
+      node: "v18.19.0",
+      pnpm: "9.1.0",
+      go: "go version go1.21.5 linux/amd64",
+    });
+    await writeFile(
+      join(repo.path, "package.json"),
+      JSON.stringify({ engines: { node: ">=20" }, packageManager: "pnpm@9.1.0+sha512.abc" })
+    );
+    await writeFile(join(repo.path, ".nvmrc"), "v18\n");
+    await writeFile(join(repo.path, "go.mod"), "module example.com/app\n\ngo 1.22\n");
+    await writeFile(join(repo.path, "rust-toolchain"), "stable\n");
+
+    const { structured, text } = await callTool(client, "detect_toolchains", {
+      tools: ["node", "pnpm", "go", "rustc"],
+    });
+    expect(structured.workspace).toBe(repo.path);
+    expect(structured.tools).toMatchObject([
+      { name: "node", category: "javascript", installed: true, version: "18.19.0" },
+      { name: "pnpm", installed: true, version: "9.1.0" },
+      { name: "go", installed: true, version: "1.21.5" },
+      { name: "rustc", installed: false, path: null, version: null },
+    ]);
+    expect(structured.constraints).toEqual([
+      { tool: "node", range: ">=20", source: "package.json engines.node", installed: "18.19.0", satisfied: false },
+      { tool: "pnpm", range: "9.1.0", source: "package.json packageManager", installed: "9.1.0", satisfied: true },
+      { tool: "node", range: "18", source: ".nvmrc", installed: "18.19.0", satisfied: true },
+      { tool: "rustc", range: "stable", source: "rust-toolchain", installed: null, satisfied: null },
+      { tool: "go", range: ">=1.22", source: "go.mod", installed: "1.21.5", satisfied: false },
+    ]);
+    expect(structured.mismatches).toBe(2);
+    expect(text).toContain("✗ MISMATCH node >=20 (package.json engines.node), installed: 18.19.0");
+    expect(text).toContain("Not found: rustc");
+  });
+
+  it("never runs the tools a workspace installs for itself", async () => {
+    await fakeCommands({ git: "git version 2.43.0" });
+    const marker = join(repo.path, "ran");
+    await writeFiles(repo.path, { "node_modules/eslint/package.json": JSON.stringify({ name: "eslint", version: "8.57.0" }) });
+    await mkdir(join(repo.path, "node_modules/.bin"));
+    for (const command of ["git", "eslint"]) {
+      await writeFile(join(repo.path, "node_modules/.bin", command), `#!/bin/sh\ntouch ${marker}\necho 9.9.9\n`, { mode: 0o755 });
+    }
+
+    const { structured, text } = await callTool(client, "detect_toolchains", { tools: ["git", "eslint"] });
+    expect(existsSync(marker)).toBe(false);
+    expect(structured.tools).toMatchObject([
+      { name: "git", installed: true, version: "2.43.0" },
+      { name: "eslint", installed: false },
+    ]);
+    expect(structured.localTools).toEqual([
+      { name: "git", category: "vcs", source: "node_modules", path: join(repo.path, "node_modules/.bin/git"), version: null },
+      { name: "eslint", category: "linter", source: "node_modules", path: join(repo.path, "node_modules/.bin/eslint"), version: "8.57.0" },
+    ]);
+    expect(text).toContain(`Installed in the workspace (not run):\n- git (unknown version): ${join(repo.path, "node_modules/.bin/git")}`);
+  });
+
+  it("reads version constraints that cannot always be compared", async () => {
+    const project = await tempDir();
+    await writeFile(join(project, ".nvmrc"), "# pinned by the platform team\nlts/*\n");
+    await writeFile(join(project, ".python-version"), "3.12\n");
+    await writeFile(join(project, "rust-toolchain.toml"), '[toolchain]\nchannel = "1.78.0"\n');
+
+    const constraints = await readVersionConstraints(project);
+    expect(constraints.map(constraint => [constraint.tool, constraint.range])).toEqual([
+      ["node", "lts/*"],
+      ["python", "3.12"],
+      ["rustc", "1.78.0"],
+    ]);
+
+    const tools = [
+      { name: "node", version: "20.11.0" },
+      { name: "python", version: "3.12.1" },
+      { name: "rustc", version: "1.77.2" },
+    ].map(tool => ({ ...tool, category: "", installed: true, path: "" }));
+    expect(checkConstraints(constraints, tools).map(check => check.satisfied)).toEqual([null, true, false]);
+
+    expect(parseVersion('openjdk version "21.0.2" 2024-01-16')).toBe("21.0.2");
+    expect(parseVersion("Python 3.12.1")).toBe("3.12.1");
+    expect(parseVersion("unknown")).toBeNull();
+  });
+
+  it("reports an authenticated GitHub CLI", async () => {
+    const { structured, text } = await callTool(client, "check_gh_status");
+    expect(structured).toEqual({ installed: true, version: "gh version 2.62.0 (2024-11-14)", authenticated: true });
+    expect(text).toContain("Authentication: Authenticated");
+  });
+
+  it("reports an unauthenticated GitHub CLI", async () => {
+    await gh.record("auth-status.error", "You are not logged into any GitHub hosts. To log in, run: gh auth login\n");
+    const { structured } = await callTool(client, "check_gh_status");
+    expect(structured).toEqual({ installed: true, version: "gh version 2.62.0 (2024-11-14)", authenticated: false });
+  });
+
+  it("discovers installed agents, their credentials and MCP configs", async () => {
+    const home = await tempDir();
+    for (const name of KNOWN_AGENTS.flatMap(agent => agent.apiKeys)) {
+      vi.stubEnv(name, "");
+    }
+    vi.stubEnv("HOME", home);
+    vi.stubEnv("ANTHROPIC_API_KEY", "sk-ant-secret");
+    await fakeCommands({ claude: "1.0.98 (Claude Code)", gemini: "0.5.2" });
+    await writeFile(
+      join(home, ".claude.json"),
+      JSON.stringify({
+        mcpServers: { "ais-info": { command: "info-mcp" } },
+        projects: { [repo.path]: { mcpServers: { "ais-git": { command: "git-runner-mcp" } } } },
+      })
+    );
+    await mkdir(join(home, ".gemini"));
+    await writeFile(join(home, ".gemini", "oauth_creds.json"), "{}");
+    await mkdir(join(home, ".codex"));
+    await writeFile(join(home, ".codex", "config.toml"), '[mcp_servers.ais_rules]\ncommand = "rules-mcp"\n');
+    await mkdir(join(repo.path, ".gemini"));
+    await writeFile(join(repo.path, ".gemini", "settings.json"), "{ not json");
+
+    const claude = await connect(new InfoMCPServer(await testConfig()), { clientName: "claude-code" });
+    const { structured, text } = await callTool(claude.client, "check_available_agents");
+    const agents = Object.fromEntries(structured.agents.map((agent: { name: string }) => [agent.name, agent]));
+
+    expect(agents["Claude Code"]).toMatchObject({
+      installed: true,
+      version: "1.0.98",
+      apiKeys: ["ANTHROPIC_API_KEY"],
+      configFiles: [{ path: join(home, ".claude.json"), scope: "user", mcpServers: ["ais-info", "ais-git"] }],
+      current: true,
+      status: "ready",
+      usable: true,
+    });
+    expect(agents["Gemini CLI"]).toMatchObject({
+      credentialFiles: [join(home, ".gemini", "oauth_creds.json")],
+      configFiles: [{ path: join(repo.path, ".gemini", "settings.json"), scope: "project", mcpServers: [] }],
+      current: false,
+      status: "ready",
+    });
+    expect(agents["Gemini CLI"].configFiles[0].error).toBeDefined();
+    expect(agents["Codex CLI"]).toMatchObject({
+      installed: false,
+      configFiles: [{ scope: "user", mcpServers: ["ais_rules"] }],
+      status: "not-installed",
+      usable: false,
+    });
+    expect(text).toContain("Usable: Claude Code, Gemini CLI");
+    expect(text).not.toContain("sk-ant-secret");
+  });
+
+  it("describes the working directory and its repository", async () => {
+    await writeFile(join(repo.path, "package.json"), "{}\n");
+
+    const { structured } = await callTool(client, "get_environment_info");
+    expect(structured).toMatchObject({
+      cwd: process.cwd(),
+      git: { isRepository: true, branch: "main", remote: repo.remote, clean: false },
+      projectFiles: ["package.json"],
+    });
+  });
+
+  it("handles a repository without a remote", async () => {
+    await git(repo.path, "remote", "remove", "origin");
+    const { structured } = await callTool(client, "get_environment_info");
+    expect(structured.git).toEqual({ isRepository: true, branch: "main", remote: null, clean: true });
+  });
+
+  it("fingerprints a project without its ignored files", async () => {
+    await writeFiles(repo.path, {
+      ".gitignore": "dist/\n*.log\n",
+      "package.json": JSON.stringify({
+        packageManager: "pnpm@9.1.0",
+        scripts: { build: "turbo build", test: "vitest run", lint: "eslint .", "test:e2e": "playwright test" },
+        devDependencies: { vitest: "^3.0.0", turbo: "^2.0.0" },
+      }),
+      "pnpm-workspace.yaml": "packages:\n  - packages/*\n",
+      "pnpm-lock.yaml": "lockfileVersion: '9.0'\n",
+      "turbo.json": "{}",
+      "packages/web/package.json": JSON.stringify({ dependencies: { next: "15.0.0", react: "19.0.0" } }),
+      "packages/web/app/page.tsx": "export default function Page() {}\n",
+      "packages/web/app/layout.tsx": "export default function Layout() {}\n",
+      "packages/web/lib/db.ts": "export const db = {};\n",
+      "scripts/seed.py": "print('seed')\n",
+      "Makefile": ".PHONY: deploy check\nVERSION := 1.0\ndeploy: build\n\t./deploy.sh\ncheck:\n\tpnpm lint\n%.o: %.c\n",
+      ".github/workflows/ci.yml": "on: push\n",
+      "dist/bundle.js": "ignored();\n",
+      "debug.log": "ignored\n",
+    });
+
+    const { structured, text } = await callTool(client, "analyze_project");
+    expect(structured).toMatchObject({
+      root: repo.path,
+      listedBy: "git",
+      languages: [
+        { name: "TypeScript", files: 3, percent: 75 },
+        { name: "Python", files: 1, percent: 25 },
+      ],
+      primaryLanguage: "TypeScript",
+      packageManagers: [
+        { name: "pnpm", manifests: ["package.json", "packages/web/package.json", "pnpm-workspace.yaml"], lockfiles: ["pnpm-lock.yaml"] },
+      ],
+      monorepo: { tools: ["pnpm workspaces", "Turborepo"], workspaces: ["packages/*"] },
+      frameworks: [
+        { name: "Next.js", category: "fullstack", manifest: "packages/web/package.json" },
+        { name: "React", category: "frontend", manifest: "packages/web/package.json" },
+        { name: "Vitest", category: "test", manifest: "package.json" },
+      ],
+      primaryFramework: "Next.js",
+      testCommands: ["pnpm run test", "pnpm run test:e2e"],
+      lintCommands: ["pnpm run lint", "make check"],
+      ci: [{ service: "GitHub Actions", files: [".github/workflows/ci.yml"] }],
+    });
+    expect(structured.tasks.map((task: { command: string }) => task.command)).toEqual([
+      "pnpm run build",
+      "pnpm run test",
+      "pnpm run lint",
+      "pnpm run test:e2e",
+      "make deploy",
+      "make check",
+    ]);
+    expect(text).toContain("Languages: TypeScript 75%, Python 25%");
+  });
+
+  it("walks directories outside git and reads other ecosystems", async () => {
+    const project = await tempDir();
+    await writeFiles(project, {
+      ".gitignore": "/target\n**/generated/\n",
+      "Cargo.toml": '[workspace]\nmembers = ["crates/api", "crates/cli"]\n',
+      "crates/api/Cargo.toml": '[dependencies]\naxum = "0.7"\n',
+      "crates/api/src/main.rs": "fn main() {}\n",
+      "crates/api/src/generated/schema.rs": "// generated\n",
+      "target/debug/build.rs": "// build output\n",
+      "go.work": "go 1.22\n\nuse (\n\t./tools\n)\n",
+      "tools/go.mod": "module example.com/tools\n\nrequire github.com/spf13/cobra v1.8.0\n",
+      "tools/main.go": "package main\n",
+      "justfile": "set shell := [\"bash\", \"-c\"]\nalias t := test\n\ntest target='all': build\n\tcargo test\n@lint:\n\tcargo clippy\n",
+    });
+
+    const { structured } = await callTool(client, "analyze_project", { repoPath: project });
+    expect(structured).toMatchObject({
+      listedBy: "walk",
+      files: 8,
+      languages: [
+        { name: "Go", files: 1, percent: 50 },
+        { name: "Rust", files: 1, percent: 50 },
+      ],
+      monorepo: { tools: ["Cargo workspace", "Go workspace"], workspaces: ["crates/api", "crates/cli", "./tools"] },
+      frameworks: [
+        { name: "Cobra", manifest: "tools/go.mod" },
+        { name: "Axum", manifest: "crates/api/Cargo.toml" },
+      ],
+      primaryFramework: "Cobra",
+      testCommands: ["just test", "cargo test"],
+      lintCommands: ["just lint", "cargo clippy"],
+    });
+  });
+
+  it("ignores package.json fields of the wrong type", async () => {
+    const project = await tempDir();
+    await writeFiles(project, {
+      "package.json": JSON.stringify({ packageManager: 9, workspaces: { packages: "apps/*" }, scripts: ["test"], dependencies: "react" }),
+      "index.js": "",
+    });
+
+    const { structured } = await callTool(client, "analyze_project", { repoPath: project });
+    expect(structured).toMatchObject({
+      packageManagers: [{ name: "npm", manifests: ["package.json"], lockfiles: [] }],
+      monorepo: { tools: ["npm workspaces"], workspaces: [] },
+      frameworks: [],
+      testCommands: [],
+    });
+  });
+
+  it("parses .gitignore patterns, make targets and just recipes", () => {
+    const ignored = gitignoreMatcher("# comment\nbuild/\n/config.local.json\n*.log\ndocs/**/*.tmp\n**/cache\nvendor/**\n!keep.log\n");
+    expect(ignored("build", true)).toBe(true);
+    expect(ignored("packages/app/build", true)).toBe(true);
+    expect(ignored("build", false)).toBe(false);
+    expect(ignored("config.local.json", false)).toBe(true);
+    expect(ignored("app/config.local.json", false)).toBe(false);
+    expect(ignored("logs/server.log", false)).toBe(true);
+    expect(ignored("docs/a/b/draft.tmp", false)).toBe(true);
+    expect(ignored("docs/draft.tmp", false)).toBe(true);
+    expect(ignored("cache", true)).toBe(true);
+    expect(ignored("a/b/cache", true)).toBe(true);
+    expect(ignored("a/barcache", true)).toBe(false);
+    expect(ignored("vendor/lib/x.js", false)).toBe(true);
+    expect(ignored("src/index.ts", false)).toBe(false);
+
+    expect(makeTargets("all: build test\nbuild:\n\ttsc\nCC ?= gcc\nOUT := dist\n.PHONY: all\n%.o: %.c\ntest::\n")).toEqual([
+      "all",
+      "build",
+      "test",
+    ]);
+    expect(justRecipes("version := `git describe`\ndefault:\n  just --list\nrelease tag: test\n")).toEqual([
+      "default",
+      "release",
+    ]);
+  });
+
+  it("exposes its configuration and audit log as resources", async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual(["config://effective", "audit://recent"]);
+  });
+});
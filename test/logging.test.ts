@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LoggingMessageNotification } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { MemoryMCPServer } from "../src/servers/memory/server.js";
+import { RulesMCPServer } from "../src/servers/rules/server.js";
+import { CompositeMCPServer } from "../src/shared/composite-server.js";
+import { ConfigError } from "../src/shared/config.js";
+import { Logger } from "../src/shared/logger.js";
+import { cleanup, connect, tempDir, testConfig } from "./harness.js";
+
+type LogMessage = LoggingMessageNotification["params"];
+
+describe("logging", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    return cleanup();
+  });
+
+  it("sends log messages at the level the client chose", async () => {
+    vi.spyOn(process.stderr, "write").mockReturnValue(true);
+    const messages: LogMessage[] = [];
+    const { client, server } = await connect(new RulesMCPServer(await testConfig()), {
+      onLog: message => messages.push(message),
+    });
+
+    server.logger.debug("hidden by default");
+    server.logger.info("rules reloaded", { count: 3 });
+    await client.setLoggingLevel("debug");
+    server.logger.debug("now visible");
+    await client.setLoggingLevel("error");
+    server.logger.warning("below error");
+    await client.ping();
+
+    expect(messages).toEqual([
+      { level: "info", logger: "rules-mcp", data: { message: "rules reloaded", count: 3 } },
+      { level: "debug", logger: "rules-mcp", data: "now visible" },
+    ]);
+  });
+
+  it("tells the client about a store that failed to load before it connected", async () => {
+    vi.spyOn(process.stderr, "write").mockReturnValue(true);
+    const memoryPath = await tempDir();
+    await writeFile(join(memoryPath, "memories.json"), "{ not json");
+    const messages: LogMessage[] = [];
+
+    const { client } = await connect(
+      new MemoryMCPServer(await testConfig({ AIS_MCP_MEMORY_PATH: memoryPath })),
+      { onLog: message => messages.push(message) }
+    );
+    await client.ping();
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({
+      level: "error",
+      logger: "memory-mcp",
+      data: { message: "Failed to load memories", path: memoryPath },
+    });
+  });
+
+  it("forwards messages of hosted servers", async () => {
+    vi.spyOn(process.stderr, "write").mockReturnValue(true);
+    const config = await testConfig();
+    const rules = new RulesMCPServer(config);
+    const messages: LogMessage[] = [];
+    const { client } = await connect(
+      new CompositeMCPServer([{ namespace: "rules", server: rules }], config),
+      { onLog: message => messages.push(message) }
+    );
+
+    rules.logger.warning("disk almost full");
+    await client.ping();
+
+    expect(messages).toEqual([{ level: "warning", logger: "rules-mcp", data: "disk almost full" }]);
+  });
+
+  it("writes records at the configured level to a rotating file", async () => {
+    const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+    const path = join(await tempDir(), "logs", "ais-mcp.log");
+    const logger = new Logger("rules-mcp", { level: "info", file: { path, maxBytes: 200, maxFiles: 2 } });
+
+    logger.debug("not written");
+    for (let index = 1; index <= 12; index++) {
+      logger.info(`event ${index}`, { index });
+    }
+    await logger.flush();
+
+    expect(stderr).toHaveBeenCalledTimes(12);
+    expect(existsSync(`${path}.1`)).toBe(true);
+    expect(existsSync(`${path}.2`)).toBe(true);
+    expect(existsSync(`${path}.3`)).toBe(false);
+
+    const current = await readFile(path, "utf-8");
+    expect(current).toMatch(/^\S+ INFO \[rules-mcp\] event \d+ \{"index":\d+\}$/m);
+    expect(current).toContain("event 12");
+    expect(current).not.toContain("not written");
+  });
+
+  it("rejects unknown log levels", async () => {
+    await expect(testConfig({ AIS_MCP_LOG_LEVEL: "verbose" })).rejects.toThrow(ConfigError);
+  });
+});
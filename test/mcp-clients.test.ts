@@ -0,0 +1,280 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import {
+  COLLECTION_SERVERS,
+  entryPoint,
+  inspectMcpClients,
+  matchCollection,
+  PACKAGE_ROOT,
+  parseMcpConfig,
+  registerMcpServers,
+  unifiedDiff,
+} from "../src/servers/info/mcp-clients.js";
+import { InfoMCPServer } from "../src/servers/info/server.js";
+import { serverKeys } from "../src/servers/registry.js";
+import { callTool, cleanup, connect, tempDir, testConfig, writeFiles } from "./harness.js";
+
+const CODEX_CONFIG = `model = "o3"
+
+[mcp_servers.ais_rules]
+command = "node"
+args = [
+  "/opt/ais/dist/servers/rules/index.js",
+]
+startup_timeout_sec = 20
+
+[mcp_servers.ais_rules.env]
+GITHUB_TOKEN = "secret"
+
+[mcp_servers."docs site"]
+url = 'https://docs.example.com/mcp'
+`;
+
+describe("MCP client configs", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    return cleanup();
+  });
+
+  it("knows every server of the collection", () => {
+    expect(COLLECTION_SERVERS).toEqual(serverKeys);
+  });
+
+  it("parses JSON and TOML client configs", () => {
+    const claude = JSON.stringify({
+      mcpServers: { github: { type: "stdio", command: "node", args: ["dist/servers/github/index.js"], env: { GH_TOKEN: "x" } } },
+      projects: { "/work": { mcpServers: { remote: { type: "http", url: "https://mcp.example.com" } } } },
+    });
+    expect(parseMcpConfig(claude, { path: ".claude.json", scope: "user", format: "json" }, "/work")).toEqual([
+      { name: "github", command: "node", args: ["dist/servers/github/index.js"], url: null, env: ["GH_TOKEN"] },
+      { name: "remote", command: null, args: [], url: "https://mcp.example.com", env: [] },
+    ]);
+
+    const vscode = JSON.stringify({ servers: { memory: { type: "stdio", command: "node", args: ["m.js"] } } });
+    expect(parseMcpConfig(vscode, { path: "mcp.json", scope: "project", format: "json", key: "servers" }, "/work")).toEqual([
+      { name: "memory", command: "node", args: ["m.js"], url: null, env: [] },
+    ]);
+
+    expect(parseMcpConfig(CODEX_CONFIG, { path: "config.toml", scope: "user", format: "toml" }, "/work")).toEqual([
+      { name: "ais_rules", command: "node", args: ["/opt/ais/dist/servers/rules/index.js"], url: null, env: ["GITHUB_TOKEN"] },
+      { name: "docs site", command: null, args: [], url: "https://docs.example.com/mcp", env: [] },
+    ]);
+  });
+
+  it("recognizes entries that start this collection", async () => {
+    const packageRoot = await tempDir();
+    await writeFiles(packageRoot, { "dist/index.js": "", "dist/servers/info/index.js": "" });
+    const options = { packageRoot, workspace: "/work" };
+    const entry = (command: string, ...args: string[]) => ({ name: "x", command, args, url: null, env: [] });
+
+    expect(matchCollection(entry("node", join(packageRoot, "dist/servers/info/index.js")), options)).toEqual({
+      collection: ["info"],
+      script: join(packageRoot, "dist/servers/info/index.js"),
+      upToDate: true,
+    });
+    expect(matchCollection(entry("node", "/old/ais/dist/servers/memory/index.js"), options)).toMatchObject({
+      collection: ["memory"],
+      upToDate: false,
+    });
+    const combined = entry("node", join(packageRoot, "dist/index.js"), "--servers", "memory,rules", "--github");
+    expect(matchCollection(combined, options)).toMatchObject({ collection: ["memory", "github", "rules"], upToDate: true });
+    expect(matchCollection(entry("node", join(packageRoot, "dist/index.js")), options).collection).toEqual(COLLECTION_SERVERS);
+    expect(matchCollection(entry("node", "/other/project/dist/index.js"), options).collection).toEqual([]);
+    expect(matchCollection(entry("npx", "-y", "@modelcontextprotocol/server-github"), options).collection).toEqual([]);
+  });
+
+  it("reports which servers are registered in which client", async () => {
+    const home = await tempDir();
+    const workspace = await tempDir();
+    const packageRoot = await tempDir();
+    await writeFiles(packageRoot, { "dist/index.js": "", "dist/servers/info/index.js": "" });
+    await writeFiles(home, {
+      ".claude.json": JSON.stringify({
+        mcpServers: { "ais-info": { command: "node", args: [join(packageRoot, "dist/servers/info/index.js"), "--token", "abc"] } },
+      }),
+      ".codex/config.toml": CODEX_CONFIG,
+    });
+    await writeFiles(workspace, { ".cursor/mcp.json": "{ broken" });
+
+    const report = await inspectMcpClients({ workspace, home, packageRoot });
+
+    expect(report.built).toBe(true);
+    expect(report.configs.map(config => [config.client, config.scope, config.servers.map(server => server.name)])).toEqual([
+      ["Claude Code", "user", ["ais-info"]],
+      ["Codex CLI", "user", ["ais_rules", "docs site"]],
+      ["Cursor", "project", []],
+    ]);
+    expect(report.configs[0].servers[0].args).toEqual([join(packageRoot, "dist/servers/info/index.js"), "--token", "[redacted]"]);
+    expect(report.configs[2].error).toBeDefined();
+    expect(report.collection.find(status => status.server === "info")).toMatchObject({ registered: true, upToDate: true });
+    expect(report.collection.find(status => status.server === "rules")).toEqual({
+      server: "rules",
+      registered: true,
+      upToDate: false,
+      registrations: [{ client: "Codex CLI", path: join(home, ".codex/config.toml"), name: "ais_rules", upToDate: false }],
+    });
+    expect(report.collection.find(status => status.server === "github")).toMatchObject({ registered: false });
+  });
+
+  it("patches JSON configs with a dry-run diff", async () => {
+    const home = await tempDir();
+    const workspace = await tempDir();
+    const packageRoot = await tempDir();
+    const options = { client: "claude-code", workspace, home, packageRoot };
+
+    const dryRun = await registerMcpServers({ ...options, servers: ["info", "memory"], dryRun: true });
+    expect(dryRun).toMatchObject({
+      path: join(workspace, ".mcp.json"),
+      scope: "project",
+      created: true,
+      changed: true,
+      applied: false,
+      built: false,
+    });
+    expect(dryRun.diff).toContain("--- /dev/null");
+    expect(dryRun.diff).toContain(`+      "args": [\n+        "${entryPoint(packageRoot, "info")}"`);
+    expect(existsSync(join(workspace, ".mcp.json"))).toBe(false);
+
+    await writeFiles(workspace, {
+      ".mcp.json": JSON.stringify({
+        mcpServers: {
+          info: { command: "node", args: ["/old/dist/servers/info/index.js"], env: { API_KEY: "k9Xq7Lm2ZrXq7Lm2ZrXq7Lm2" } },
+          other: { command: "other-mcp" },
+        },
+      }, null, 2),
+    });
+    const applied = await registerMcpServers({ ...options, servers: ["info", "memory"], dryRun: false });
+    expect(applied.entries.map(entry => entry.name)).toEqual(["info", "ais-memory"]);
+    expect(applied).toMatchObject({ created: false, changed: true, applied: true });
+    expect(applied.diff).toContain(`-        "/old/dist/servers/info/index.js"`);
+    expect(applied.diff).not.toContain("k9Xq7Lm2");
+
+    const written = JSON.parse(await readFile(join(workspace, ".mcp.json"), "utf-8"));
+    expect(written.mcpServers).toEqual({
+      info: { command: "node", args: [entryPoint(packageRoot, "info")], env: { API_KEY: "k9Xq7Lm2ZrXq7Lm2ZrXq7Lm2" } },
+      other: { command: "other-mcp" },
+      "ais-memory": { command: "node", args: [entryPoint(packageRoot, "memory")] },
+    });
+
+    const again = await registerMcpServers({ ...options, servers: ["info", "memory"], dryRun: false });
+    expect(again).toMatchObject({ changed: false, applied: false, diff: "" });
+
+    await expect(registerMcpServers({ ...options, client: "vscode", scope: "user", dryRun: true })).rejects.toThrow(
+      'VS Code has no user config file; use scope "project"'
+    );
+  });
+
+  it("rewrites only the registered JSON entries and refuses JSONC", async () => {
+    const workspace = await tempDir();
+    const packageRoot = await tempDir();
+    const options = { client: "vscode", servers: ["info"], workspace, home: workspace, packageRoot, dryRun: false };
+    await writeFiles(workspace, {
+      ".vscode/mcp.json": '{\n    "inputs": [ { "id": "token" } ],\n    "servers": {\n        "other": { "command": "other-mcp" }\n    }\n}\n',
+    });
+
+    await registerMcpServers(options);
+    expect(await readFile(join(workspace, ".vscode/mcp.json"), "utf-8")).toBe(`{
+    "inputs": [ { "id": "token" } ],
+    "servers": {
+        "other": { "command": "other-mcp" },
+        "ais-info": {
+            "command": "node",
+            "args": [
+                ${JSON.stringify(entryPoint(packageRoot, "info"))}
+            ],
+            "type": "stdio"
+        }
+    }
+}
+`);
+
+    const jsonc = '{\n  // added by hand\n  "servers": {},\n}\n';
+    await writeFiles(workspace, { ".vscode/mcp.json": jsonc });
+    await expect(registerMcpServers(options)).rejects.toThrow(
+      `${join(workspace, ".vscode/mcp.json")} is not plain JSON`
+    );
+    expect(await readFile(join(workspace, ".vscode/mcp.json"), "utf-8")).toBe(jsonc);
+  });
+
+  it("patches Codex TOML tables in place", async () => {
+    const home = await tempDir();
+    const packageRoot = await tempDir();
+    await writeFiles(home, { ".codex/config.toml": CODEX_CONFIG });
+
+    const { diff } = await registerMcpServers({
+      client: "codex",
+      servers: ["rules", "github"],
+      dryRun: false,
+      workspace: home,
+      home,
+      packageRoot,
+    });
+
+    expect(await readFile(join(home, ".codex/config.toml"), "utf-8")).toBe(`model = "o3"
+
+[mcp_servers.ais_rules]
+command = "node"
+args = [${JSON.stringify(entryPoint(packageRoot, "rules"))}]
+startup_timeout_sec = 20
+
+[mcp_servers.ais_rules.env]
+GITHUB_TOKEN = "secret"
+
+[mcp_servers."docs site"]
+url = 'https://docs.example.com/mcp'
+
+[mcp_servers.ais-github]
+command = "node"
+args = [${JSON.stringify(entryPoint(packageRoot, "github"))}]
+`);
+    expect(diff).toContain('-  "/opt/ais/dist/servers/rules/index.js",');
+  });
+
+  it("builds a unified diff of the changed lines", () => {
+    expect(unifiedDiff("f", "a\nb\nc\nd\ne\n", "a\nb\nC\nd\ne\n")).toBe("--- f\n+++ f\n@@ -1,5 +1,5 @@\n a\n b\n-c\n+C\n d\n e\n");
+    expect(unifiedDiff("f", "same\n", "same\n")).toBe("");
+  });
+
+  it("registers the collection through the Info server", async () => {
+    const home = await tempDir();
+    const workspace = await tempDir();
+    vi.stubEnv("HOME", home);
+
+    const { client } = await connect(new InfoMCPServer(await testConfig()));
+    const registered = await callTool(client, "register_mcp_servers", { repoPath: workspace, client: "cursor", combined: true });
+    expect(registered.structured).toMatchObject({
+      path: join(workspace, ".cursor/mcp.json"),
+      entries: [
+        {
+          name: "ais-mcpserver",
+          servers: COLLECTION_SERVERS,
+          command: "node",
+          args: [entryPoint(PACKAGE_ROOT), "--servers", COLLECTION_SERVERS.join(",")],
+        },
+      ],
+      applied: false,
+    });
+    expect(registered.text).toContain("Dry run:");
+
+    const unconfirmed = await callTool(client, "register_mcp_servers", { repoPath: workspace, client: "cursor", dryRun: false });
+    expect(unconfirmed.isError).toBe(true);
+    expect(existsSync(join(workspace, ".cursor/mcp.json"))).toBe(false);
+
+    await callTool(client, "register_mcp_servers", { repoPath: workspace, client: "cursor", combined: true, dryRun: false, confirm: true });
+    const { structured, text } = await callTool(client, "list_mcp_client_configs", { repoPath: workspace });
+
+    expect(structured.packageRoot).toBe(PACKAGE_ROOT);
+    expect(structured.configs).toEqual([
+      {
+        client: "Cursor",
+        path: join(workspace, ".cursor/mcp.json"),
+        scope: "project",
+        servers: [expect.objectContaining({ name: "ais-mcpserver", collection: COLLECTION_SERVERS, script: entryPoint(PACKAGE_ROOT) })],
+      },
+    ]);
+    expect(structured.collection.every((status: { registered: boolean }) => status.registered)).toBe(true);
+    expect(text).toContain(`Cursor (project) ${join(workspace, ".cursor/mcp.json")}:`);
+  });
+});
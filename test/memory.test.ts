@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { MemoryMCPServer } from "../src/servers/memory/server.js";
+import { callTool, cleanup, connect, getPrompt, readResource, tempDir, testConfig } from "./harness.js";
+
+describe("Memory MCP server", () => {
+  let client: Client;
+  let storagePath: string;
+
+  const store = (title: string, extra: Record<string, unknown> = {}) =>
+    callTool(client, "store_experience", {
+      project: "webapp",
+      category: "bug",
+      title,
+      content: `Details about ${title}`,
+      ...extra,
+    });
+
+  beforeEach(async () => {
+    storagePath = await tempDir();
+    const config = await testConfig({ AIS_MCP_MEMORY_PATH: storagePath });
+    ({ client } = await connect(new MemoryMCPServer(config)));
+  });
+
+  afterEach(cleanup);
+
+  it("lists its tools with input and output schemas", async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual([
+      "query_audit_log",
+      "store_experience",
+      "search_memories",
+      "get_memory_stats",
+      "export_memories",
+      "import_memories",
+    ]);
+    for (const tool of tools) {
+      expect(tool.outputSchema).toBeDefined();
+    }
+  });
+
+  it("stores an experience and persists it", async () => {
+    const result = await store("Race in cache warmup", { tags: ["cache"], context: { language: "typescript" } });
+
+    expect(result.isError).toBe(false);
+    expect(result.structured.memory).toMatchObject({
+      project: "webapp",
+      title: "Race in cache warmup",
+      tags: ["cache"],
+      context: { language: "typescript" },
+    });
+
+    const saved = JSON.parse(await readFile(join(storagePath, "memories.json"), "utf-8"));
+    expect(saved).toHaveLength(1);
+    expect(saved[0].id).toBe(result.structured.memory.id);
+  });
+
+  it("loads memories stored by an earlier instance", async () => {
+    await store("Persisted");
+
+    const config = await testConfig({ AIS_MCP_MEMORY_PATH: storagePath });
+    const { client: second } = await connect(new MemoryMCPServer(config));
+    const stats = await callTool(second, "get_memory_stats");
+    expect(stats.structured.totalMemories).toBe(1);
+  });
+
+  it("ranks search results and applies filters", async () => {
+    await store("Cache invalidation bug", { tags: ["cache"] });
+    await store("Slow query", { content: "Missing index, the cache did not help", project: "api" });
+    await store("Unrelated");
+
+    const all = await callTool(client, "search_memories", { query: "cache" });
+    expect(all.structured.results.map((r: any) => r.entry.title)).toEqual(["Cache invalidation bug", "Slow query"]);
+    expect(all.structured.results[0].relevantTags).toEqual(["cache"]);
+
+    const filtered = await callTool(client, "search_memories", { query: "cache", project: "api" });
+    expect(filtered.structured.results.map((r: any) => r.entry.title)).toEqual(["Slow query"]);
+
+    const limited = await callTool(client, "search_memories", { query: "cache", limit: 1 });
+    expect(limited.structured.results).toHaveLength(1);
+  });
+
+  it("recalls experiences about a topic in a prompt", async () => {
+    await store("Cache invalidation bug", { tags: ["cache"] });
+    await store("Unrelated");
+
+    const text = await getPrompt(client, "recall_experiences", { topic: "cache", project: "webapp" });
+    expect(text).toContain('Before working on "cache", recall what we learned about it in webapp.');
+    expect(text).toContain("Cache invalidation bug");
+    expect(text).not.toContain("Unrelated");
+  });
+
+  it("reports when nothing matches", async () => {
+    const result = await callTool(client, "search_memories", { query: "nothing" });
+    expect(result.text).toBe('No memories found for query: "nothing"');
+    expect(result.structured).toEqual({ query: "nothing", results: [] });
+  });
+
+  it("summarizes stored memories", async () => {
+    await store("One", { tags: ["a", "b"] });
+    await store("Two", { project: "api", category: "pattern", tags: ["b"] });
+
+    const { structured } = await callTool(client, "get_memory_stats");
+    expect(structured).toMatchObject({
+      totalMemories: 2,
+      totalProjects: 2,
+      totalCategories: 2,
+      totalUniqueTags: 2,
+      projects: [
+        { project: "webapp", count: 1 },
+        { project: "api", count: 1 },
+      ],
+    });
+    expect(structured.latest).toHaveLength(2);
+  });
+
+  it("exports and re-imports memories", async () => {
+    await store("Exported");
+
+    const exported = await callTool(client, "export_memories", { format: "json" });
+    expect(exported.structured).toMatchObject({ format: "json", count: 1 });
+
+    const imported = await callTool(client, "import_memories", { filePath: exported.structured.filePath });
+    expect(imported.structured).toMatchObject({ imported: 1, total: 2 });
+  });
+
+  it("exports markdown", async () => {
+    await store("As markdown");
+    const { structured } = await callTool(client, "export_memories", { format: "markdown" });
+    expect(await readFile(structured.filePath, "utf-8")).toContain("# As markdown");
+  });
+
+  it("fills in missing ids when importing", async () => {
+    const file = join(storagePath, "import.json");
+    await writeFile(file, JSON.stringify([{ project: "p", category: "c", title: "t", content: "x", tags: [], context: {} }]));
+
+    const result = await callTool(client, "import_memories", { filePath: file });
+    expect(result.isError).toBe(false);
+
+    const memories = await readResource(client, "memory://experiences");
+    expect(memories[0].id).toMatch(/^mem_/);
+  });
+
+  it("reports progress while importing", async () => {
+    const file = join(storagePath, "many.json");
+    const entries = ["a", "b", "c"].map(title => ({ project: "p", category: "c", title, content: "x", tags: [], context: {} }));
+    await writeFile(file, JSON.stringify(entries));
+
+    const progress: { progress: number; total?: number }[] = [];
+    await client.callTool({ name: "import_memories", arguments: { filePath: file } }, undefined, {
+      onprogress: ({ progress: done, total }) => progress.push({ progress: done, total }),
+    });
+
+    expect(progress[0]).toEqual({ progress: 1, total: 3 });
+    expect(progress.at(-1)).toEqual({ progress: 3, total: 3 });
+  });
+
+  it("rejects a missing import file", async () => {
+    const result = await callTool(client, "import_memories", { filePath: join(storagePath, "missing.json") });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("File not found");
+  });
+
+  it("reports invalid arguments", async () => {
+    const result = await callTool(client, "store_experience", { project: "p", title: 3, extra: true });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("category: is required");
+    expect(result.text).toContain("title: must be string, got number");
+    expect(result.text).toContain("extra: is not a known argument");
+  });
+
+  it("exposes experiences and projects as resources", async () => {
+    await store("One");
+    await store("Two", { project: "api" });
+
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual([
+      "config://effective",
+      "audit://recent",
+      "memory://experiences",
+      "memory://projects",
+    ]);
+
+    expect(await readResource(client, "memory://experiences")).toHaveLength(2);
+    expect(await readResource(client, "memory://projects")).toEqual(["webapp", "api"]);
+
+    const config = await readResource(client, "config://effective");
+    expect(config.memory.storagePath).toBe(storagePath);
+  });
+});
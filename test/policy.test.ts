@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { writeFile } from "fs/promises";
+import { join } from "path";
+import { GitHubMCPServer } from "../src/servers/github/server.js";
+import { GitRunnerMCPServer } from "../src/servers/git-runner/server.js";
+import { MemoryMCPServer } from "../src/servers/memory/server.js";
+import { RulesMCPServer } from "../src/servers/rules/server.js";
+import { CompositeMCPServer } from "../src/shared/composite-server.js";
+import { ConfigError } from "../src/shared/config.js";
+import { enforcePolicy, isToolHidden, PolicyConfig, PolicyError } from "../src/shared/policy.js";
+import { callTool, cleanup, connect, fakeGh, git, gitRepo, tempDir, testConfig } from "./harness.js";
+
+/**
+ * Test configuration with the given policy, loaded from a config file the
+ * way a deployment would set it.
+ */
+async function policyConfig(policy: object, env: Record<string, string> = {}) {
+  const file = join(await tempDir(), "ais-mcp.config.json");
+  await writeFile(file, JSON.stringify({ policy }));
+  return testConfig({ AIS_MCP_CONFIG: file, ...env });
+}
+
+describe("policy", () => {
+  afterEach(cleanup);
+
+  it("lets the first matching rule decide", () => {
+    const policy: PolicyConfig = {
+      readOnly: false,
+      confirmDangerous: true,
+      rules: [
+        { tools: ["git_push"], when: { force: true, branch: ["main", "release/*"] }, effect: "deny", reason: "protected" },
+        { clients: ["junior-*"], access: "write", effect: "deny" },
+        { servers: ["rules-mcp"], tools: ["create_*"], effect: "confirm" },
+      ],
+    };
+    const push = { server: "git-runner-mcp", tool: "git_push", readOnly: false, confirmed: true };
+
+    expect(() => enforcePolicy(policy, { ...push, values: { force: true, branch: "release/1.2" } })).toThrow(
+      new PolicyError("git_push is denied by policy: protected")
+    );
+    expect(() => enforcePolicy(policy, { ...push, values: { force: true, branch: "feature/x" } })).not.toThrow();
+    expect(() => enforcePolicy(policy, { ...push, client: "junior-bot", values: {} })).toThrow(PolicyError);
+    expect(() =>
+      enforcePolicy(policy, { server: "rules-mcp", tool: "create_rule", readOnly: false, values: {}, confirmed: false })
+    ).toThrow("create_rule needs confirmation");
+
+    expect(isToolHidden(policy, { server: "git-runner-mcp", tool: "git_push", readOnly: false })).toBe(false);
+    expect(isToolHidden(policy, { server: "github-mcp", tool: "create_issue", readOnly: false, client: "junior-bot" })).toBe(true);
+    expect(isToolHidden(policy, { server: "github-mcp", tool: "list_issues", readOnly: true, client: "junior-bot" })).toBe(false);
+  });
+
+  it("hides and refuses tools that change state in read-only mode", async () => {
+    const config = await testConfig({ AIS_MCP_READ_ONLY: "true" });
+    const { client } = await connect(new MemoryMCPServer(config));
+
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(["query_audit_log", "search_memories", "get_memory_stats"]);
+    expect(tools.every(tool => tool.annotations?.readOnlyHint)).toBe(true);
+
+    const result = await callTool(client, "store_experience", { project: "p", category: "c", title: "t", content: "x" });
+    expect(result.isError).toBe(true);
+    expect(result.text).toBe("Error: store_experience changes state and the server is in read-only mode");
+  });
+
+  it("asks for confirmation before dangerous calls", async () => {
+    const config = await testConfig({ AIS_MCP_RULES_PATH: join(await tempDir(), "rules") });
+    const { client } = await connect(new RulesMCPServer(config));
+
+    const { tools } = await client.listTools();
+    const deleteRule = tools.find(tool => tool.name === "delete_rule")!;
+    expect(deleteRule.annotations).toEqual({ readOnlyHint: false, destructiveHint: true });
+    expect(deleteRule.inputSchema.properties).toHaveProperty("confirm");
+
+    const unconfirmed = await callTool(client, "delete_rule", { id: "git-001" });
+    expect(unconfirmed.isError).toBe(true);
+    expect(unconfirmed.text).toBe(
+      "Error: delete_rule needs confirmation: this permanently deletes rule git-001. Call it again with confirm: true to proceed."
+    );
+
+    const confirmed = await callTool(client, "delete_rule", { id: "git-001", confirm: true });
+    expect(confirmed.structured).toEqual({ deletedId: "git-001" });
+  });
+
+  it("can waive confirmation", async () => {
+    const config = await policyConfig(
+      { confirmDangerous: false },
+      { AIS_MCP_RULES_PATH: join(await tempDir(), "rules") }
+    );
+    const { client } = await connect(new RulesMCPServer(config));
+
+    const result = await callTool(client, "delete_rule", { id: "git-001" });
+    expect(result.isError).toBe(false);
+  });
+
+  it("denies force pushes to the default branch", async () => {
+    const repo = await gitRepo();
+    const config = await policyConfig({
+      rules: [{ tools: ["git_push"], when: { force: true, branch: "main" }, effect: "deny", reason: "main is protected" }],
+    });
+    const { client } = await connect(new GitRunnerMCPServer(config));
+
+    const denied = await callTool(client, "git_push", { force: true, confirm: true });
+    expect(denied.text).toBe("Error: git_push is denied by policy: main is protected");
+
+    expect((await callTool(client, "git_push")).structured.pushed).toBe(true);
+
+    await git(repo.path, "checkout", "-b", "feature/x");
+    await git(repo.path, "push", "-u", "origin", "feature/x");
+    const forced = await callTool(client, "git_push", { force: true, confirm: true });
+    expect(forced.structured).toMatchObject({ pushed: true, force: true, branch: "feature/x" });
+  });
+
+  it("gives selected clients read access to selected servers", async () => {
+    await fakeGh();
+    await gitRepo();
+    const config = await policyConfig({
+      rules: [
+        { clients: ["junior-*"], servers: ["memory-mcp", "github-mcp"], access: "read", effect: "allow" },
+        { clients: ["junior-*"], effect: "deny", reason: "junior agents only read memories and GitHub" },
+      ],
+    }, { AIS_MCP_MEMORY_PATH: await tempDir() });
+    const hosted = () => [
+      { namespace: "memory", server: new MemoryMCPServer(config) },
+      { namespace: "github", server: new GitHubMCPServer(config) },
+    ];
+
+    const { client: junior } = await connect(new CompositeMCPServer(hosted(), config), { clientName: "junior-agent" });
+    const { tools } = await junior.listTools();
+    expect(tools.map(tool => tool.name)).toEqual([
+      "memory__search_memories",
+      "memory__get_memory_stats",
+      "github__list_issues",
+      "github__list_pull_requests",
+      "github__get_repository_info",
+      "github__list_branches",
+      "github__search_code",
+      "github__get_release_info",
+    ]);
+    expect((await callTool(junior, "memory__search_memories", { query: "cache" })).isError).toBe(false);
+
+    const denied = await callTool(junior, "github__create_issue", { title: "Nope" });
+    expect(denied.text).toBe("Error: create_issue is denied by policy: junior agents only read memories and GitHub");
+
+    const { client: senior } = await connect(new CompositeMCPServer(hosted(), config), { clientName: "senior-agent" });
+    expect((await senior.listTools()).tools.map(tool => tool.name)).toContain("github__create_issue");
+  });
+
+  it("rejects invalid rules at startup", async () => {
+    await expect(policyConfig({ rules: [{ tools: ["git_push"], effect: "block" }] })).rejects.toThrow(ConfigError);
+    await expect(policyConfig({ rules: [{ tool: "git_push", effect: "deny" }] })).rejects.toThrow(
+      "rule 1 has unknown key tool"
+    );
+  });
+});
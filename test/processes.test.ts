@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import { existsSync } from "fs";
+import { writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  decodeProcAddress,
+  inspectProcesses,
+  parseLsof,
+  parseProcNet,
+  publishedPorts,
+} from "../src/servers/info/processes.js";
+import { InfoMCPServer } from "../src/servers/info/server.js";
+import { redactArgs } from "../src/shared/secrets.js";
+import { callTool, cleanup, connect, fakeCommands, tempDir, testConfig } from "./harness.js";
+
+const PROC_NET_TCP = `  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode
+   0: 0100007F:1F90 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 41231 1 0000000000000000 100 0 0 10 0
+   1: 0100007F:1F90 0100007F:D431 01 00000000:00000000 00:00000000 00000000  1000        0 41299 1 0000000000000000 20 4 30 10 -1
+`;
+
+describe("process inspection", () => {
+  afterEach(cleanup);
+
+  it("decodes /proc/net addresses", () => {
+    expect(decodeProcAddress("0100007F")).toBe("127.0.0.1");
+    expect(decodeProcAddress("00000000000000000000000000000000")).toBe("::");
+    expect(decodeProcAddress("00000000000000000000000001000000")).toBe("::1");
+    expect(decodeProcAddress("0000000000000000FFFF00000100007F")).toBe("::ffff:127.0.0.1");
+    expect(decodeProcAddress("B80D0120000000000000000001000000")).toBe("2001:db8::1");
+  });
+
+  it("parses listening sockets from /proc/net and lsof", () => {
+    expect(parseProcNet(PROC_NET_TCP, "tcp")).toEqual([{ protocol: "tcp", address: "127.0.0.1", port: 8080, inode: "41231" }]);
+    expect(parseProcNet(PROC_NET_TCP, "udp")).toEqual([]);
+
+    const lsof = [
+      "p501", "cnode", "f23", "PTCP", "n*:3000", "f24", "PTCP", "n[::1]:9229",
+      "p77", "cmDNSResponder", "f5", "PUDP", "n*:5353", "f6", "PUDP", "n10.0.0.2:5353->10.0.0.1:53",
+    ];
+    expect(parseLsof(lsof.join("\n"))).toEqual([
+      { protocol: "tcp", address: "*", port: 3000, pid: 501, command: "node" },
+      { protocol: "tcp", address: "::1", port: 9229, pid: 501, command: "node" },
+      { protocol: "udp", address: "*", port: 5353, pid: 77, command: "mDNSResponder" },
+    ]);
+  });
+
+  it("reads published container ports and redacts command lines", () => {
+    expect(publishedPorts("0.0.0.0:5432->5432/tcp, :::5432->5432/tcp, 0.0.0.0:8000-8002->8000-8002/tcp, 6379/tcp")).toEqual([
+      5432, 8000, 8001, 8002,
+    ]);
+    expect(redactArgs(["node", "server.js", "--port", "3000", "--api-key", "abc", "--token=xyz"])).toEqual(
+      ["node", "server.js", "--port", "3000", "--api-key", "[redacted]", "--token=[redacted]"]
+    );
+  });
+
+  it.skipIf(!existsSync("/proc/net/tcp"))("finds what listens on a port in the workspace", async () => {
+    const workspace = await tempDir();
+    const child = spawn(
+      process.execPath,
+      ["-e", "const server = require('net').createServer().listen(0, '127.0.0.1', () => console.log(server.address().port))"],
+      { cwd: workspace, stdio: ["ignore", "pipe", "ignore"] }
+    );
+    try {
+      const port = await new Promise<number>(resolve => child.stdout.once("data", data => resolve(Number(String(data).trim()))));
+      const { client } = await connect(new InfoMCPServer(await testConfig()));
+      const { structured, text } = await callTool(client, "inspect_processes", { repoPath: workspace, port });
+
+      expect(structured.source).toBe("proc");
+      expect(structured.ports).toEqual([
+        {
+          protocol: "tcp",
+          address: "127.0.0.1",
+          port,
+          pid: child.pid,
+          command: expect.stringContaining("createServer"),
+          cwd: workspace,
+          inWorkspace: true,
+        },
+      ]);
+      expect(structured.processes).toEqual([
+        { pid: child.pid, ppid: process.pid, command: expect.stringContaining("node"), cwd: workspace, ports: [port] },
+      ]);
+      expect(text).toContain(`- tcp 127.0.0.1:${port} (pid ${child.pid}:`);
+
+      const free = await callTool(client, "inspect_processes", { repoPath: workspace, port: port === 65535 ? 65534 : port + 1 });
+      expect(free.structured.processes).toEqual([]);
+    } finally {
+      child.kill();
+    }
+  });
+
+  it.skipIf(!existsSync("/proc/net/tcp"))("stops reading /proc when the call is cancelled", async () => {
+    const workspace = await tempDir();
+    await expect(inspectProcesses(workspace, { signal: AbortSignal.abort() })).rejects.toThrow();
+  });
+
+  it("lists docker and podman containers", async () => {
+    const bin = await fakeCommands({});
+    await writeFile(
+      join(bin, "docker"),
+      "#!/bin/sh\nprintf 'abc123\\tpostgres-dev\\tpostgres:16\\tUp 2 hours\\t0.0.0.0:5432->5432/tcp\\n'\nprintf 'def456\\tcache\\tredis:7\\tUp 1 hour\\t\\n'\n",
+      { mode: 0o755 }
+    );
+    await writeFile(join(bin, "podman"), "#!/bin/sh\necho 'Cannot connect to Podman socket' >&2\nexit 125\n", { mode: 0o755 });
+    const workspace = await tempDir();
+
+    const { client } = await connect(new InfoMCPServer(await testConfig()));
+    const { structured, text } = await callTool(client, "inspect_processes", { repoPath: workspace, name: "postgres" });
+
+    expect(structured.containers).toEqual([
+      { runtime: "docker", id: "abc123", name: "postgres-dev", image: "postgres:16", status: "Up 2 hours", ports: [5432] },
+    ]);
+    expect(structured.runtimes).toEqual([{ name: "docker" }, { name: "podman", error: "Cannot connect to Podman socket" }]);
+    expect(text).toContain("- postgres-dev (docker, postgres:16): Up 2 hours (ports 5432)");
+
+    const byPort = await callTool(client, "inspect_processes", { repoPath: workspace, port: 5432 });
+    expect(byPort.structured.containers.map((container: { name: string }) => container.name)).toEqual(["postgres-dev"]);
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { mkdir, symlink, writeFile } from "fs/promises";
+import { join } from "path";
+import { GitRunnerMCPServer } from "../src/servers/git-runner/server.js";
+import { InfoMCPServer } from "../src/servers/info/server.js";
+import { resolveWorkspace } from "../src/shared/roots.js";
+import { callTool, cleanup, connect, getPrompt, git, gitRepo, tempDir, testConfig } from "./harness.js";
+
+describe("roots", () => {
+  afterEach(cleanup);
+
+  it("resolves the directory a tool acts in", async () => {
+    const [first, second] = [await tempDir(), await tempDir()];
+    const outside = await tempDir();
+
+    expect(resolveWorkspace([])).toBe(process.cwd());
+    expect(resolveWorkspace([first])).toBe(first);
+    expect(resolveWorkspace([first, second], second)).toBe(second);
+    expect(() => resolveWorkspace([first, second])).toThrow("The client has 2 roots open; pass repoPath");
+    expect(() => resolveWorkspace([first], outside)).toThrow(`${outside} is outside the client's roots`);
+
+    await mkdir(join(first, "..cache"));
+    expect(resolveWorkspace([first], "..cache")).toBe(join(first, "..cache"));
+    await symlink(outside, join(first, "escape"));
+    expect(() => resolveWorkspace([first], "escape")).toThrow("escape is outside the client's roots");
+    expect(() => resolveWorkspace([first], "missing")).toThrow(`Not a directory: ${join(first, "missing")}`);
+  });
+
+  it("commits in the repository the client chose", async () => {
+    const [app, lib] = [await gitRepo(), await gitRepo()];
+    const { client } = await connect(new GitRunnerMCPServer(await testConfig()), { roots: [app.path, lib.path] });
+    await writeFile(join(app.path, "app.txt"), "x\n");
+
+    const ambiguous = await callTool(client, "git_commit_with_ai");
+    expect(ambiguous.isError).toBe(true);
+    expect(ambiguous.text).toContain("The client has 2 roots open");
+
+    const committed = await callTool(client, "git_commit_with_ai", { repoPath: app.path });
+    expect(committed.structured.files).toEqual(["app.txt"]);
+    expect(await git(app.path, "rev-parse", "HEAD")).toBe(committed.structured.sha);
+    expect(await git(lib.path, "log", "--format=%s")).toBe("Initial commit");
+
+    const outside = await callTool(client, "get_git_status", { repoPath: await tempDir() });
+    expect(outside.text).toContain("is outside the client's roots");
+  });
+
+  it("follows the client's roots when they change", async () => {
+    const [app, lib] = [await gitRepo(), await gitRepo()];
+    await writeFile(join(lib.path, "lib.txt"), "x\n");
+    await git(lib.path, "add", "lib.txt");
+    const { client, setRoots } = await connect(new GitRunnerMCPServer(await testConfig()), { roots: [app.path] });
+
+    expect((await callTool(client, "get_git_status")).structured.total).toBe(0);
+
+    await setRoots([lib.path]);
+    expect((await callTool(client, "get_git_status")).structured.files).toEqual([
+      { path: "lib.txt", index: "A", worktree: " " },
+    ]);
+    expect(await getPrompt(client, "write_commit_message")).toContain("lib.txt");
+  });
+
+  it("reports the environment of the client's root", async () => {
+    const repo = await gitRepo();
+    process.chdir(await tempDir());
+    const { client } = await connect(new InfoMCPServer(await testConfig()), { roots: [repo.path] });
+
+    const { structured } = await callTool(client, "get_environment_info");
+    expect(structured).toMatchObject({
+      cwd: repo.path,
+      roots: [repo.path],
+      git: { isRepository: true, branch: "main", remote: repo.remote },
+    });
+  });
+});
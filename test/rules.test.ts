@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { RulesMCPServer } from "../src/servers/rules/server.js";
+import { callTool, cleanup, connect, getPrompt, readResource, tempDir, testConfig } from "./harness.js";
+
+const RULE = {
+  category: "coding",
+  description: "",
+  content: "x",
+  tags: [],
+  examples: [],
+  relatedRules: [],
+  timestamp: "2024-01-01T00:00:00.000Z",
+  version: "1.0.0",
+};
+
+describe("Rules MCP server", () => {
+  let client: Client;
+  let storagePath: string;
+
+  beforeEach(async () => {
+    // A storage directory that does not exist yet gets the default rules.
+    storagePath = join(await tempDir(), "rules");
+    const config = await testConfig({ AIS_MCP_RULES_PATH: storagePath });
+    ({ client } = await connect(new RulesMCPServer(config)));
+  });
+
+  afterEach(cleanup);
+
+  it("lists its tools with input and output schemas", async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual([
+      "query_audit_log",
+      "create_rule",
+      "search_rules",
+      "get_rule_by_id",
+      "update_rule",
+      "delete_rule",
+      "list_categories",
+      "create_category",
+      "get_rules_by_category",
+      "export_rules",
+      "import_rules",
+    ]);
+    for (const tool of tools) {
+      expect(tool.outputSchema).toBeDefined();
+    }
+  });
+
+  it("seeds default rules and categories", async () => {
+    const rules = await readResource(client, "rules://all");
+    expect(rules.map((rule: any) => rule.id)).toEqual(["coding-001", "git-001", "security-001"]);
+
+    const { structured } = await callTool(client, "list_categories");
+    expect(structured.categories.map((c: any) => c.name)).toEqual(["coding", "git", "security", "testing", "documentation"]);
+    expect(structured.categories[1].rules).toEqual(["git-001"]);
+  });
+
+  it("creates a rule in a new category", async () => {
+    const result = await callTool(client, "create_rule", {
+      title: "Review dependencies",
+      category: "supply-chain",
+      content: "Pin versions and review new packages.",
+      tags: ["dependencies"],
+    });
+
+    expect(result.structured.rule).toMatchObject({ id: "sup-001", category: "supply-chain", tags: ["dependencies"] });
+
+    const categories = await readResource(client, "rules://categories");
+    expect(categories.find((c: any) => c.name === "supply-chain").rules).toEqual(["sup-001"]);
+
+    const saved = JSON.parse(await readFile(join(storagePath, "rules.json"), "utf-8"));
+    expect(saved.map((rule: any) => rule.id)).toContain("sup-001");
+  });
+
+  it("searches rules by relevance", async () => {
+    const { structured } = await callTool(client, "search_rules", { query: "commit" });
+    expect(structured.results[0].rule.id).toBe("git-001");
+
+    const filtered = await callTool(client, "search_rules", { query: "commit", category: "testing" });
+    expect(filtered.structured.results).toEqual([]);
+    expect(filtered.text).toBe('No rules found for query: "commit"');
+  });
+
+  it("fills the apply_rules prompt from matching rules", async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(["apply_rules"]);
+
+    const text = await getPrompt(client, "apply_rules", { task: "Tidy up the release branch", query: "commit" });
+    expect(text).toContain("Task:\nTidy up the release branch");
+    expect(text).toContain("Commit Message Format (git-001)");
+    expect(text).not.toContain("coding-001");
+  });
+
+  it("falls back to the category's rules when nothing matches the task", async () => {
+    const text = await getPrompt(client, "apply_rules", { task: "Port the parser to C++", category: "coding" });
+    expect(text).toContain("Function Naming Convention (coding-001)");
+    expect(text).not.toContain("git-001");
+
+    await expect(getPrompt(client, "apply_rules", {})).rejects.toThrow("Missing required argument for prompt apply_rules: task");
+  });
+
+  it("gets a rule with its related rules", async () => {
+    const file = join(storagePath, "related.json");
+    await writeFile(file, JSON.stringify([{ ...RULE, id: "coding-002", title: "Second" }]));
+    await callTool(client, "import_rules", { filePath: file });
+
+    const { structured } = await callTool(client, "get_rule_by_id", { id: "coding-001" });
+    expect(structured.rule.title).toBe("Function Naming Convention");
+    expect(structured.relatedRules.map((rule: any) => rule.id)).toEqual(["coding-002"]);
+  });
+
+  it("updates a rule", async () => {
+    const { structured } = await callTool(client, "update_rule", { id: "git-001", title: "Conventional commits" });
+    expect(structured.rule).toMatchObject({ id: "git-001", title: "Conventional commits", category: "git" });
+
+    const fetched = await callTool(client, "get_rule_by_id", { id: "git-001" });
+    expect(fetched.structured.rule.title).toBe("Conventional commits");
+  });
+
+  it("deletes a rule and removes it from its category", async () => {
+    const result = await callTool(client, "delete_rule", { id: "git-001", confirm: true });
+    expect(result.structured).toEqual({ deletedId: "git-001" });
+
+    const categories = await readResource(client, "rules://categories");
+    expect(categories.find((c: any) => c.name === "git").rules).toEqual([]);
+
+    const missing = await callTool(client, "get_rule_by_id", { id: "git-001" });
+    expect(missing.isError).toBe(true);
+    expect(missing.text).toBe("Error: Rule not found: git-001");
+  });
+
+  it("creates categories and rejects duplicates", async () => {
+    const created = await callTool(client, "create_category", { name: "performance" });
+    expect(created.structured.category).toEqual({ name: "performance", description: "Rules for performance", rules: [] });
+
+    const duplicate = await callTool(client, "create_category", { name: "performance" });
+    expect(duplicate.isError).toBe(true);
+    expect(duplicate.text).toContain("Category already exists");
+  });
+
+  it("gets the rules in a category", async () => {
+    const { structured } = await callTool(client, "get_rules_by_category", { category: "security" });
+    expect(structured.rules.map((rule: any) => rule.id)).toEqual(["security-001"]);
+
+    const empty = await callTool(client, "get_rules_by_category", { category: "testing" });
+    expect(empty.structured).toEqual({ category: "testing", rules: [] });
+  });
+
+  it("exports and re-imports rules", async () => {
+    const exported = await callTool(client, "export_rules", { category: "git" });
+    expect(exported.structured).toMatchObject({ format: "json", count: 1 });
+
+    await callTool(client, "delete_rule", { id: "git-001", confirm: true });
+    const imported = await callTool(client, "import_rules", { filePath: exported.structured.filePath });
+    expect(imported.structured).toMatchObject({ imported: 1, total: 3 });
+
+    const categories = await readResource(client, "rules://categories");
+    expect(categories.find((c: any) => c.name === "git").rules).toEqual(["git-001"]);
+  });
+
+  it("exports markdown", async () => {
+    const { structured } = await callTool(client, "export_rules", { format: "markdown" });
+    expect(await readFile(structured.filePath, "utf-8")).toContain("# Commit Message Format (git-001)");
+  });
+
+  it("exposes rules, categories, configuration and the audit log as resources", async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual(["config://effective", "audit://recent", "rules://all", "rules://categories"]);
+
+    const config = await readResource(client, "config://effective");
+    expect(config.rules.storagePath).toBe(storagePath);
+  });
+});
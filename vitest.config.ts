@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    // Git Runner and GitHub act on the working directory, so tests chdir into
+    // temporary repositories; that needs child processes rather than threads.
+    pool: "forks",
+    testTimeout: 20_000,
+  },
+});